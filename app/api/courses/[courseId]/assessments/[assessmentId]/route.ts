@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteAssessment,
+  isCourseId,
+  publicAssessment,
+  readAssessment
+} from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    courseId: string;
+    assessmentId: string;
+  };
+};
+
+// GET ?userId — one assessment, without answer keys
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  const assessment = await readAssessment(userId, params.courseId, params.assessmentId);
+  if (!assessment) {
+    return NextResponse.json({ error: "Assessment not found." }, { status: 404 });
+  }
+  return NextResponse.json({ assessment: publicAssessment(assessment) });
+}
+
+// DELETE ?userId
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  if (!(await deleteAssessment(userId, params.courseId, params.assessmentId))) {
+    return NextResponse.json({ error: "Assessment not found." }, { status: 404 });
+  }
+  return NextResponse.json({ deleted: params.assessmentId });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { gradeSubmission, type SubmittedAnswer } from "@/lib/ai/graderAgent";
+import { assertUnitUnlocked, syncProgression, UnitLockedError } from "@/lib/course/progression";
+import { isCourseId, listSubmissions, readAssessment } from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    courseId: string;
+    assessmentId: string;
+  };
+};
+
+function toSubmittedAnswer(value: unknown): SubmittedAnswer | null {
+  if (!value || typeof value !== "object") return null;
+  const input = value as Record<string, unknown>;
+  if (typeof input.questionId !== "string") return null;
+  return {
+    questionId: input.questionId,
+    ...(Number.isInteger(input.choice) ? { choice: input.choice as number } : {}),
+    ...(typeof input.text === "string" ? { text: input.text } : {})
+  };
+}
+
+// GET ?userId — graded attempts at the assessment, oldest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  const submissions = await listSubmissions(userId, params.courseId, params.assessmentId);
+  return NextResponse.json({ submissions });
+}
+
+// POST { userId, answers: [{ questionId, choice?, text? }] } — grades an attempt;
+// unlocked lists the units a passing score has opened; 403 while a covered unit is locked
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+  if (!Array.isArray(body?.answers)) {
+    return NextResponse.json({ error: "answers must be an array." }, { status: 400 });
+  }
+
+  const assessment = await readAssessment(userId, params.courseId, params.assessmentId);
+  if (!assessment) {
+    return NextResponse.json({ error: "Assessment not found." }, { status: 404 });
+  }
+  if (assessment.supersededBy) {
+    return NextResponse.json(
+      { error: "This assessment was regenerated.", supersededBy: assessment.supersededBy },
+      { status: 409 }
+    );
+  }
+
+  const answers = body.answers
+    .map(toSubmittedAnswer)
+    .filter((answer): answer is SubmittedAnswer => answer !== null);
+  try {
+    await assertUnitUnlocked(userId, params.courseId, assessment.unitNumbers);
+    const submission = await gradeSubmission(userId, params.courseId, params.assessmentId, answers);
+    const progression = await syncProgression(userId, params.courseId).catch(() => null);
+    return NextResponse.json({ submission, unlocked: progression?.newUnlocks ?? [] });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected grader error.";
+    const status = error instanceof UnitLockedError ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { coveredUnits, generateAssessment } from "@/lib/ai/assessmentAgent";
+import { assertUnitUnlocked, UnitLockedError } from "@/lib/course/progression";
+import {
+  isAssessmentKind,
+  isCourseId,
+  listAssessments,
+  publicAssessment,
+  readCoursePlan
+} from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    courseId: string;
+  };
+};
+
+// GET ?userId[&unitNumber] — the course's assessments, without answer keys
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  const unitParam = request.nextUrl.searchParams.get("unitNumber");
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  const unitNumber = unitParam ? Number(unitParam) : undefined;
+  const assessments = (await listAssessments(userId, params.courseId)).filter(
+    (assessment) => unitNumber === undefined || assessment.unitNumbers.includes(unitNumber)
+  );
+  return NextResponse.json({ assessments: assessments.map(publicAssessment) });
+}
+
+// POST { userId, kind, unitNumber?, unitNumbers? } — writes a homework or quiz for a
+// unit, or a midterm or final across units; writing one again replaces it with a new version
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  if (!isAssessmentKind(body?.kind)) {
+    return NextResponse.json(
+      { error: "kind must be one of homework, quiz, midterm or final." },
+      { status: 400 }
+    );
+  }
+  const unitNumber = Number.isInteger(body?.unitNumber) ? (body?.unitNumber as number) : undefined;
+  if ((body.kind === "homework" || body.kind === "quiz") && unitNumber === undefined) {
+    return NextResponse.json({ error: `A ${body.kind} needs a unitNumber.` }, { status: 400 });
+  }
+  const unitNumbers = Array.isArray(body.unitNumbers)
+    ? body.unitNumbers.filter((n): n is number => Number.isInteger(n))
+    : undefined;
+
+  const assessmentRequest = {
+    kind: body.kind,
+    ...(unitNumber !== undefined ? { unitNumber } : {}),
+    ...(unitNumbers?.length ? { unitNumbers } : {})
+  };
+  try {
+    // Every unit the assessment covers must be open to the learner
+    const plan = await readCoursePlan(userId, params.courseId);
+    if (plan) {
+      await assertUnitUnlocked(
+        userId,
+        params.courseId,
+        coveredUnits(assessmentRequest, plan.units)
+      );
+    }
+    const assessment = await generateAssessment(userId, params.courseId, assessmentRequest);
+    return NextResponse.json({ assessment: publicAssessment(assessment) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected assessment agent error.";
+    const status = error instanceof UnitLockedError ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateUnitLesson, getUnitLesson, regenerateLessonSection } from "@/lib/ai/lessonAgent";
+import { assertUnitUnlocked, UnitLockedError } from "@/lib/course/progression";
+import { isCourseId } from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    courseId: string;
+    unitNumber: string;
+  };
+};
+
+// GET ?userId — the unit's lesson, generated on first request and cached after;
+// 403 while a gated course keeps the unit locked
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  const unitNumber = Number(params.unitNumber);
+  if (!userId || !Number.isInteger(unitNumber)) {
+    return NextResponse.json({ error: "userId and a unit number are required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  try {
+    await assertUnitUnlocked(userId, params.courseId, unitNumber);
+    const lesson = await getUnitLesson(userId, params.courseId, unitNumber);
+    return NextResponse.json({ lesson });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected lesson agent error.";
+    const status = error instanceof UnitLockedError ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+// POST { userId, sectionNumber?, instruction? } — regenerates one section of the
+// lesson, following the learner's instruction, or the whole lesson
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+  const unitNumber = Number(params.unitNumber);
+  if (!userId || !Number.isInteger(unitNumber)) {
+    return NextResponse.json({ error: "userId and a unit number are required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  const sectionNumber = body?.sectionNumber;
+  const instruction = typeof body?.instruction === "string" ? body.instruction.trim() : "";
+  if (sectionNumber !== undefined && !Number.isInteger(sectionNumber)) {
+    return NextResponse.json({ error: "sectionNumber must be a number." }, { status: 400 });
+  }
+
+  try {
+    await assertUnitUnlocked(userId, params.courseId, unitNumber);
+    const lesson =
+      typeof sectionNumber === "number"
+        ? await regenerateLessonSection(
+            userId,
+            params.courseId,
+            unitNumber,
+            sectionNumber,
+            instruction || undefined
+          )
+        : await generateUnitLesson(userId, params.courseId, unitNumber);
+    return NextResponse.json({ lesson });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected lesson agent error.";
+    const status = error instanceof UnitLockedError ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
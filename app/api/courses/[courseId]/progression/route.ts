@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { syncProgression } from "@/lib/course/progression";
+import { isCourseId, readCoursePlan } from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    courseId: string;
+  };
+};
+
+// GET ?userId — which units are locked, open or passed, recording any unit
+// that has just been unlocked
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  if (!(await readCoursePlan(userId, params.courseId))) {
+    return NextResponse.json({ error: "The course has no plan yet." }, { status: 404 });
+  }
+  return NextResponse.json({ progression: await syncProgression(userId, params.courseId) });
+}
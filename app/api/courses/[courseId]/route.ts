@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assertUnitUnlocked, UnitLockedError } from "@/lib/course/progression";
+import { isIngestionJobRunning } from "@/lib/pdf/ingestBook";
+import {
+  deleteCourse,
+  deleteCourseDraft,
+  isCourseId,
+  isCourseStatus,
+  isUnlockMode,
+  readCourseDraft,
+  readCourseIngestionJob,
+  readCourseMaterials,
+  readCoursePlan,
+  readCourseSummary,
+  updateCourseRecord,
+  type CourseRecord
+} from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    courseId: string;
+  };
+};
+
+// GET ?userId — the course with its plan and materials
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  const course = await readCourseSummary(userId, params.courseId);
+  if (!course) {
+    return NextResponse.json({ error: "Course not found." }, { status: 404 });
+  }
+
+  const [plan, materials] = await Promise.all([
+    readCoursePlan(userId, params.courseId),
+    readCourseMaterials(userId, params.courseId)
+  ]);
+  return NextResponse.json({
+    course,
+    plan,
+    materials: materials.map(({ storagePath, ...material }) => material)
+  });
+}
+
+// PATCH { userId, status?, unlockMode?, completedUnits?, studied? } — archive,
+// complete or reopen the course, gate or open its units, record finished units,
+// or mark it as studied now
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  const course = await readCourseSummary(userId, params.courseId);
+  if (!course) {
+    return NextResponse.json({ error: "Course not found." }, { status: 404 });
+  }
+
+  const update: Partial<
+    Pick<CourseRecord, "status" | "unlockMode" | "completedUnits" | "lastStudiedAt">
+  > = {};
+  if (body?.status !== undefined) {
+    if (!isCourseStatus(body.status)) {
+      return NextResponse.json(
+        { error: "status must be one of draft, active, completed or archived." },
+        { status: 400 }
+      );
+    }
+    update.status = body.status;
+  }
+  if (body?.unlockMode !== undefined) {
+    if (!isUnlockMode(body.unlockMode)) {
+      return NextResponse.json({ error: "unlockMode must be gated or ungated." }, { status: 400 });
+    }
+    update.unlockMode = body.unlockMode;
+  }
+  if (body?.completedUnits !== undefined) {
+    const units = body.completedUnits;
+    if (!Array.isArray(units) || !units.every((unit) => Number.isInteger(unit))) {
+      return NextResponse.json(
+        { error: "completedUnits must be a list of unit numbers." },
+        { status: 400 }
+      );
+    }
+    update.completedUnits = Array.from(new Set(units as number[])).sort((a, b) => a - b);
+
+    // A locked unit cannot be finished unless this same request opens the course
+    const finished = update.completedUnits.filter(
+      (unitNumber) => !course.completedUnits.includes(unitNumber)
+    );
+    if (finished.length && update.unlockMode !== "ungated") {
+      try {
+        await assertUnitUnlocked(userId, params.courseId, finished);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unexpected progression error.";
+        const status = error instanceof UnitLockedError ? 403 : 500;
+        return NextResponse.json({ error: message }, { status });
+      }
+    }
+  }
+  if (body?.studied === true) {
+    update.lastStudiedAt = new Date().toISOString();
+  }
+
+  await updateCourseRecord(userId, params.courseId, update);
+  return NextResponse.json({ course: await readCourseSummary(userId, params.courseId) });
+}
+
+// DELETE ?userId — removes the course, its analyses and uploaded files
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+  if (!isCourseId(params.courseId)) {
+    return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+  }
+
+  if (!(await readCourseSummary(userId, params.courseId))) {
+    return NextResponse.json({ error: "Course not found." }, { status: 404 });
+  }
+
+  // A running ingestion job would write the course folder again
+  const job = await readCourseIngestionJob(userId, params.courseId);
+  if (job && isIngestionJobRunning(job.jobId)) {
+    return NextResponse.json(
+      { error: "The course's materials are still being read; try again when they are done." },
+      { status: 409 }
+    );
+  }
+
+  if (!(await deleteCourse(userId, params.courseId))) {
+    return NextResponse.json({ error: "The course could not be deleted." }, { status: 500 });
+  }
+
+  // A builder draft of the deleted course would point at files that are gone
+  const draft = await readCourseDraft(userId);
+  if (draft?.courseId === params.courseId) await deleteCourseDraft(userId);
+
+  return NextResponse.json({ deleted: params.courseId });
+}
@@ -7,20 +7,29 @@ import {
   editCoursePlan,
   type ConversationMessage
 } from "@/lib/ai/courseCreationAgent";
+import { loadPrerequisiteGraph, withPrerequisiteUnits } from "@/lib/course/prerequisites";
+import { applyReadingTimes, readReaderProfile } from "@/lib/course/readingTime";
 import type { BookAnalysis } from "@/lib/pdf/analyzeBook";
 import type { CoursePlan } from "@/lib/state/courseFiles";
-import { readExtractedText } from "@/lib/state/courseFiles";
+import {
+  isCourseId,
+  isDocumentId,
+  readCourseDocuments,
+  readExtractedText
+} from "@/lib/state/courseFiles";
 
 type AgentRequestBody = {
   mode?: "next" | "generate-plan" | "finalize" | "edit-plan";
   stream?: boolean;
   userId?: string;
   messages?: ConversationMessage[];
-  bookAnalysis?: BookAnalysis | null;
+  documents?: BookAnalysis[];
   courseId?: string;
   coursePlan?: CoursePlan;
   currentPlan?: CoursePlan;
   editInstruction?: string;
+  documentId?: string;
+  includeSpans?: number[];
 };
 
 function isValidMessage(value: unknown): value is ConversationMessage {
@@ -33,6 +42,11 @@ function isValidMessage(value: unknown): value is ConversationMessage {
   );
 }
 
+// Unit minutes and plan hours are recomputed from the analyses, whatever the model wrote
+async function withReadingTimes(plan: CoursePlan, documents: BookAnalysis[], userId: string) {
+  return applyReadingTimes(plan, documents, await readReaderProfile(userId));
+}
+
 function chunkMessageForStream(message: string) {
   const tokens = message.match(/\S+\s*/g) ?? [];
   return tokens.length ? tokens : [message];
@@ -122,59 +136,83 @@ export async function POST(request: NextRequest) {
     const stream = body.stream === true;
     const userId = typeof body.userId === "string" ? body.userId.trim() : "";
     const messages = Array.isArray(body.messages) ? body.messages.filter(isValidMessage) : [];
-    const bookAnalysis = body.bookAnalysis ?? null;
+    const documents = Array.isArray(body.documents) ? body.documents : [];
+    const courseId = typeof body.courseId === "string" ? body.courseId.trim() : "";
 
     if (!userId) {
       return NextResponse.json({ error: "userId is required." }, { status: 400 });
     }
+    if (courseId && !isCourseId(courseId)) {
+      return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+    }
 
     // Mode: edit-plan
     if (mode === "edit-plan") {
       const currentPlan = body.currentPlan;
       const editInstruction = typeof body.editInstruction === "string" ? body.editInstruction.trim() : "";
-      const courseId = typeof body.courseId === "string" ? body.courseId.trim() : "";
+      const documentId = typeof body.documentId === "string" ? body.documentId.trim() : "";
 
-      if (!currentPlan || !editInstruction || !bookAnalysis) {
+      if (!currentPlan || !editInstruction || !documents.length) {
         return NextResponse.json(
-          { error: "currentPlan, editInstruction, and bookAnalysis are required for edit-plan." },
+          { error: "currentPlan, editInstruction, and documents are required for edit-plan." },
           { status: 400 }
         );
       }
+      if (documentId && !isDocumentId(documentId)) {
+        return NextResponse.json({ error: "documentId is invalid." }, { status: 400 });
+      }
 
-      const extractedPages = courseId ? await readExtractedText(userId, courseId) : null;
+      const extractedPages = courseId
+        ? await readExtractedText(userId, courseId, documentId || undefined)
+        : null;
+      const includeSpans = Array.isArray(body.includeSpans)
+        ? body.includeSpans.filter((i): i is number => Number.isInteger(i) && i >= 0)
+        : [];
 
       const result = await editCoursePlan({
         currentPlan,
         userInstruction: editInstruction,
-        bookAnalysis,
+        documents,
         messages,
         userId,
-        extractedPages
+        documentId: documentId || undefined,
+        extractedPages,
+        includeSpans
       });
 
+      const updated = result.updatedDocument;
+      const updatedDocuments = updated
+        ? documents.map((doc) => (doc.documentId === updated.documentId ? updated : doc))
+        : documents;
+
       return NextResponse.json({
         mode,
-        plan: result.updatedPlan,
-        bookAnalysis: result.updatedBookAnalysis ?? null,
+        plan: await withReadingTimes(result.updatedPlan, updatedDocuments, userId),
+        document: result.updatedDocument ?? null,
         explanation: result.explanation
       });
     }
 
     // Mode: generate-plan
     if (mode === "generate-plan") {
-      if (!bookAnalysis) {
+      // A saved course plans from its stored analyses rather than the client's copies
+      const analyses = courseId ? await readCourseDocuments(userId, courseId) : documents;
+      if (!analyses.length) {
         return NextResponse.json(
-          { error: "bookAnalysis is required for plan generation." },
+          { error: "documents are required for plan generation." },
           { status: 400 }
         );
       }
-      const plan = await generateCoursePlan(messages, bookAnalysis, userId);
-      return NextResponse.json({ mode, plan });
+      const graph = courseId ? await loadPrerequisiteGraph(userId, courseId, analyses) : undefined;
+      const plan = await generateCoursePlan(messages, analyses, userId, graph);
+      return NextResponse.json({
+        mode,
+        plan: await withReadingTimes(plan, analyses, userId)
+      });
     }
 
     // Mode: finalize
     if (mode === "finalize") {
-      const courseId = typeof body.courseId === "string" ? body.courseId.trim() : "";
       const coursePlan = body.coursePlan;
       if (!courseId || !coursePlan) {
         return NextResponse.json(
@@ -182,18 +220,28 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
-      const result = await finalizeCoursePlan(userId, courseId, coursePlan);
+      // Each unit records the unit it builds on, as prerequisite_unit_id does
+      const analyses = await readCourseDocuments(userId, courseId);
+      const graph = analyses.length
+        ? await loadPrerequisiteGraph(userId, courseId, analyses)
+        : null;
+      const ordered = graph ? withPrerequisiteUnits(coursePlan, analyses, graph) : coursePlan;
+      const result = await finalizeCoursePlan(
+        userId,
+        courseId,
+        await withReadingTimes(ordered, analyses, userId)
+      );
       return NextResponse.json({ mode, ...result });
     }
 
     // Mode: next
     if (mode === "next" && stream) {
       return streamNextResponse(
-        generateNextCourseQuestion(messages, bookAnalysis, userId)
+        generateNextCourseQuestion(messages, documents, userId)
       );
     }
 
-    const next = await generateNextCourseQuestion(messages, bookAnalysis, userId);
+    const next = await generateNextCourseQuestion(messages, documents, userId);
     return NextResponse.json({
       mode,
       assistantMessage: next.question,
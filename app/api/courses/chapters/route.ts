@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyChapterEdits, type ChapterEdit } from "@/lib/pdf/analyzeBook";
+import { buildConceptIndex } from "@/lib/pdf/conceptIndex";
+import {
+  isCourseId,
+  isDocumentId,
+  readBookAnalysis,
+  readDocumentAssets,
+  readExtractedText,
+  saveBookAnalysis,
+  saveConceptIndex
+} from "@/lib/state/courseFiles";
+
+export const maxDuration = 300; // changed chapters are analyzed again
+
+const PREVIEW_LINES = 3;
+const PREVIEW_CHARS = 240;
+
+type ChaptersRequestBody = {
+  userId?: string;
+  courseId?: string;
+  documentId?: string;
+  chapters?: ChapterEdit[];
+};
+
+function pagePreview(text: string) {
+  return text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, PREVIEW_LINES)
+    .join("\n")
+    .slice(0, PREVIEW_CHARS);
+}
+
+// Returns an error message, or null when the edits describe a usable chapter list
+function checkEdits(edits: ChapterEdit[], totalPages: number): string | null {
+  if (!edits.length) return "At least one chapter is required.";
+
+  for (const edit of edits) {
+    if (typeof edit.title !== "string" || !edit.title.trim()) {
+      return "Every chapter needs a title.";
+    }
+    if (!Number.isInteger(edit.startPage) || !Number.isInteger(edit.endPage)) {
+      return `"${edit.title}" needs whole page numbers.`;
+    }
+    if (edit.startPage < 0 || edit.endPage >= totalPages) {
+      return `"${edit.title}" is outside pages 1-${totalPages}.`;
+    }
+    if (edit.endPage < edit.startPage) {
+      return `"${edit.title}" ends before it starts.`;
+    }
+  }
+
+  const sorted = [...edits].sort((a, b) => a.startPage - b.startPage);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startPage <= sorted[i - 1].endPage) {
+      return `"${sorted[i - 1].title}" overlaps "${sorted[i].title}".`;
+    }
+  }
+
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  const courseId = request.nextUrl.searchParams.get("courseId")?.trim() ?? "";
+  const documentId = request.nextUrl.searchParams.get("documentId")?.trim() || undefined;
+
+  if (!userId || !courseId) {
+    return NextResponse.json({ error: "userId and courseId are required." }, { status: 400 });
+  }
+  if (!isCourseId(courseId) || (documentId && !isDocumentId(documentId))) {
+    return NextResponse.json({ error: "courseId or documentId is invalid." }, { status: 400 });
+  }
+
+  const [bookAnalysis, pages] = await Promise.all([
+    readBookAnalysis(userId, courseId, documentId),
+    readExtractedText(userId, courseId, documentId)
+  ]);
+
+  if (!bookAnalysis || !pages) {
+    return NextResponse.json({ error: "Course document not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ bookAnalysis, previews: pages.map(pagePreview) });
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => null)) as ChaptersRequestBody | null;
+    const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+    const courseId = typeof body?.courseId === "string" ? body.courseId.trim() : "";
+    const documentId =
+      typeof body?.documentId === "string" ? body.documentId.trim() || undefined : undefined;
+
+    if (!userId || !courseId || !Array.isArray(body?.chapters)) {
+      return NextResponse.json(
+        { error: "userId, courseId, and chapters are required." },
+        { status: 400 }
+      );
+    }
+    if (!isCourseId(courseId) || (documentId && !isDocumentId(documentId))) {
+      return NextResponse.json({ error: "courseId or documentId is invalid." }, { status: 400 });
+    }
+
+    const [bookAnalysis, pages] = await Promise.all([
+      readBookAnalysis(userId, courseId, documentId),
+      readExtractedText(userId, courseId, documentId)
+    ]);
+
+    if (!bookAnalysis || !pages) {
+      return NextResponse.json({ error: "Course document not found." }, { status: 404 });
+    }
+
+    const edits = body.chapters.map((edit) => ({
+      title: typeof edit.title === "string" ? edit.title.trim() : "",
+      startPage: edit.startPage,
+      endPage: edit.endPage,
+      ...(Number.isInteger(edit.sourceChapterNumber)
+        ? { sourceChapterNumber: edit.sourceChapterNumber }
+        : {})
+    }));
+
+    const problem = checkEdits(edits, pages.length);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const assets = (await readDocumentAssets(userId, courseId, documentId)) ?? [];
+    const result = await applyChapterEdits(bookAnalysis, edits, pages, assets);
+    await saveBookAnalysis(userId, courseId, result.analysis);
+    await saveConceptIndex(userId, courseId, buildConceptIndex(result.analysis, pages));
+
+    return NextResponse.json({ bookAnalysis: result.analysis, reanalyzed: result.reanalyzed });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Could not save chapters.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
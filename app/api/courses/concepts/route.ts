@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildConceptIndex, conceptCitation, findConcepts } from "@/lib/pdf/conceptIndex";
+import {
+  isCourseId,
+  isDocumentId,
+  readBookAnalysis,
+  readConceptIndex,
+  readExtractedText,
+  saveConceptIndex
+} from "@/lib/state/courseFiles";
+
+// GET ?userId&courseId[&documentId][&q] — the document's concept index, or the
+// concepts matching q with a citation for where each is introduced
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  const courseId = request.nextUrl.searchParams.get("courseId")?.trim() ?? "";
+  const documentId = request.nextUrl.searchParams.get("documentId")?.trim() || undefined;
+  const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+
+  if (!userId || !courseId) {
+    return NextResponse.json({ error: "userId and courseId are required." }, { status: 400 });
+  }
+  if (!isCourseId(courseId) || (documentId && !isDocumentId(documentId))) {
+    return NextResponse.json({ error: "courseId or documentId is invalid." }, { status: 400 });
+  }
+
+  let index = await readConceptIndex(userId, courseId, documentId);
+
+  // Documents analyzed before the index existed get one built on first request
+  if (!index) {
+    const [bookAnalysis, pages] = await Promise.all([
+      readBookAnalysis(userId, courseId, documentId),
+      readExtractedText(userId, courseId, documentId)
+    ]);
+    if (!bookAnalysis || !pages) {
+      return NextResponse.json({ error: "Course document not found." }, { status: 404 });
+    }
+    index = buildConceptIndex(bookAnalysis, pages);
+    await saveConceptIndex(userId, courseId, index);
+  }
+
+  if (!query) {
+    return NextResponse.json({ index });
+  }
+
+  const concepts = findConcepts(index, query).map((concept) => ({
+    ...concept,
+    citation: conceptCitation(concept)
+  }));
+  return NextResponse.json({ query, concepts });
+}
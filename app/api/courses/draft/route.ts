@@ -19,8 +19,9 @@ export async function POST(req: NextRequest) {
   const body = await req.json();
   await saveCourseDraft(USER_ID, {
     messages: body.messages ?? [],
-    bookAnalysis: body.bookAnalysis ?? null,
+    documents: Array.isArray(body.documents) ? body.documents : [],
     courseId: body.courseId ?? null,
+    ingestionJobId: body.ingestionJobId ?? null,
     coursePlan: body.coursePlan ?? null,
     editablePlan: body.editablePlan ?? null,
     knownGaps: body.knownGaps ?? [],
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resumeIngestionJob } from "@/lib/pdf/ingestBook";
+import {
+  isIngestionFinished,
+  readCourseDocuments,
+  readIngestionJob,
+  summarizeIngestionJob
+} from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    jobId: string;
+  };
+};
+
+// The job file is the source of truth, so progress keeps flowing across
+// restarts and to any number of listeners
+const POLL_INTERVAL_MS = 1000;
+
+function toSseEvent(event: string, payload: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+
+  const initial = await readIngestionJob(userId, params.jobId);
+  if (!initial) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  resumeIngestionJob(initial);
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, payload: unknown) => {
+        controller.enqueue(encoder.encode(toSseEvent(event, payload)));
+      };
+
+      let lastUpdate = "";
+      const sentChapters = new Set<string>();
+
+      const poll = async () => {
+        if (cancelled) return;
+        const job = await readIngestionJob(userId, params.jobId);
+        if (cancelled) return;
+
+        if (!job) {
+          send("error", { message: "Job not found." });
+          controller.close();
+          return;
+        }
+
+        if (job.updatedAt !== lastUpdate) {
+          lastUpdate = job.updatedAt;
+          send("progress", summarizeIngestionJob(job));
+
+          // Chapters are sent once each as they finish; a reconnecting client
+          // gets everything analyzed so far
+          for (const doc of job.documents) {
+            for (const chapter of doc.chapters) {
+              const key = `${doc.documentId}:${chapter.chapterNumber}`;
+              if (sentChapters.has(key)) continue;
+              sentChapters.add(key);
+              send("chapter", {
+                documentId: doc.documentId,
+                chapter,
+                done: doc.chapters.length,
+                total: doc.chapterCount
+              });
+            }
+          }
+        }
+
+        if (job.status === "failed") {
+          send("error", {
+            message: job.error ?? "Ingestion failed.",
+            job: summarizeIngestionJob(job)
+          });
+          controller.close();
+          return;
+        }
+
+        if (isIngestionFinished(job)) {
+          const documents = await readCourseDocuments(userId, job.courseId);
+          send("done", { job: summarizeIngestionJob(job), documents });
+          controller.close();
+          return;
+        }
+
+        timer = setTimeout(() => {
+          poll().catch(handleError);
+        }, POLL_INTERVAL_MS);
+      };
+
+      const handleError = (error: unknown) => {
+        if (cancelled) return;
+        const message = error instanceof Error ? error.message : "Unexpected job stream error.";
+        send("error", { message });
+        controller.close();
+      };
+
+      poll().catch(handleError);
+    },
+    cancel() {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resumeIngestionJob, retryIngestionJob } from "@/lib/pdf/ingestBook";
+import { readIngestionJob, summarizeIngestionJob } from "@/lib/state/courseFiles";
+
+type RouteParams = {
+  params: {
+    jobId: string;
+  };
+};
+
+// Reading a job also resumes it when it was interrupted by a server restart
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+
+  const job = await readIngestionJob(userId, params.jobId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  const resumed = resumeIngestionJob(job);
+  return NextResponse.json({ job: summarizeIngestionJob(job), resumed });
+}
+
+// Retries a failed job from the document that failed
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const body = (await request.json().catch(() => null)) as { userId?: unknown } | null;
+  const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+
+  const job = await readIngestionJob(userId, params.jobId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (job.status !== "failed") {
+    return NextResponse.json({ error: "Only failed jobs can be retried." }, { status: 409 });
+  }
+
+  await retryIngestionJob(job);
+  const retried = await readIngestionJob(userId, params.jobId);
+  return NextResponse.json({ job: summarizeIngestionJob(retried ?? job) });
+}
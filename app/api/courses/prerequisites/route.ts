@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkPlanOrder,
+  loadPrerequisiteGraph,
+  type PlanOutline
+} from "@/lib/course/prerequisites";
+import { isCourseId, readCourseDocuments } from "@/lib/state/courseFiles";
+
+type PrerequisitesRequestBody = {
+  userId?: string;
+  courseId?: string;
+  units?: unknown[];
+};
+
+type OutlineUnit = PlanOutline["units"][number];
+
+// Keeps only what ordering reads: the unit number and the chapters it covers
+function toOutlineUnit(value: unknown): OutlineUnit | null {
+  if (!value || typeof value !== "object") return null;
+  const input = value as Record<string, unknown>;
+  if (!Number.isInteger(input.unitNumber) || !Array.isArray(input.sourceChapters)) return null;
+  const sourceChapters = input.sourceChapters.filter(
+    (ref): ref is OutlineUnit["sourceChapters"][number] =>
+      Boolean(ref) && Number.isInteger((ref as Record<string, unknown>).chapterNumber)
+  );
+  return { unitNumber: input.unitNumber as number, sourceChapters };
+}
+
+// POST { userId, courseId, units } — checks that no unit of the plan comes before a
+// unit it builds on, and suggests an order in which none does. The chapters are read
+// from the course's own analyses; the client sends only the plan outline
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => null)) as PrerequisitesRequestBody | null;
+    const userId = typeof body?.userId === "string" ? body.userId.trim() : "";
+    const courseId = typeof body?.courseId === "string" ? body.courseId.trim() : "";
+    const units = Array.isArray(body?.units)
+      ? body.units.map(toOutlineUnit).filter((unit): unit is OutlineUnit => unit !== null)
+      : [];
+
+    if (!userId || !courseId || !units.length) {
+      return NextResponse.json(
+        { error: "userId, courseId, and units are required." },
+        { status: 400 }
+      );
+    }
+    if (!isCourseId(courseId)) {
+      return NextResponse.json({ error: "courseId is invalid." }, { status: 400 });
+    }
+
+    const documents = await readCourseDocuments(userId, courseId);
+    if (!documents.length) {
+      return NextResponse.json({ error: "Course documents not found." }, { status: 404 });
+    }
+
+    const graph = await loadPrerequisiteGraph(userId, courseId, documents);
+    const report = checkPlanOrder({ units }, documents, graph);
+
+    return NextResponse.json({ ...report, chapterCycles: graph.cycles });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Could not check the plan order.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listCourses } from "@/lib/state/courseFiles";
+
+// GET ?userId[&status] — the learner's courses, most recently studied first
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get("userId")?.trim() ?? "";
+  const status = request.nextUrl.searchParams.get("status")?.trim() ?? "";
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required." }, { status: 400 });
+  }
+
+  const courses = await listCourses(userId);
+  return NextResponse.json({
+    courses: status ? courses.filter((course) => course.status === status) : courses
+  });
+}
@@ -1,13 +1,17 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { extractPdfText } from "@/lib/pdf/extractText";
-import { analyzeBook } from "@/lib/pdf/analyzeBook";
+import { bookFormat, startIngestionJob } from "@/lib/pdf/ingestBook";
 import {
   savePdfUpload,
-  saveExtractedText,
-  saveBookAnalysis
+  saveCourseMaterials,
+  saveIngestionJob,
+  summarizeIngestionJob,
+  type CourseMaterial,
+  type IngestionDocument,
+  type IngestionJob
 } from "@/lib/state/courseFiles";
 
-export const maxDuration = 300; // 5 minutes for large books
+export const maxDuration = 300; // the ingestion job started here keeps running after the response
 
 const MAX_FILE_SIZE = 64 * 1024 * 1024; // 64 MB
 const MAX_FILES = 5;
@@ -23,7 +27,10 @@ export async function POST(request: NextRequest) {
 
     const files = formData.getAll("files");
     if (!files.length) {
-      return NextResponse.json({ error: "At least one PDF file is required." }, { status: 400 });
+      return NextResponse.json(
+        { error: "At least one PDF, EPUB, Markdown, HTML or text file is required." },
+        { status: 400 }
+      );
     }
 
     if (files.length > MAX_FILES) {
@@ -33,20 +40,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const courseId = `course_${Date.now()}`;
-    const uploadedFiles: Array<{ originalFilename: string; sizeBytes: number; totalPages: number }> =
-      [];
-
-    // For MVP we process the first PDF only (multi-file is a follow-up)
-    let combinedPages: string[] = [];
-    let primaryBuffer: Buffer | null = null;
+    const courseId = `course_${randomUUID()}`;
+    const jobId = `job_${randomUUID()}`;
+    const createdAt = new Date().toISOString();
+    const materials: CourseMaterial[] = [];
+    const jobDocuments: IngestionDocument[] = [];
 
+    // Files are only validated and stored here; extraction and analysis run
+    // in the ingestion job, one document per file
     for (const file of files) {
       if (!(file instanceof File)) continue;
 
-      if (!file.name.toLowerCase().endsWith(".pdf")) {
+      const format = bookFormat(file.name);
+      if (!format) {
         return NextResponse.json(
-          { error: `"${file.name}" is not a PDF file.` },
+          { error: `"${file.name}" is not a PDF, EPUB, Markdown, HTML or text file.` },
           { status: 400 }
         );
       }
@@ -60,44 +68,56 @@ export async function POST(request: NextRequest) {
 
       const arrayBuffer = await file.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
+      const documentId = `doc_${materials.length + 1}`;
 
-      // Save the raw PDF
-      await savePdfUpload(userId.trim(), file.name, buffer);
+      // Save the raw file
+      const saved = await savePdfUpload(userId.trim(), file.name, buffer);
 
-      // Extract text
-      const extraction = await extractPdfText(buffer);
-
-      uploadedFiles.push({
+      materials.push({
+        id: documentId,
+        courseId,
+        materialType: format,
+        originalFilename: file.name,
+        storagePath: saved.storagePath,
+        metadata: { sizeBytes: file.size },
+        createdAt
+      });
+      jobDocuments.push({
+        documentId,
         originalFilename: file.name,
+        storagePath: saved.storagePath,
         sizeBytes: file.size,
-        totalPages: extraction.totalPages
+        status: "queued",
+        chapters: []
       });
-
-      if (!primaryBuffer) {
-        primaryBuffer = buffer;
-        combinedPages = extraction.pages;
-      } else {
-        combinedPages = combinedPages.concat(extraction.pages);
-      }
     }
 
-    if (!primaryBuffer || !combinedPages.length) {
-      return NextResponse.json({ error: "No readable PDF content found." }, { status: 400 });
+    if (!jobDocuments.length) {
+      return NextResponse.json(
+        { error: "At least one PDF, EPUB, Markdown, HTML or text file is required." },
+        { status: 400 }
+      );
     }
 
-    // Save extracted text
-    await saveExtractedText(userId.trim(), courseId, combinedPages);
-
-    // Analyze book (structure detection + chapter analysis)
-    const bookAnalysis = await analyzeBook(primaryBuffer, combinedPages);
+    const job: IngestionJob = {
+      jobId,
+      userId: userId.trim(),
+      courseId,
+      status: "queued",
+      currentDocument: 0,
+      documents: jobDocuments,
+      createdAt,
+      updatedAt: createdAt
+    };
 
-    // Save analysis
-    await saveBookAnalysis(userId.trim(), courseId, bookAnalysis);
+    await saveCourseMaterials(userId.trim(), courseId, materials);
+    await saveIngestionJob(job);
+    startIngestionJob(job.userId, jobId);
 
     return NextResponse.json({
       courseId,
-      uploadedFiles,
-      bookAnalysis
+      jobId,
+      job: summarizeIngestionJob(job)
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unexpected upload error.";
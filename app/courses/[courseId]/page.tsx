@@ -0,0 +1,240 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CourseProgression, UnitProgress } from "@/lib/course/progression";
+import type { CoursePlan, CourseStatus, CourseSummary, UnlockMode } from "@/lib/state/courseFiles";
+
+const USER_ID = "local-learner";
+
+type CourseResponse = {
+  course: CourseSummary;
+  plan: CoursePlan | null;
+};
+
+type LoadState = "loading" | "idle" | "error";
+
+async function fetchProgression(courseEndpoint: string) {
+  const query = new URLSearchParams({ userId: USER_ID });
+  const response = await fetch(`${courseEndpoint}/progression?${query}`);
+  if (!response.ok) return null;
+  const data = (await response.json()) as { progression: CourseProgression };
+  return data.progression;
+}
+
+function unitProgressNote(progress: UnitProgress) {
+  if (progress.status === "locked") {
+    return `Pass unit ${progress.waitingOn.join(" and unit ")} first`;
+  }
+  const passed = progress.status === "passed" ? "Passed" : "";
+  const gate = progress.gate;
+  if (!gate) return passed;
+  const best = gate.bestScore !== undefined ? `best ${Math.round(gate.bestScore * 100)}%, ` : "";
+  const score = `${gate.title} (${best}${Math.round(gate.unlockThreshold * 100)}% to pass)`;
+  return passed ? `${passed} · ${score}` : score;
+}
+
+export default function CoursePage({ params }: { params: { courseId: string } }) {
+  const courseId = decodeURIComponent(params.courseId);
+  const [course, setCourse] = useState<CourseSummary | null>(null);
+  const [plan, setPlan] = useState<CoursePlan | null>(null);
+  const [progression, setProgression] = useState<CourseProgression | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>("loading");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const endpoint = `/api/courses/${encodeURIComponent(courseId)}`;
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadCourse() {
+      const query = new URLSearchParams({ userId: USER_ID });
+      const response = await fetch(`${endpoint}?${query}`);
+      if (isCancelled) return;
+      if (!response.ok) {
+        setLoadState("error");
+        setError(response.status === 404 ? "Course not found." : "Failed to load the course.");
+        return;
+      }
+      const data = (await response.json()) as CourseResponse;
+      setCourse(data.course);
+      setPlan(data.plan);
+      setLoadState("idle");
+      if (data.plan) {
+        const loaded = await fetchProgression(endpoint);
+        if (!isCancelled) setProgression(loaded);
+      }
+
+      // Opening a course counts as studying it
+      await fetch(endpoint, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ userId: USER_ID, studied: true })
+      });
+    }
+
+    loadCourse();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [endpoint]);
+
+  async function updateCourse(update: {
+    status?: CourseStatus;
+    unlockMode?: UnlockMode;
+    completedUnits?: number[];
+  }) {
+    setSaving(true);
+    setError("");
+    const response = await fetch(endpoint, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ userId: USER_ID, studied: true, ...update })
+    });
+    setSaving(false);
+
+    if (!response.ok) {
+      setError("Could not save your changes.");
+      return;
+    }
+    const data = (await response.json()) as { course: CourseSummary };
+    setCourse(data.course);
+    // Finished units and the unlock mode decide which units are open
+    if (plan) setProgression(await fetchProgression(endpoint));
+  }
+
+  function toggleUnit(unitNumber: number, done: boolean) {
+    if (!course) return;
+    const completedUnits = done
+      ? [...course.completedUnits, unitNumber]
+      : course.completedUnits.filter((number) => number !== unitNumber);
+    updateCourse({ completedUnits });
+  }
+
+  return (
+    <main className="page">
+      <section className="hero">
+        <p className="eyebrow">Course</p>
+        <h1>{course?.title ?? (loadState === "loading" ? "Loading course..." : "Course")}</h1>
+        {course?.description ? <p>{course.description}</p> : null}
+        {course?.books.length ? (
+          <p className="courseCardMeta">From {course.books.join(" · ")}</p>
+        ) : null}
+        {course?.unitCount ? (
+          <div className="courseProgress">
+            <progress value={course.progress} max={1} />
+            <span>{Math.round(course.progress * 100)}% complete</span>
+          </div>
+        ) : null}
+        {progression ? (
+          <label className="unitCompleteToggle">
+            <input
+              type="checkbox"
+              checked={progression.unlockMode === "ungated"}
+              disabled={saving}
+              onChange={(event) =>
+                updateCourse({ unlockMode: event.target.checked ? "ungated" : "gated" })
+              }
+            />
+            Open every unit without passing the ones before it
+          </label>
+        ) : null}
+        <div className="buttonRow">
+          <Link href="/courses" className="ghostLink">
+            Back to library
+          </Link>
+          {course && course.status !== "completed" && course.status !== "draft" ? (
+            <button
+              type="button"
+              className="btnSecondary"
+              disabled={saving}
+              onClick={() => updateCourse({ status: "completed" })}
+            >
+              Mark course completed
+            </button>
+          ) : null}
+          {course?.status === "archived" || course?.status === "completed" ? (
+            <button
+              type="button"
+              className="btnSecondary"
+              disabled={saving}
+              onClick={() => updateCourse({ status: "active" })}
+            >
+              {course.status === "archived" ? "Restore course" : "Resume course"}
+            </button>
+          ) : null}
+        </div>
+      </section>
+
+      {error ? <div className="errorBox">{error}</div> : null}
+
+      {course && !plan ? (
+        <section className="formCard">
+          <p>This course has no plan yet.</p>
+          <Link href="/courses/new" className="ctaLink">
+            Continue building
+          </Link>
+        </section>
+      ) : null}
+
+      {course && plan ? (
+        <section className="planCard">
+          {plan.units.map((unit) => {
+            const progress = progression?.units.find((u) => u.unitNumber === unit.unitNumber);
+            const locked = progress?.status === "locked";
+            const note = progress ? unitProgressNote(progress) : "";
+            return (
+              <article key={unit.unitNumber} className={`unitCard${locked ? " locked" : ""}`}>
+                <div className="unitCardHeader">
+                  <span className="badge">Unit {unit.unitNumber}</span>
+                  <strong>{unit.title}</strong>
+                  {locked ? <span className="badge">Locked</span> : null}
+                  <span className="badge">{unit.estimatedMinutes} min</span>
+                </div>
+                <p>{unit.summary}</p>
+                {unit.objectives.length ? (
+                  <div className="objectivesList">
+                    <p>Objectives</p>
+                    <ul>
+                      {unit.objectives.map((objective) => (
+                        <li key={objective}>{objective}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+                {note ? <p className="courseCardMeta">{note}</p> : null}
+                {!locked ? (
+                  <div className="buttonRow">
+                    <Link
+                      href={`/courses/${encodeURIComponent(courseId)}/units/${unit.unitNumber}`}
+                      className="ctaLink"
+                    >
+                      Open lesson
+                    </Link>
+                  </div>
+                ) : null}
+                {!locked ? (
+                  <label className="unitCompleteToggle">
+                    <input
+                      type="checkbox"
+                      checked={course.completedUnits.includes(unit.unitNumber)}
+                      disabled={saving}
+                      onChange={(event) => toggleUnit(unit.unitNumber, event.target.checked)}
+                    />
+                    Completed
+                  </label>
+                ) : null}
+              </article>
+            );
+          })}
+        </section>
+      ) : null}
+    </main>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { LessonSection, UnitLesson } from "@/lib/ai/lessonAgent";
+import type { SourceCitation } from "@/lib/course/unitSources";
+
+const USER_ID = "local-learner";
+
+type LoadState = "loading" | "idle" | "error";
+
+function Citations({ citations }: { citations: SourceCitation[] }) {
+  return (
+    <span className="lessonCitation">
+      ({citations.map((citation) => citation.label).join("; ")})
+    </span>
+  );
+}
+
+function SectionView({ section }: { section: LessonSection }) {
+  return (
+    <>
+      {section.paragraphs.map((paragraph, i) => (
+        <p key={i}>
+          {paragraph.text} <Citations citations={paragraph.citations} />
+        </p>
+      ))}
+      {section.keyTerms.map((keyTerm) => (
+        <aside key={keyTerm.term} className="keyTermCallout">
+          <strong>{keyTerm.term}</strong> — {keyTerm.definition}{" "}
+          <Citations citations={keyTerm.citations} />
+        </aside>
+      ))}
+      {section.workedExamples.map((example, i) => (
+        <div key={i} className="unitCard">
+          <strong>{example.title}</strong>
+          <p>{example.problem}</p>
+          {example.steps.length ? (
+            <ol>
+              {example.steps.map((step, j) => (
+                <li key={j}>{step}</li>
+              ))}
+            </ol>
+          ) : null}
+          {example.solution ? <p>{example.solution}</p> : null}
+          <Citations citations={example.citations} />
+        </div>
+      ))}
+      {section.checks.map((check, i) => (
+        <details key={i} className="lessonCheck">
+          <summary>{check.prompt}</summary>
+          <p>
+            {check.answer} <Citations citations={check.citations} />
+          </p>
+        </details>
+      ))}
+    </>
+  );
+}
+
+export default function UnitLessonPage({
+  params
+}: {
+  params: { courseId: string; unitNumber: string };
+}) {
+  const courseId = decodeURIComponent(params.courseId);
+  const [lesson, setLesson] = useState<UnitLesson | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>("loading");
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [instructions, setInstructions] = useState<Record<number, string>>({});
+  const [error, setError] = useState("");
+
+  const endpoint = `/api/courses/${encodeURIComponent(courseId)}/lessons/${encodeURIComponent(
+    params.unitNumber
+  )}`;
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadLesson() {
+      const response = await fetch(`${endpoint}?${new URLSearchParams({ userId: USER_ID })}`);
+      const data = (await response.json().catch(() => null)) as {
+        lesson?: UnitLesson;
+        error?: string;
+      } | null;
+      if (isCancelled) return;
+      if (!response.ok || !data?.lesson) {
+        setLoadState("error");
+        setError(data?.error ?? "Failed to load the lesson.");
+        return;
+      }
+      setLesson(data.lesson);
+      setLoadState("idle");
+    }
+
+    loadLesson();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [endpoint]);
+
+  async function regenerateSection(sectionNumber: number) {
+    setRegenerating(sectionNumber);
+    setError("");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        userId: USER_ID,
+        sectionNumber,
+        instruction: instructions[sectionNumber] ?? ""
+      })
+    });
+    const data = (await response.json().catch(() => null)) as {
+      lesson?: UnitLesson;
+      error?: string;
+    } | null;
+    setRegenerating(null);
+
+    if (!response.ok || !data?.lesson) {
+      setError(data?.error ?? "Could not regenerate the section.");
+      return;
+    }
+    setLesson(data.lesson);
+    setInstructions((current) => ({ ...current, [sectionNumber]: "" }));
+  }
+
+  return (
+    <main className="page">
+      <section className="hero">
+        <p className="eyebrow">Unit {params.unitNumber}</p>
+        <h1>
+          {lesson?.title ?? (loadState === "loading" ? "Preparing your lesson..." : "Lesson")}
+        </h1>
+        {lesson ? <p>{lesson.introduction}</p> : null}
+        {lesson ? (
+          <p className="courseCardMeta">
+            Sources: {lesson.sources.map((source) => source.label).join("; ")}
+          </p>
+        ) : null}
+        <div className="buttonRow">
+          <Link href={`/courses/${encodeURIComponent(courseId)}`} className="ghostLink">
+            Back to course
+          </Link>
+        </div>
+      </section>
+
+      {error ? <div className="errorBox">{error}</div> : null}
+
+      {loadState === "loading" ? (
+        <section className="planCard">
+          <div className="skeleton skeletonTitle" />
+          <div className="skeleton skeletonDescription" />
+          <div className="skeleton skeletonDescription" />
+        </section>
+      ) : null}
+
+      {lesson?.sections.map((section) => (
+        <section key={section.sectionNumber} className="planCard lessonSection">
+          <h2>{section.title}</h2>
+          <SectionView section={section} />
+          <div className="buttonRow">
+            <input
+              value={instructions[section.sectionNumber] ?? ""}
+              onChange={(event) =>
+                setInstructions((current) => ({
+                  ...current,
+                  [section.sectionNumber]: event.target.value
+                }))
+              }
+              placeholder="How should this section change? (optional)"
+              disabled={regenerating !== null}
+            />
+            <button
+              type="button"
+              className="btnSecondary"
+              disabled={regenerating !== null}
+              onClick={() => regenerateSection(section.sectionNumber)}
+            >
+              {regenerating === section.sectionNumber ? "Rewriting..." : "Rewrite section"}
+            </button>
+          </div>
+        </section>
+      ))}
+    </main>
+  );
+}
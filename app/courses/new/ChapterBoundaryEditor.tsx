@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { BookAnalysis } from "@/lib/pdf/analyzeBook";
+
+type ChapterRow = {
+  key: number;
+  title: string;
+  startPage: number; // 0-based
+  endPage: number; // 0-based, inclusive
+  sourceChapterNumber?: number;
+};
+
+type ChapterBoundaryEditorProps = {
+  userId: string;
+  courseId: string;
+  bookAnalysis: BookAnalysis;
+  onSaved: (analysis: BookAnalysis, reanalyzed: number[]) => void;
+  onClose: () => void;
+};
+
+const chaptersEndpoint = "/api/courses/chapters";
+
+let nextRowKey = 1;
+
+function rowsFromAnalysis(analysis: BookAnalysis): ChapterRow[] {
+  return analysis.chapters.map((ch) => ({
+    key: nextRowKey++,
+    title: ch.title,
+    startPage: ch.startPage,
+    endPage: ch.endPage,
+    sourceChapterNumber: ch.chapterNumber
+  }));
+}
+
+export function ChapterBoundaryEditor({
+  userId,
+  courseId,
+  bookAnalysis,
+  onSaved,
+  onClose
+}: ChapterBoundaryEditorProps) {
+  const [rows, setRows] = useState<ChapterRow[]>(() => rowsFromAnalysis(bookAnalysis));
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const totalPages = bookAnalysis.totalPages;
+  const documentId = bookAnalysis.documentId;
+  const pageLabel = (pageIndex: number) =>
+    bookAnalysis.pageLabels?.[pageIndex] ?? String(pageIndex + 1);
+
+  // Page previews come from the saved extracted text
+  useEffect(() => {
+    const query = new URLSearchParams({ userId, courseId });
+    if (documentId) query.set("documentId", documentId);
+    fetch(`${chaptersEndpoint}?${query.toString()}`)
+      .then((r) => r.json())
+      .then((data: { previews?: string[] }) => setPreviews(data.previews ?? []))
+      .catch(() => {});
+  }, [userId, courseId, documentId]);
+
+  function updateRow(index: number, patch: Partial<ChapterRow>) {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  }
+
+  // Page inputs are 1-based like the viewer; rows store 0-based indices
+  function updatePage(index: number, field: "startPage" | "endPage", value: string) {
+    const page = Number.parseInt(value, 10);
+    if (!Number.isFinite(page)) return;
+    updateRow(index, { [field]: Math.min(Math.max(page, 1), totalPages) - 1 });
+  }
+
+  function splitRow(index: number) {
+    setRows((current) => {
+      const row = current[index];
+      if (row.endPage <= row.startPage) return current;
+      const splitAt = row.startPage + Math.ceil((row.endPage - row.startPage) / 2);
+      return [
+        ...current.slice(0, index),
+        { ...row, endPage: splitAt - 1 },
+        {
+          key: nextRowKey++,
+          title: `${row.title} (continued)`,
+          startPage: splitAt,
+          endPage: row.endPage
+        },
+        ...current.slice(index + 1)
+      ];
+    });
+  }
+
+  function mergeWithNext(index: number) {
+    setRows((current) => {
+      const row = current[index];
+      const next = current[index + 1];
+      if (!next) return current;
+      return [
+        ...current.slice(0, index),
+        { ...row, endPage: Math.max(row.endPage, next.endPage) },
+        ...current.slice(index + 2)
+      ];
+    });
+  }
+
+  async function save() {
+    setSaving(true);
+    setErrorMessage("");
+    try {
+      const response = await fetch(chaptersEndpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          courseId,
+          documentId,
+          chapters: rows.map(({ title, startPage, endPage, sourceChapterNumber }) => ({
+            title,
+            startPage,
+            endPage,
+            sourceChapterNumber
+          }))
+        })
+      });
+
+      const data = (await response.json().catch(() => null)) as {
+        bookAnalysis?: BookAnalysis;
+        reanalyzed?: number[];
+        error?: string;
+      } | null;
+
+      if (!response.ok || !data?.bookAnalysis) {
+        throw new Error(data?.error ?? "Could not save chapters.");
+      }
+
+      onSaved(data.bookAnalysis, data.reanalyzed ?? []);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Could not save chapters.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="chapterEditor">
+      <div className="chapterEditorHeader">
+        <h2 className="planColumnHeading">Chapters</h2>
+        <span className="badge">{totalPages} pages</span>
+      </div>
+
+      {rows.map((row, index) => (
+        <div key={row.key} className="chapterEditorRow">
+          <div className="chapterEditorFields">
+            <label>
+              Title
+              <input
+                type="text"
+                value={row.title}
+                onChange={(e) => updateRow(index, { title: e.target.value })}
+              />
+            </label>
+            <label>
+              Start
+              <input
+                type="number"
+                min={1}
+                max={totalPages}
+                value={row.startPage + 1}
+                onChange={(e) => updatePage(index, "startPage", e.target.value)}
+              />
+            </label>
+            <label>
+              End
+              <input
+                type="number"
+                min={1}
+                max={totalPages}
+                value={row.endPage + 1}
+                onChange={(e) => updatePage(index, "endPage", e.target.value)}
+              />
+            </label>
+          </div>
+          <div className="unitCardHeader">
+            <span className="badge">
+              pp. {pageLabel(row.startPage)}-{pageLabel(row.endPage)}
+            </span>
+            <button
+              type="button"
+              className="btnSecondary"
+              onClick={() => splitRow(index)}
+              disabled={saving || row.endPage <= row.startPage}
+            >
+              Split
+            </button>
+            <button
+              type="button"
+              className="btnSecondary"
+              onClick={() => mergeWithNext(index)}
+              disabled={saving || index === rows.length - 1}
+            >
+              Merge with next
+            </button>
+          </div>
+          {previews[row.startPage] ? (
+            <pre className="chapterEditorPreview">{previews[row.startPage]}</pre>
+          ) : null}
+        </div>
+      ))}
+
+      {errorMessage ? <div className="errorBox">{errorMessage}</div> : null}
+
+      <div className="buttonRow">
+        <button type="button" onClick={save} disabled={saving}>
+          {saving ? "Saving & re-analyzing..." : "Save chapters"}
+        </button>
+        <button type="button" className="btnSecondary" onClick={onClose} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </section>
+  );
+}
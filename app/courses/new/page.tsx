@@ -1,11 +1,13 @@
 "use client";
 
 import Link from "next/link";
-import { FormEvent, useCallback, useEffect, useRef, useState, DragEvent } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState, DragEvent } from "react";
 import ReactMarkdown from "react-markdown";
 
-import type { BookAnalysis } from "@/lib/pdf/analyzeBook";
-import type { CoursePlan } from "@/lib/state/courseFiles";
+import type { PlanOrderReport } from "@/lib/course/prerequisites";
+import type { BookAnalysis, ChapterAnalysis } from "@/lib/pdf/analyzeBook";
+import type { CoursePlan, IngestionProgress, SourceChapterRef } from "@/lib/state/courseFiles";
+import { ChapterBoundaryEditor } from "./ChapterBoundaryEditor";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -29,8 +31,26 @@ type AgentStreamDelta = {
 
 type NetworkState = "idle" | "loading";
 
+// A chapter analysis streamed from the ingestion job before its document is done
+type StreamedChapter = {
+  documentId: string;
+  chapter: ChapterAnalysis;
+};
+
+type PlanEditOffer = {
+  instruction: string;
+  documentId?: string;
+  includeSpans: number[]; // indices into the document's uncoveredSpans
+};
+
 const USER_ID = "local-learner";
 
+// Below this, detected chapter boundaries are likely wrong and worth checking
+const LOW_STRUCTURE_CONFIDENCE = 0.5;
+
+// Uncovered spans worth studying; contents pages, indexes and reference lists are not
+const OFFERED_SPAN_KINDS = new Set(["preface", "appendix", "glossary", "body", "back-matter"]);
+
 // ---------------------------------------------------------------------------
 // SSE parsing (mirrors onboarding)
 // ---------------------------------------------------------------------------
@@ -67,6 +87,77 @@ function formatFileSize(bytes: number) {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+// One label per referenced document; the document title is shown only when
+// the course has more than one
+function formatSourceChapters(refs: SourceChapterRef[], documents: BookAnalysis[]) {
+  const groups = new Map<string | undefined, string[]>();
+  for (const ref of refs) {
+    const chapter =
+      ref.sectionNumber !== undefined
+        ? `${ref.chapterNumber}.${ref.sectionNumber}`
+        : `${ref.chapterNumber}`;
+    groups.set(ref.documentId, [...(groups.get(ref.documentId) ?? []), chapter]);
+  }
+
+  return Array.from(groups, ([documentId, chapters]) => {
+    const title = documents.find((doc) => doc.documentId === documentId)?.title;
+    const label = `Ch. ${chapters.join(", ")}`;
+    return documents.length > 1 && title ? `${title}: ${label}` : label;
+  });
+}
+
+function formatSourcePages(refs: SourceChapterRef[]) {
+  return refs
+    .filter((ref) => ref.startPage !== undefined && ref.endPage !== undefined)
+    .map((ref) => {
+      const start = ref.startPageLabel ?? String(ref.startPage! + 1);
+      const end = ref.endPageLabel ?? String(ref.endPage! + 1);
+      return `pp. ${start}-${end}`;
+    })
+    .join(", ");
+}
+
+function describeIngestion(job: IngestionProgress) {
+  const doc = job.documents[job.currentDocument];
+  if (!doc) return "Getting ready...";
+
+  const of =
+    job.documents.length > 1 ? ` (${job.currentDocument + 1} of ${job.documents.length})` : "";
+  switch (doc.status) {
+    case "queued":
+      return "Waiting to start...";
+    case "extracting":
+      return `Reading ${doc.originalFilename}${of}...`;
+    case "detecting":
+      return `Finding the chapters in ${doc.originalFilename}${of}...`;
+    case "analyzing": {
+      const total = doc.chapterCount ?? 0;
+      const current = Math.min(doc.chaptersDone + 1, total);
+      return `Analyzing chapter ${current} of ${total} in ${doc.originalFilename}${of}...`;
+    }
+    default:
+      return "Wrapping up...";
+  }
+}
+
+function offeredSpans(analysis: BookAnalysis) {
+  return (analysis.uncoveredSpans ?? [])
+    .map((span, index) => ({ span, index }))
+    .filter(({ span }) => OFFERED_SPAN_KINDS.has(span.kind));
+}
+
+function formatSpan(span: NonNullable<BookAnalysis["uncoveredSpans"]>[number]) {
+  const start = span.startPageLabel ?? String(span.startPage + 1);
+  const end = span.endPageLabel ?? String(span.endPage + 1);
+  return `${span.title ?? span.kind} (pp. ${start}-${end})`;
+}
+
+function lowConfidenceReasons(analysis: BookAnalysis) {
+  return (analysis.structureDiagnostics ?? [])
+    .filter((d) => d.attempted && !d.accepted && d.rejectionReason)
+    .map((d) => `${d.tier}: ${d.rejectionReason}`);
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -85,22 +176,28 @@ export default function CourseCreationPage() {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [dragOver, setDragOver] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
+  const [ingestion, setIngestion] = useState<IngestionProgress | null>(null);
+  const [streamedChapters, setStreamedChapters] = useState<StreamedChapter[]>([]);
 
   // Book analysis & course plan
-  const [bookAnalysis, setBookAnalysis] = useState<BookAnalysis | null>(null);
+  const [documents, setDocuments] = useState<BookAnalysis[]>([]);
   const [courseId, setCourseId] = useState<string | null>(null);
   const [coursePlan, setCoursePlan] = useState<CoursePlan | null>(null);
   const [planGenerating, setPlanGenerating] = useState(false);
   const [finalizedAt, setFinalizedAt] = useState<string | null>(null);
+  // Index into documents of the one whose chapters are being edited
+  const [editingDocument, setEditingDocument] = useState<number | null>(null);
 
   // Editable plan state
   const [editablePlan, setEditablePlan] = useState<CoursePlan | null>(null);
+  const [planOrder, setPlanOrder] = useState<PlanOrderReport | null>(null);
 
   // Draft persistence
   const [pendingDraft, setPendingDraft] = useState<{
     messages: ChatMessage[];
-    bookAnalysis: BookAnalysis | null;
+    documents: BookAnalysis[];
     courseId: string | null;
+    ingestionJobId: string | null;
     coursePlan: CoursePlan | null;
     editablePlan: CoursePlan | null;
     knownGaps: string[];
@@ -121,10 +218,27 @@ export default function CourseCreationPage() {
     !finalizedAt &&
     !processingStatus &&
     !planGenerating;
-  const showUploadZone = requestingUpload && !bookAnalysis && !processingStatus;
+  const showUploadZone = requestingUpload && !documents.length && !processingStatus;
 
   const agentEndpoint = "/api/courses/agent";
   const uploadEndpoint = "/api/courses/upload";
+  const jobsEndpoint = "/api/courses/jobs";
+  const prerequisitesEndpoint = "/api/courses/prerequisites";
+
+  // Only the chapters each unit covers affect ordering, so edits to titles and
+  // objectives do not trigger a new check
+  const planOutline = useMemo(
+    () =>
+      editablePlan
+        ? JSON.stringify(
+            editablePlan.units.map(({ unitNumber, sourceChapters }) => ({
+              unitNumber,
+              sourceChapters
+            }))
+          )
+        : null,
+    [editablePlan]
+  );
 
   // Auto-scroll
   useEffect(() => {
@@ -145,6 +259,35 @@ export default function CourseCreationPage() {
     }
   }, [coursePlan, editablePlan]);
 
+  // Check the plan order against the chapters' prerequisites; the server reads the
+  // course's analyses, and edited chapters trigger a new check
+  useEffect(() => {
+    if (!planOutline || !courseId || !documents.length || finalizedAt) {
+      setPlanOrder(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(prerequisitesEndpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        userId: USER_ID,
+        courseId,
+        units: JSON.parse(planOutline)
+      })
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((report: PlanOrderReport | null) => {
+        if (!cancelled) setPlanOrder(report);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [planOutline, courseId, documents, finalizedAt]);
+
   // Check for existing draft on mount
   useEffect(() => {
     fetch("/api/courses/draft")
@@ -168,8 +311,9 @@ export default function CourseCreationPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           messages,
-          bookAnalysis,
+          documents,
           courseId,
+          ingestionJobId: ingestion && ingestion.status !== "done" ? ingestion.jobId : null,
           coursePlan,
           editablePlan,
           knownGaps,
@@ -180,12 +324,12 @@ export default function CourseCreationPage() {
     }, 1000);
     return () => clearTimeout(timer);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [messages, bookAnalysis, courseId, coursePlan, editablePlan, knownGaps, readyToGenerate, requestingUpload, networkState, finalizedAt, draftChecked]);
+  }, [messages, documents, courseId, ingestion, coursePlan, editablePlan, knownGaps, readyToGenerate, requestingUpload, networkState, finalizedAt, draftChecked]);
 
   function resumeDraft() {
     if (!pendingDraft) return;
     setMessages(pendingDraft.messages);
-    setBookAnalysis(pendingDraft.bookAnalysis);
+    setDocuments(pendingDraft.documents ?? []);
     setCourseId(pendingDraft.courseId);
     setCoursePlan(pendingDraft.coursePlan);
     setEditablePlan(pendingDraft.editablePlan);
@@ -193,6 +337,11 @@ export default function CourseCreationPage() {
     setReadyToGenerate(pendingDraft.readyToGenerate);
     setRequestingUpload(pendingDraft.requestingUpload ?? false);
     setPendingDraft(null);
+
+    // The server resumes an interrupted job as soon as it is asked about it
+    if (pendingDraft.ingestionJobId && !pendingDraft.documents?.length) {
+      void followUpload(pendingDraft.ingestionJobId, pendingDraft.messages);
+    }
   }
 
   function dismissDraft() {
@@ -218,7 +367,7 @@ export default function CourseCreationPage() {
 
   async function requestNextQuestionStream(
     conversation: ChatMessage[],
-    analysis: BookAnalysis | null,
+    analyses: BookAnalysis[],
     onDelta: (chunk: string) => void
   ) {
     const response = await fetch(agentEndpoint, {
@@ -229,7 +378,7 @@ export default function CourseCreationPage() {
         stream: true,
         userId: USER_ID,
         messages: conversation,
-        bookAnalysis: analysis
+        documents: analyses
       })
     });
 
@@ -321,7 +470,9 @@ export default function CourseCreationPage() {
     setReadyToGenerate(false);
     setRequestingUpload(false);
     setKnownGaps([]);
-    setBookAnalysis(null);
+    setDocuments([]);
+    setIngestion(null);
+    setStreamedChapters([]);
     setCourseId(null);
     setCoursePlan(null);
     setEditablePlan(null);
@@ -330,7 +481,7 @@ export default function CourseCreationPage() {
 
     try {
       setMessages([]);
-      const next = await requestNextQuestionStream([], null, appendAssistantDelta);
+      const next = await requestNextQuestionStream([], [], appendAssistantDelta);
       setMessages([{ role: "assistant", content: next.assistantMessage }]);
       setReadyToGenerate(next.readyToGenerate);
       setKnownGaps(next.knownGaps);
@@ -343,17 +494,18 @@ export default function CourseCreationPage() {
     }
   }
 
-  const sendPlanEdit = useCallback(async () => {
-    if (!editablePlan || !bookAnalysis) return;
+  // `offer` adds uncovered spans picked from the plan card instead of a typed instruction
+  const sendPlanEdit = useCallback(async (offer?: PlanEditOffer) => {
+    if (!editablePlan || !documents.length) return;
 
     setNetworkState("loading");
     setErrorMessage("");
-    const instruction = draftAnswer.trim();
+    const instruction = offer?.instruction ?? draftAnswer.trim();
     const previousConversation = messages;
     const userMessage: ChatMessage = { role: "user", content: instruction };
     const updatedConversation = [...previousConversation, userMessage];
     setMessages(updatedConversation);
-    setDraftAnswer("");
+    if (!offer) setDraftAnswer("");
 
     try {
       const response = await fetch(agentEndpoint, {
@@ -363,9 +515,11 @@ export default function CourseCreationPage() {
           mode: "edit-plan",
           userId: USER_ID,
           messages: updatedConversation,
-          bookAnalysis,
+          documents,
           currentPlan: editablePlan,
           editInstruction: instruction,
+          documentId: offer?.documentId,
+          includeSpans: offer?.includeSpans ?? [],
           courseId
         })
       });
@@ -377,25 +531,28 @@ export default function CourseCreationPage() {
 
       const result = (await response.json()) as {
         plan: CoursePlan;
-        bookAnalysis: BookAnalysis | null;
+        document: BookAnalysis | null;
         explanation: string;
       };
 
       setEditablePlan(structuredClone(result.plan));
       setCoursePlan(result.plan);
-      if (result.bookAnalysis) {
-        setBookAnalysis(result.bookAnalysis);
+      const updated = result.document;
+      if (updated) {
+        setDocuments((current) =>
+          current.map((doc) => (doc.documentId === updated.documentId ? updated : doc))
+        );
       }
       setMessages([...updatedConversation, { role: "assistant", content: result.explanation }]);
     } catch (error) {
       setMessages(previousConversation);
-      setDraftAnswer(instruction);
+      if (!offer) setDraftAnswer(instruction);
       setErrorMessage(error instanceof Error ? error.message : "Could not edit the plan.");
     } finally {
       setNetworkState("idle");
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [editablePlan, bookAnalysis, draftAnswer, messages, courseId]);
+  }, [editablePlan, documents, draftAnswer, messages, courseId]);
 
   const sendAnswer = useCallback(async () => {
     if (!canSendAnswer) return;
@@ -416,7 +573,7 @@ export default function CourseCreationPage() {
     try {
       const next = await requestNextQuestionStream(
         updatedConversation,
-        bookAnalysis,
+        documents,
         appendAssistantDelta
       );
       setMessages([...updatedConversation, { role: "assistant", content: next.assistantMessage }]);
@@ -431,7 +588,7 @@ export default function CourseCreationPage() {
       setNetworkState("idle");
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [appendAssistantDelta, canSendAnswer, draftAnswer, messages, bookAnalysis, editablePlan, sendPlanEdit]);
+  }, [appendAssistantDelta, canSendAnswer, draftAnswer, messages, documents, editablePlan, sendPlanEdit]);
 
   // ---------------------------------------------------------------------------
   // File upload
@@ -439,8 +596,10 @@ export default function CourseCreationPage() {
 
   function handleFilesSelected(files: FileList | null) {
     if (!files) return;
-    const pdfs = Array.from(files).filter((f) => f.name.toLowerCase().endsWith(".pdf"));
-    if (pdfs.length) setSelectedFiles((prev) => [...prev, ...pdfs]);
+    const books = Array.from(files).filter((f) =>
+      /\.(pdf|epub|md|markdown|html?|txt)$/i.test(f.name)
+    );
+    if (books.length) setSelectedFiles((prev) => [...prev, ...books]);
   }
 
   function handleDrop(e: DragEvent<HTMLDivElement>) {
@@ -456,7 +615,7 @@ export default function CourseCreationPage() {
   async function uploadFiles() {
     if (!selectedFiles.length) return;
 
-    setProcessingStatus("Uploading your PDF...");
+    setProcessingStatus("Uploading your book...");
     setErrorMessage("");
 
     const formData = new FormData();
@@ -465,9 +624,8 @@ export default function CourseCreationPage() {
       formData.append("files", file);
     }
 
+    let jobId: string;
     try {
-      setProcessingStatus("Reading your book...");
-
       const response = await fetch(uploadEndpoint, {
         method: "POST",
         body: formData
@@ -478,25 +636,52 @@ export default function CourseCreationPage() {
         throw new Error(data?.error ?? "Upload failed.");
       }
 
-      setProcessingStatus("Analyzing chapter structure...");
-
       const result = (await response.json()) as {
         courseId: string;
-        uploadedFiles: Array<{ originalFilename: string; totalPages: number }>;
-        bookAnalysis: BookAnalysis;
+        jobId: string;
+        job: IngestionProgress;
       };
 
-      const fileInfo = result.uploadedFiles
-        .map((f) => `${f.originalFilename} (${f.totalPages} pages)`)
+      jobId = result.jobId;
+      setCourseId(result.courseId);
+      setIngestion(result.job);
+      setProcessingStatus(describeIngestion(result.job));
+      setSelectedFiles([]);
+      setRequestingUpload(false);
+    } catch (error) {
+      setProcessingStatus(null);
+      setErrorMessage(error instanceof Error ? error.message : "Upload failed.");
+      return;
+    }
+
+    await followUpload(jobId, messages);
+  }
+
+  // Streams the ingestion job's progress until it ends, then continues the
+  // conversation with the analyzed documents
+  async function followUpload(jobId: string, conversation: ChatMessage[]) {
+    setErrorMessage("");
+
+    try {
+      const { job, documents: analyzed } = await followIngestionJob(jobId);
+
+      const fileInfo = job.documents
+        .map((f) =>
+          f.ocrPageCount
+            ? `${f.originalFilename} (${f.totalPages} pages, ${f.ocrPageCount} scanned pages read with OCR)`
+            : `${f.originalFilename} (${f.totalPages} pages)`
+        )
         .join(", ");
 
+      const chapterCount = analyzed.reduce((sum, doc) => sum + doc.chapters.length, 0);
       setProcessingStatus(
-        `Found ${result.bookAnalysis.chapters.length} chapters. Analysis complete!`
+        analyzed.length > 1
+          ? `Found ${chapterCount} chapters in ${analyzed.length} documents. Analysis complete!`
+          : `Found ${chapterCount} chapters. Analysis complete!`
       );
 
-      setBookAnalysis(result.bookAnalysis);
-      setCourseId(result.courseId);
-      setSelectedFiles([]);
+      setDocuments(analyzed);
+      setCourseId(job.courseId);
       setRequestingUpload(false);
 
       // Add a user message summarizing the upload
@@ -507,15 +692,17 @@ export default function CourseCreationPage() {
 
       await new Promise<void>((resolve) => setTimeout(resolve, 1500));
       setProcessingStatus(null);
+      setIngestion(null);
+      setStreamedChapters([]);
 
       // Continue conversation with book context
       setNetworkState("loading");
-      const updatedConversation = [...messages, uploadMessage];
+      const updatedConversation = [...conversation, uploadMessage];
       setMessages(updatedConversation);
 
       const next = await requestNextQuestionStream(
         updatedConversation,
-        result.bookAnalysis,
+        analyzed,
         appendAssistantDelta
       );
       setMessages([...updatedConversation, { role: "assistant", content: next.assistantMessage }]);
@@ -524,16 +711,131 @@ export default function CourseCreationPage() {
       setNetworkState("idle");
     } catch (error) {
       setProcessingStatus(null);
+      setNetworkState("idle");
       setErrorMessage(error instanceof Error ? error.message : "Upload failed.");
     }
   }
 
+  async function followIngestionJob(jobId: string) {
+    const query = new URLSearchParams({ userId: USER_ID });
+    const response = await fetch(`${jobsEndpoint}/${jobId}/events?${query.toString()}`);
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(data?.error ?? "Could not follow the upload.");
+    }
+
+    if (!response.body) throw new Error("Progress stream was empty.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let donePayload: { job: IngestionProgress; documents: BookAnalysis[] } | null = null;
+    let streamError: string | null = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) buffer += decoder.decode(value, { stream: !done });
+
+      let separator = nextSseDelimiter(buffer);
+      while (separator) {
+        const block = buffer.slice(0, separator.index);
+        buffer = buffer.slice(separator.index + separator.length);
+        separator = nextSseDelimiter(buffer);
+
+        const parsedBlock = parseSseBlock(block);
+        if (!parsedBlock) continue;
+
+        try {
+          if (parsedBlock.event === "progress") {
+            const job = JSON.parse(parsedBlock.data) as IngestionProgress;
+            setIngestion(job);
+            setProcessingStatus(describeIngestion(job));
+            continue;
+          }
+
+          if (parsedBlock.event === "chapter") {
+            const payload = JSON.parse(parsedBlock.data) as StreamedChapter;
+            setStreamedChapters((current) =>
+              [
+                ...current.filter(
+                  (c) =>
+                    c.documentId !== payload.documentId ||
+                    c.chapter.chapterNumber !== payload.chapter.chapterNumber
+                ),
+                payload
+              ].sort(
+                (a, b) =>
+                  a.documentId.localeCompare(b.documentId) ||
+                  a.chapter.chapterNumber - b.chapter.chapterNumber
+              )
+            );
+            continue;
+          }
+
+          if (parsedBlock.event === "error") {
+            const payload = JSON.parse(parsedBlock.data) as {
+              message?: unknown;
+              job?: IngestionProgress;
+            };
+            if (payload.job) setIngestion(payload.job);
+            streamError =
+              typeof payload.message === "string" && payload.message.trim().length > 0
+                ? payload.message
+                : "Processing failed.";
+            continue;
+          }
+
+          if (parsedBlock.event === "done") {
+            donePayload = JSON.parse(parsedBlock.data) as typeof donePayload;
+            continue;
+          }
+        } catch {
+          continue;
+        }
+      }
+
+      if (done) break;
+    }
+
+    if (streamError) throw new Error(streamError);
+    if (!donePayload) throw new Error("Progress stream ended before processing finished.");
+    return donePayload;
+  }
+
+  async function retryIngestion() {
+    if (!ingestion) return;
+    const jobId = ingestion.jobId;
+
+    setErrorMessage("");
+    try {
+      const response = await fetch(`${jobsEndpoint}/${jobId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: USER_ID })
+      });
+      const data = (await response.json().catch(() => null)) as {
+        job?: IngestionProgress;
+        error?: string;
+      } | null;
+      if (!response.ok || !data?.job) throw new Error(data?.error ?? "Could not retry.");
+
+      setIngestion(data.job);
+      setProcessingStatus(describeIngestion(data.job));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Could not retry.");
+      return;
+    }
+
+    await followUpload(jobId, messages);
+  }
+
   // ---------------------------------------------------------------------------
   // Course plan generation
   // ---------------------------------------------------------------------------
 
   async function generatePlan() {
-    if (!bookAnalysis) return;
+    if (!documents.length) return;
 
     setPlanGenerating(true);
     setErrorMessage("");
@@ -545,8 +847,9 @@ export default function CourseCreationPage() {
         body: JSON.stringify({
           mode: "generate-plan",
           userId: USER_ID,
+          courseId,
           messages,
-          bookAnalysis
+          documents
         })
       });
 
@@ -587,6 +890,7 @@ export default function CourseCreationPage() {
           mode: "finalize",
           userId: USER_ID,
           courseId,
+          documents,
           coursePlan: editablePlan
         })
       });
@@ -635,6 +939,17 @@ export default function CourseCreationPage() {
     setEditablePlan({ ...editablePlan, units });
   }
 
+  // Moves units into the suggested order, renumbered from 1
+  function reorderUnits() {
+    if (!editablePlan || !planOrder) return;
+    const units = planOrder.suggestedOrder
+      .map((number) => editablePlan.units.find((unit) => unit.unitNumber === number))
+      .filter((unit): unit is CoursePlan["units"][number] => Boolean(unit))
+      .map((unit, i) => ({ ...unit, unitNumber: i + 1 }));
+    if (units.length !== editablePlan.units.length) return;
+    setEditablePlan({ ...editablePlan, units });
+  }
+
   // ---------------------------------------------------------------------------
   // Event handlers
   // ---------------------------------------------------------------------------
@@ -655,7 +970,15 @@ export default function CourseCreationPage() {
   // Render
   // ---------------------------------------------------------------------------
 
-  const showTwoColumn = (Boolean(editablePlan) || planGenerating) && !finalizedAt;
+  // Chapter cards fill the plan column while the materials are still being analyzed
+  const showChapterStream = Boolean(ingestion) && streamedChapters.length > 0 && !editablePlan;
+  const pendingChapterCount = (ingestion?.documents ?? []).reduce(
+    (sum, doc) =>
+      doc.status === "done" ? sum : sum + Math.max(0, (doc.chapterCount ?? 0) - doc.chaptersDone),
+    0
+  );
+  const showTwoColumn =
+    (Boolean(editablePlan) || planGenerating || showChapterStream) && !finalizedAt;
 
   return (
     <main className={`page courseCreationPage${showTwoColumn ? " twoColumn" : ""}`}>
@@ -730,6 +1053,26 @@ export default function CourseCreationPage() {
                 Tutor
               </p>
               <p className="processingStep">{processingStatus}</p>
+              {ingestion ? (
+                <ul className="ingestionProgress">
+                  {ingestion.documents.map((doc) => (
+                    <li key={doc.documentId}>
+                      <span>{doc.originalFilename}</span>
+                      <progress
+                        value={doc.status === "done" ? 1 : doc.chaptersDone}
+                        max={doc.status === "done" ? 1 : (doc.chapterCount ?? 1)}
+                      />
+                      <span className="ingestionProgressCount">
+                        {doc.reusedAnalysis
+                          ? "already read"
+                          : doc.chapterCount !== undefined
+                            ? `${doc.chaptersDone}/${doc.chapterCount}`
+                            : doc.status}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
             </article>
           ) : null}
 
@@ -765,14 +1108,14 @@ export default function CourseCreationPage() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf"
+                accept=".pdf,.epub,.md,.markdown,.html,.htm,.txt"
                 multiple
                 style={{ display: "none" }}
                 onChange={(e) => handleFilesSelected(e.target.files)}
               />
-              <p>Drop your PDF here, or click to browse</p>
+              <p>Drop your book or notes here, or click to browse</p>
               <p style={{ fontSize: "var(--text-xs)", color: "var(--muted)" }}>
-                PDF files only, max 32 MB each
+                PDF, DRM-free EPUB, Markdown, HTML or text files, max 32 MB each
               </p>
             </div>
           ) : null}
@@ -816,7 +1159,7 @@ export default function CourseCreationPage() {
               }
               placeholder={
                 showUploadZone
-                  ? "Drop your PDF above, or type a message..."
+                  ? "Drop your book or notes above, or type a message..."
                   : editablePlan
                     ? "Ask to edit the plan (e.g. 'add the last chapter', 'rename unit 3')..."
                     : "Type your response..."
@@ -865,11 +1208,125 @@ export default function CourseCreationPage() {
           </div>
         ) : null}
 
+        {documents
+          .filter(
+            (doc) =>
+              doc.structureConfidence !== undefined &&
+              doc.structureConfidence < LOW_STRUCTURE_CONFIDENCE
+          )
+          .map((doc) => (
+            <div key={doc.documentId ?? doc.title} className="structureWarningCard">
+              <p>
+                Chapter detection is uncertain
+                {documents.length > 1 ? ` in "${doc.title}"` : ""} ({doc.detectionMethod},
+                confidence {Math.round((doc.structureConfidence ?? 0) * 100)}%). Check the chapter
+                list before relying on the plan.
+              </p>
+              {lowConfidenceReasons(doc).length ? (
+                <ul>
+                  {lowConfidenceReasons(doc).map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          ))}
+
+        {courseId && !finalizedAt && editingDocument === null
+          ? documents.map((doc, index) => (
+              <div key={doc.documentId ?? doc.title} className="chapterSummaryRow">
+                <span>
+                  {documents.length > 1 ? `${doc.title}: ` : ""}
+                  {doc.chapters.length} chapters detected ({doc.detectionMethod})
+                </span>
+                <button
+                  type="button"
+                  className="btnSecondary"
+                  onClick={() => setEditingDocument(index)}
+                  disabled={networkState === "loading"}
+                >
+                  Edit chapters
+                </button>
+              </div>
+            ))
+          : null}
+
+        {courseId && editingDocument !== null && documents[editingDocument] ? (
+          <ChapterBoundaryEditor
+            userId={USER_ID}
+            courseId={courseId}
+            bookAnalysis={documents[editingDocument]}
+            onClose={() => setEditingDocument(null)}
+            onSaved={(analysis, reanalyzed) => {
+              setDocuments((current) =>
+                current.map((doc, index) => (index === editingDocument ? analysis : doc))
+              );
+              setEditingDocument(null);
+              const summary = reanalyzed.length
+                ? `Chapters saved. I re-read chapter(s) ${reanalyzed.join(", ")}.`
+                : "Chapters saved. No page ranges changed, so nothing needed re-reading.";
+              setMessages((current) => [
+                ...current,
+                {
+                  role: "assistant",
+                  content: editablePlan
+                    ? `${summary}\n\nAsk me to update the plan if units should follow them.`
+                    : summary
+                }
+              ]);
+            }}
+          />
+        ) : null}
+
         {errorMessage ? <div className="errorBox">{errorMessage}</div> : null}
+
+        {ingestion?.status === "failed" && !processingStatus ? (
+          <div className="buttonRow">
+            <button type="button" className="btnSecondary" onClick={() => void retryIngestion()}>
+              Retry processing
+            </button>
+          </div>
+        ) : null}
       </section>
 
       </div>
 
+      {/* Chapters streamed in while the materials are analyzed */}
+      {showChapterStream && !planGenerating && !finalizedAt ? (
+        <div className="planColumn">
+          <section className="planCard">
+            <h2 className="planColumnHeading">Chapters</h2>
+            {streamedChapters.map(({ documentId, chapter }) => (
+              <div key={`${documentId}-${chapter.chapterNumber}`} className="unitCard">
+                <div className="unitCardHeader">
+                  <span className="badge">Ch. {chapter.chapterNumber}</span>
+                  <span className="badge">
+                    pp. {chapter.startPageLabel ?? chapter.startPage + 1}-
+                    {chapter.endPageLabel ?? chapter.endPage + 1}
+                  </span>
+                  <span className="badge">{chapter.estimatedReadingMinutes} min</span>
+                </div>
+                <p className="chapterStreamTitle">{chapter.title}</p>
+                <p className="chapterStreamSummary">{chapter.summary}</p>
+                {chapter.keyConcepts.length ? (
+                  <p className="chapterStreamConcepts">{chapter.keyConcepts.join(" · ")}</p>
+                ) : null}
+              </div>
+            ))}
+            {pendingChapterCount > 0 ? (
+              <div className="unitCard">
+                <div style={{ display: "flex", gap: "var(--space-2)" }}>
+                  <div className="skeleton skeletonBadge" />
+                  <div className="skeleton skeletonBadge" />
+                </div>
+                <div className="skeleton skeletonLine" style={{ width: "70%" }} />
+                <div className="skeleton skeletonLine" style={{ width: "100%" }} />
+              </div>
+            ) : null}
+          </section>
+        </div>
+      ) : null}
+
       {/* Skeleton loading state */}
       {planGenerating && !editablePlan && !finalizedAt ? (
         <div className="planColumn">
@@ -926,23 +1383,56 @@ export default function CourseCreationPage() {
                   ~{editablePlan.estimatedHours} hours total
                 </span>
                 <span className="badge">{editablePlan.units.length} units</span>
-                {bookAnalysis ? (
+                {documents.length ? (
                   <span className="badge">
-                    {bookAnalysis.chapters.length} chapters in source
+                    {documents.reduce((sum, doc) => sum + doc.chapters.length, 0)} chapters in
+                    source
                   </span>
                 ) : null}
+                {documents.length > 1 ? (
+                  <span className="badge">{documents.length} documents</span>
+                ) : null}
               </div>
             </div>
 
+            {planOrder && (planOrder.violations.length || planOrder.cycles.length) ? (
+              <div className="structureWarningCard planOrderCard">
+                <p>Some units come before material they build on.</p>
+                <ul>
+                  {planOrder.violations.map((violation) => (
+                    <li key={`${violation.unitNumber}-${violation.prerequisiteUnitNumber}`}>
+                      Unit {violation.unitNumber} builds on Unit{" "}
+                      {violation.prerequisiteUnitNumber}
+                      {violation.concepts.length ? ` (${violation.concepts.join(", ")})` : ""}
+                    </li>
+                  ))}
+                  {planOrder.cycles.map((cycle) => (
+                    <li key={cycle.join("-")}>
+                      Units {cycle.join(", ")} build on each other; no order puts every
+                      prerequisite first.
+                    </li>
+                  ))}
+                </ul>
+                {planOrder.violations.length ? (
+                  <button type="button" className="btnSecondary" onClick={reorderUnits}>
+                    Reorder units
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
+
             {editablePlan.units.map((unit, ui) => (
               <div key={unit.unitNumber} className="unitCard">
                 <div className="unitCardHeader">
                   <span className="badge">Unit {unit.unitNumber}</span>
                   <span className="badge">{unit.estimatedMinutes} min</span>
-                  {unit.sourceChapters.length > 0 ? (
-                    <span className="badge">
-                      Ch. {unit.sourceChapters.join(", ")}
+                  {formatSourceChapters(unit.sourceChapters, documents).map((label) => (
+                    <span key={label} className="badge">
+                      {label}
                     </span>
+                  ))}
+                  {formatSourcePages(unit.sourceChapters) ? (
+                    <span className="badge">{formatSourcePages(unit.sourceChapters)}</span>
                   ) : null}
                 </div>
                 <label>
@@ -976,6 +1466,38 @@ export default function CourseCreationPage() {
               </div>
             ))}
 
+            {documents
+              .filter((doc) => offeredSpans(doc).length)
+              .map((doc) => (
+                <div key={doc.documentId ?? doc.title} className="uncoveredSpansCard">
+                  <p>
+                    Pages not in any chapter{documents.length > 1 ? ` of "${doc.title}"` : ""}
+                  </p>
+                  {offeredSpans(doc).map(({ span, index }) => (
+                    <div key={index} className="uncoveredSpanRow">
+                      <span>{formatSpan(span)}</span>
+                      <button
+                        type="button"
+                        className="btnSecondary"
+                        disabled={networkState === "loading"}
+                        onClick={() =>
+                          void sendPlanEdit({
+                            instruction:
+                              documents.length > 1
+                                ? `Add ${formatSpan(span)} of "${doc.title}" to the plan.`
+                                : `Add ${formatSpan(span)} to the plan.`,
+                            documentId: doc.documentId,
+                            includeSpans: [index]
+                          })
+                        }
+                      >
+                        Add to plan
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+
             <div className="buttonRow">
               <button type="button" onClick={finalizePlan} disabled={networkState === "loading"}>
                 {networkState === "loading" ? "Saving..." : "Approve & create course"}
@@ -996,8 +1518,11 @@ export default function CourseCreationPage() {
           <p className="successMeta">
             Saved at {new Date(finalizedAt).toLocaleString()}
           </p>
-          <Link href="/" className="ctaLink">
-            Back to home
+          <Link
+            href={courseId ? `/courses/${encodeURIComponent(courseId)}` : "/courses"}
+            className="ctaLink"
+          >
+            Open course
           </Link>
         </section>
       ) : null}
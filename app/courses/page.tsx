@@ -0,0 +1,203 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CourseStatus, CourseSummary } from "@/lib/state/courseFiles";
+
+const USER_ID = "local-learner";
+
+type LoadState = "loading" | "idle" | "error";
+
+function formatStudiedAt(course: Pick<CourseSummary, "lastStudiedAt">) {
+  return course.lastStudiedAt
+    ? `Last studied ${new Date(course.lastStudiedAt).toLocaleDateString()}`
+    : "Not studied yet";
+}
+
+export default function CourseLibraryPage() {
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [loadState, setLoadState] = useState<LoadState>("loading");
+  const [showArchived, setShowArchived] = useState(false);
+  const [busyCourseId, setBusyCourseId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadCourses() {
+      const response = await fetch(`/api/courses?${new URLSearchParams({ userId: USER_ID })}`);
+      if (isCancelled) return;
+      if (!response.ok) {
+        setLoadState("error");
+        setError("Failed to load your courses.");
+        return;
+      }
+      const data = (await response.json()) as { courses: CourseSummary[] };
+      setCourses(data.courses);
+      setLoadState("idle");
+    }
+
+    loadCourses();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  async function setStatus(course: CourseSummary, status: CourseStatus) {
+    setBusyCourseId(course.courseId);
+    setError("");
+    const response = await fetch(`/api/courses/${encodeURIComponent(course.courseId)}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ userId: USER_ID, status })
+    });
+    setBusyCourseId(null);
+
+    if (!response.ok) {
+      setError(`Could not update "${course.title}".`);
+      return;
+    }
+    const data = (await response.json()) as { course: CourseSummary };
+    setCourses((current) =>
+      current.map((entry) => (entry.courseId === course.courseId ? data.course : entry))
+    );
+  }
+
+  async function deleteCourse(course: CourseSummary) {
+    if (
+      !window.confirm(`Delete "${course.title}" and its uploaded files? This cannot be undone.`)
+    ) {
+      return;
+    }
+    setBusyCourseId(course.courseId);
+    setError("");
+    const query = new URLSearchParams({ userId: USER_ID });
+    const response = await fetch(`/api/courses/${encodeURIComponent(course.courseId)}?${query}`, {
+      method: "DELETE"
+    });
+    setBusyCourseId(null);
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => null)) as { error?: string } | null;
+      setError(data?.error ?? `Could not delete "${course.title}".`);
+      return;
+    }
+    setCourses((current) => current.filter((entry) => entry.courseId !== course.courseId));
+  }
+
+  const archivedCount = courses.filter((course) => course.status === "archived").length;
+  const visible = courses.filter((course) => showArchived || course.status !== "archived");
+
+  return (
+    <main className="page">
+      <section className="hero">
+        <p className="eyebrow">Course Library</p>
+        <h1>Your courses</h1>
+        <p>Pick up where you left off, or archive the courses you have finished with.</p>
+        <div className="buttonRow">
+          <Link href="/courses/new" className="ctaLink">
+            Create a course
+          </Link>
+          {archivedCount ? (
+            <button
+              type="button"
+              className="btnSecondary"
+              onClick={() => setShowArchived((value) => !value)}
+            >
+              {showArchived ? "Hide archived" : `Show archived (${archivedCount})`}
+            </button>
+          ) : null}
+        </div>
+      </section>
+
+      {error ? <div className="errorBox">{error}</div> : null}
+
+      {loadState === "loading" ? (
+        <div className="courseList">
+          <div className="courseCard">
+            <div className="skeleton skeletonTitle" />
+            <div className="skeleton skeletonLine" />
+          </div>
+        </div>
+      ) : null}
+
+      {loadState === "idle" && !visible.length ? (
+        <section className="formCard">
+          <p>
+            {courses.length
+              ? "All of your courses are archived."
+              : "No courses yet. Create one from a book or your notes to get started."}
+          </p>
+        </section>
+      ) : null}
+
+      <div className="courseList">
+        {visible.map((course) => {
+          const busy = busyCourseId === course.courseId;
+          const href =
+            course.status === "draft"
+              ? "/courses/new"
+              : `/courses/${encodeURIComponent(course.courseId)}`;
+          return (
+            <article
+              key={course.courseId}
+              className={`courseCard${course.status === "archived" ? " archived" : ""}`}
+            >
+              <div className="courseCardHeader">
+                <h2>{course.title}</h2>
+                <span className="badge">{course.status}</span>
+              </div>
+              {course.books.length ? (
+                <p className="courseCardMeta">{course.books.join(" · ")}</p>
+              ) : null}
+              {course.unitCount ? (
+                <div className="courseProgress">
+                  <progress value={course.progress} max={1} />
+                  <span>
+                    {Math.round(course.progress * course.unitCount)} of {course.unitCount} units
+                  </span>
+                </div>
+              ) : null}
+              <p className="courseCardMeta">{formatStudiedAt(course)}</p>
+              <div className="buttonRow">
+                <Link href={href} className="ctaLink">
+                  {course.status === "draft" ? "Continue building" : "Open"}
+                </Link>
+                {course.status === "archived" ? (
+                  <button
+                    type="button"
+                    className="btnSecondary"
+                    disabled={busy}
+                    onClick={() => setStatus(course, "active")}
+                  >
+                    Restore
+                  </button>
+                ) : course.status !== "draft" ? (
+                  <button
+                    type="button"
+                    className="btnSecondary"
+                    disabled={busy}
+                    onClick={() => setStatus(course, "archived")}
+                  >
+                    Archive
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  className="btnSecondary"
+                  disabled={busy}
+                  onClick={() => deleteCourse(course)}
+                >
+                  Delete
+                </button>
+              </div>
+            </article>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
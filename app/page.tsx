@@ -22,6 +22,9 @@ export default function HomePage() {
           <Link href="/courses/new" className="ctaLink">
             Create a course
           </Link>
+          <Link href="/courses" className="ghostLink">
+            My courses
+          </Link>
           <Link href="/onboarding" className="ghostLink">
             Start onboarding
           </Link>
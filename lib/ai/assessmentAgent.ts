@@ -0,0 +1,370 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "./model";
+import { readUserStateDoc } from "@/lib/state/userState";
+import {
+  listAssessments,
+  readCoursePlan,
+  saveAssessment,
+  type Assessment,
+  type AssessmentKind,
+  type AssessmentQuestion
+} from "@/lib/state/courseFiles";
+import { conceptKey } from "@/lib/pdf/conceptIndex";
+import {
+  citationsSchema,
+  definingSentence,
+  loadUnitSources,
+  pageCitation,
+  resolveCitations,
+  sourceChapter,
+  sourceCitation,
+  sourceConcepts,
+  sourcesBlock,
+  type PlanUnit,
+  type UnitSource
+} from "@/lib/course/unitSources";
+
+export type AssessmentRequest = {
+  kind: AssessmentKind;
+  unitNumber?: number; // required for homework and quizzes
+  unitNumbers?: number[]; // units a midterm or final covers; defaults from the plan
+};
+
+// Questions per assessment; cumulative ones sample every unit they cover
+const QUESTION_COUNTS: Record<AssessmentKind, { mcq: number; freeForm: number }> = {
+  homework: { mcq: 2, freeForm: 3 },
+  quiz: { mcq: 5, freeForm: 1 },
+  midterm: { mcq: 10, freeForm: 3 },
+  final: { mcq: 15, freeForm: 4 }
+};
+
+// Share of the points that passes; gates the next unit (assessments.unlock_threshold)
+export const DEFAULT_UNLOCK_THRESHOLD = 0.7;
+
+const DEFAULT_POINTS = { mcq: 2, free_form: 5 };
+const MAX_QUESTION_POINTS = 10;
+
+// Source text sent to the model for one assessment; finals covering many units are trimmed
+const MAX_ASSESSMENT_SOURCE_CHARS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Midterms cover the first half of the plan (or the units up to unitNumber), finals all of it
+export function coveredUnits(request: AssessmentRequest, units: PlanUnit[]) {
+  if (request.kind === "homework" || request.kind === "quiz") {
+    if (request.unitNumber === undefined) {
+      throw new Error(`A ${request.kind} needs the unit it belongs to.`);
+    }
+    return [request.unitNumber];
+  }
+  if (request.unitNumbers?.length) return request.unitNumbers;
+  const numbers = units.map((unit) => unit.unitNumber);
+  if (request.kind === "final") return numbers;
+  const last = request.unitNumber ?? numbers[Math.ceil(numbers.length / 2) - 1];
+  return numbers.filter((n) => n <= last);
+}
+
+// The place an assessment fills in the course; regenerating it adds a version there
+export function assessmentSlot(request: Pick<AssessmentRequest, "kind" | "unitNumber">) {
+  return request.kind === "homework" || request.kind === "quiz"
+    ? `unit-${request.unitNumber}-${request.kind}`
+    : request.kind;
+}
+
+function assessmentTitle(kind: AssessmentKind, units: PlanUnit[]) {
+  if (kind === "final") return "Final exam";
+  if (kind === "midterm") {
+    const numbers = units.map((unit) => unit.unitNumber);
+    const [first, last] = [Math.min(...numbers), Math.max(...numbers)];
+    return first === last ? `Midterm (unit ${first})` : `Midterm (units ${first}-${last})`;
+  }
+  const [unit] = units;
+  return `Unit ${unit.unitNumber} ${kind}: ${unit.title}`;
+}
+
+// Every key concept the covered sources explain, by normalized name
+function conceptNames(sources: UnitSource[]) {
+  const names = new Map<string, string>();
+  for (const source of sources) {
+    const chapter = sourceChapter(source);
+    for (const name of chapter?.keyConcepts ?? []) {
+      const key = conceptKey(name);
+      if (key && !names.has(key)) names.set(key, name);
+    }
+  }
+  return names;
+}
+
+// Tags are mapped onto the chapters' key concepts where they name one
+function canonicalTags(tags: string[], names: Map<string, string>) {
+  const canonical = tags.map((tag) => names.get(conceptKey(tag)) ?? tag.trim()).filter(Boolean);
+  return Array.from(new Set(canonical));
+}
+
+// Models tend to put the answer first; rotate choices so its position varies
+function rotateChoices(choices: string[], correct: number, seed: number) {
+  const target = (seed * 7 + 3) % choices.length;
+  const shift = (target - correct + choices.length) % choices.length;
+  return {
+    choices: choices.map((_, i) => choices[(i - shift + choices.length) % choices.length]),
+    correctChoice: target
+  };
+}
+
+function clampPoints(points: number, type: AssessmentQuestion["questionType"]) {
+  return Number.isFinite(points) && points >= 1
+    ? Math.min(MAX_QUESTION_POINTS, Math.round(points))
+    : DEFAULT_POINTS[type];
+}
+
+type DraftQuestion = Omit<AssessmentQuestion, "id" | "questionOrder">;
+
+function numbered(questions: DraftQuestion[]) {
+  return questions.map((question, i) => ({ id: `q${i + 1}`, questionOrder: i + 1, ...question }));
+}
+
+// ---------------------------------------------------------------------------
+// Fallback questions (no API key) — MCQs ask which key concept a sentence
+// from the book defines; free-form questions restate the unit objectives
+// ---------------------------------------------------------------------------
+
+function fallbackQuestions(
+  kind: AssessmentKind,
+  units: PlanUnit[],
+  sources: UnitSource[]
+): AssessmentQuestion[] {
+  const counts = QUESTION_COUNTS[kind];
+  const definitions = sources.flatMap((source) =>
+    sourceConcepts(source).flatMap(({ name, page }) => {
+      const sentence = definingSentence(source, name, page);
+      return sentence ? [{ name, sentence, source, page }] : [];
+    })
+  );
+  const names = Array.from(new Set(definitions.map((d) => d.name)));
+
+  const mcqs = definitions.slice(0, counts.mcq).flatMap((definition, i): DraftQuestion[] => {
+    const distractors = names.filter((name) => name !== definition.name);
+    if (!distractors.length) return [];
+    const picked = [0, 1, 2]
+      .map((j) => distractors[(i + j) % distractors.length])
+      .filter((name, j, all) => all.indexOf(name) === j);
+    const blanked = definition.sentence.replace(
+      new RegExp(definition.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"),
+      "____"
+    );
+    const { choices, correctChoice } = rotateChoices([definition.name, ...picked], 0, i);
+    return [
+      {
+        questionType: "mcq" as const,
+        prompt: `Which concept completes this passage? "${blanked}"`,
+        choices,
+        answerKey: { correctChoice, modelAnswer: definition.sentence, rubric: [] },
+        conceptTags: [definition.name],
+        points: DEFAULT_POINTS.mcq,
+        citations: [pageCitation(definition.source.document, definition.page, definition.page)]
+      }
+    ];
+  });
+
+  const prompts = units.flatMap((unit) => {
+    const unitSources = sources.filter((source) => source.unitNumber === unit.unitNumber);
+    const concepts = unitSources.flatMap(sourceConcepts).map((c) => c.name);
+    const topics = unit.objectives.length
+      ? unit.objectives
+      : concepts.map((name) => `Explain ${name} in your own words.`);
+    return topics.map((topic) => ({ topic, unitSources, concepts }));
+  });
+  const freeForm = prompts
+    .slice(0, counts.freeForm)
+    .flatMap(({ topic, unitSources, concepts }): DraftQuestion[] => {
+      if (!unitSources.length) return [];
+      const modelAnswer = unitSources
+        .flatMap((source) =>
+          sourceConcepts(source).map(({ name, page }) => definingSentence(source, name, page))
+        )
+        .filter((sentence): sentence is string => Boolean(sentence))
+        .slice(0, 3)
+        .join(" ");
+      return [
+        {
+          questionType: "free_form" as const,
+          prompt: `${topic.replace(/\.?$/, ".")} Support your answer with ideas from the reading.`,
+          answerKey: {
+            modelAnswer: modelAnswer || `See ${sourceCitation(unitSources[0]).label}.`,
+            rubric: concepts.slice(0, 3).map((name) => `Uses the idea of ${name} correctly`)
+          },
+          conceptTags: concepts.slice(0, 3),
+          points: DEFAULT_POINTS.free_form,
+          citations: unitSources.map(sourceCitation)
+        }
+      ];
+    });
+
+  return numbered([...mcqs, ...freeForm]);
+}
+
+// ---------------------------------------------------------------------------
+// Generate assessment
+// ---------------------------------------------------------------------------
+
+const questionSchema = z.object({
+  questionType: z.enum(["mcq", "free_form"]),
+  prompt: z.string(),
+  choices: z.array(z.string()).describe("Answer options for mcq; empty for free_form"),
+  correctChoice: z.number().describe("0-based index of the correct choice; -1 for free_form"),
+  modelAnswer: z.string().describe("The expected answer; for mcq, why the correct choice is right"),
+  rubric: z
+    .array(z.string())
+    .describe("For free_form: the points a full answer makes, each worth partial credit"),
+  conceptTags: z.array(z.string()).describe("Key concepts the question tests"),
+  points: z.number(),
+  citations: citationsSchema
+});
+
+// Null when the model call fails
+async function modelQuestions(
+  userId: string,
+  request: AssessmentRequest,
+  units: PlanUnit[],
+  sources: UnitSource[]
+): Promise<AssessmentQuestion[] | null> {
+  const counts = QUESTION_COUNTS[request.kind];
+  const [profile, preferences] = await Promise.all([
+    readUserStateDoc(userId, "PROFILE"),
+    readUserStateDoc(userId, "PREFERENCES")
+  ]);
+  const names = conceptNames(sources);
+
+  try {
+    const { object } = await generateObject({
+      model: getModel(),
+      system: [
+        `You write ${request.kind} assessments for the learner's self-paced course, from the source pages of the units it covers.`,
+        `Learner profile:\n${profile.content}`,
+        `Learning preferences:\n${preferences.content}`,
+        "",
+        "Rules:",
+        "- Ask only what the source pages teach; every question cites the pages that answer it, using the [Sn Page N] markers.",
+        "- MCQs have four plausible choices and exactly one correct answer; distractors reflect real misconceptions.",
+        "- Free-form questions ask the learner to explain, apply or compare; the rubric lists the 2-4 points a full answer makes.",
+        "- Tag each question with the key concepts it tests, using the names given.",
+        "- Give harder questions more points; match difficulty to the learner's challenge level.",
+        request.kind === "midterm" || request.kind === "final"
+          ? "- Spread the questions over all the units covered, including questions that connect units."
+          : "- Cover the unit's objectives."
+      ].join("\n"),
+      prompt: [
+        ...units.map(
+          (unit) =>
+            `Unit ${unit.unitNumber}: ${unit.title}\nObjectives:\n${unit.objectives.map((o) => `- ${o}`).join("\n")}`
+        ),
+        "",
+        `Key concepts: ${Array.from(names.values()).join(", ") || "(none listed)"}`,
+        "",
+        `Source pages:\n${sourcesBlock(sources, MAX_ASSESSMENT_SOURCE_CHARS)}`,
+        "",
+        `Write ${counts.mcq} mcq and ${counts.freeForm} free_form questions.`
+      ].join("\n"),
+      temperature: 0.4,
+      schema: z.object({ questions: z.array(questionSchema) })
+    });
+
+    // Questions without a usable answer key cannot be graded and are dropped
+    return numbered(
+      object.questions.flatMap((q, i): DraftQuestion[] => {
+        const citations = resolveCitations(q.citations, sources);
+        const conceptTags = canonicalTags(q.conceptTags, names);
+        if (q.questionType === "mcq") {
+          const valid =
+            q.choices.length >= 2 &&
+            Number.isInteger(q.correctChoice) &&
+            q.correctChoice >= 0 &&
+            q.correctChoice < q.choices.length;
+          if (!valid) return [];
+          const { choices, correctChoice } = rotateChoices(q.choices, q.correctChoice, i);
+          return [
+            {
+              questionType: "mcq" as const,
+              prompt: q.prompt,
+              choices,
+              answerKey: { correctChoice, modelAnswer: q.modelAnswer, rubric: [] },
+              conceptTags,
+              points: clampPoints(q.points, "mcq"),
+              citations
+            }
+          ];
+        }
+        return [
+          {
+            questionType: "free_form" as const,
+            prompt: q.prompt,
+            answerKey: { modelAnswer: q.modelAnswer, rubric: q.rubric.filter((r) => r.trim()) },
+            conceptTags,
+            points: clampPoints(q.points, "free_form"),
+            citations
+          }
+        ];
+      })
+    );
+  } catch {
+    return null;
+  }
+}
+
+export async function generateAssessment(
+  userId: string,
+  courseId: string,
+  request: AssessmentRequest
+): Promise<Assessment> {
+  const plan = await readCoursePlan(userId, courseId);
+  if (!plan) throw new Error("The course has no plan yet.");
+
+  const { units, sources } = await loadUnitSources(
+    userId,
+    courseId,
+    coveredUnits(request, plan.units)
+  );
+  const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+
+  let questions = hasApiKey ? await modelQuestions(userId, request, units, sources) : null;
+  // A failed model call, or one that wrote nothing gradable, falls back to built questions
+  if (!questions?.length) questions = fallbackQuestions(request.kind, units, sources);
+
+  if (!questions.length) {
+    throw new Error("No questions could be written from the unit's source pages.");
+  }
+
+  // Earlier versions keep their id, so their submissions stay attached to the
+  // questions they answered
+  const slot = assessmentSlot(request);
+  const previous = (await listAssessments(userId, courseId, { includeSuperseded: true })).filter(
+    (a) => assessmentSlot(a) === slot
+  );
+  const version = Math.max(0, ...previous.map((a) => a.version)) + 1;
+
+  const assessment: Assessment = {
+    id: `${slot}-v${version}`,
+    courseId,
+    ...(request.kind === "homework" || request.kind === "quiz"
+      ? { unitNumber: request.unitNumber }
+      : {}),
+    unitNumbers: units.map((unit) => unit.unitNumber),
+    kind: request.kind,
+    title: assessmentTitle(request.kind, units),
+    totalPoints: questions.reduce((sum, q) => sum + q.points, 0),
+    unlockThreshold: DEFAULT_UNLOCK_THRESHOLD,
+    questions,
+    version,
+    createdAt: new Date().toISOString()
+  };
+  await saveAssessment(userId, assessment);
+  await Promise.all(
+    previous
+      .filter((a) => !a.supersededBy)
+      .map((a) => saveAssessment(userId, { ...a, supersededBy: assessment.id }))
+  );
+  return assessment;
+}
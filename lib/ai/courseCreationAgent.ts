@@ -2,8 +2,21 @@ import { generateObject } from "ai";
 import { z } from "zod";
 import { getModel } from "./model";
 import { readUserStateDoc } from "@/lib/state/userState";
-import { saveCoursePlan, type CoursePlan } from "@/lib/state/courseFiles";
-import type { BookAnalysis } from "@/lib/pdf/analyzeBook";
+import {
+  saveCoursePlan,
+  updateCourseRecord,
+  type CoursePlan,
+  type SourceChapterRef
+} from "@/lib/state/courseFiles";
+import {
+  findDocument,
+  pageLabelFor,
+  type BookAnalysis,
+  type ChapterAnalysis
+} from "@/lib/pdf/analyzeBook";
+import type { UncoveredSpan } from "@/lib/pdf/validateStructure";
+import { withPrerequisiteUnits, type PrerequisiteGraph } from "@/lib/course/prerequisites";
+import { measureReading } from "@/lib/course/readingTime";
 
 export type ConversationMessage = {
   role: "assistant" | "user";
@@ -38,19 +51,155 @@ async function loadUserStateDocs(userId: string) {
   return { profile, preferences, persona, memory };
 }
 
+// Page ranges use the numbers printed in the book so they match what the
+// learner sees in a physical copy
+function printedRange(analysis: BookAnalysis, startPage: number, endPage: number) {
+  return `pp.${pageLabelFor(analysis, startPage)}-${pageLabelFor(analysis, endPage)}`;
+}
+
 function compactBookSummary(analysis: BookAnalysis): string {
-  const chapterLines = analysis.chapters.map(
-    (ch) =>
-      `Ch${ch.chapterNumber} "${ch.title}" (pp.${ch.startPage + 1}-${ch.endPage + 1}): ${ch.summary} | Concepts: ${ch.keyConcepts.join(", ")}`
+  const parts = analysis.parts ?? [];
+  const chapterLines: string[] = [];
+  let currentPart: number | undefined;
+
+  for (const ch of analysis.chapters) {
+    if (ch.partNumber !== undefined && ch.partNumber !== currentPart) {
+      const part = parts.find((p) => p.partNumber === ch.partNumber);
+      if (part) {
+        chapterLines.push(
+          `Part ${part.partNumber} "${part.title}" (${printedRange(analysis, part.startPage, part.endPage)})`
+        );
+      }
+      currentPart = ch.partNumber;
+    }
+
+    chapterLines.push(
+      `Ch${ch.chapterNumber} "${ch.title}" (${printedRange(analysis, ch.startPage, ch.endPage)}): ${ch.summary} | Concepts: ${ch.keyConcepts.join(", ")}`
+    );
+    for (const section of ch.sections ?? []) {
+      chapterLines.push(
+        `  Sec ${ch.chapterNumber}.${section.sectionNumber} "${section.title}" (${printedRange(analysis, section.startPage, section.endPage)})`
+      );
+    }
+  }
+
+  const spanLines = (analysis.uncoveredSpans ?? []).map(
+    (span, i) =>
+      `Span ${i + 1} ${span.kind}${span.title ? ` "${span.title}"` : ""} (${printedRange(analysis, span.startPage, span.endPage)})`
   );
+
+  const confidence =
+    analysis.structureConfidence !== undefined
+      ? ` (confidence ${analysis.structureConfidence})`
+      : "";
+
   return [
     `Book: "${analysis.title}"${analysis.author ? ` by ${analysis.author}` : ""}`,
-    `Pages: ${analysis.totalPages} | Chapters: ${analysis.chapters.length} | Detection: ${analysis.detectionMethod}`,
+    `Pages: ${analysis.totalPages} | Parts: ${parts.length} | Chapters: ${analysis.chapters.length} | Detection: ${analysis.detectionMethod}${confidence}`,
     "",
-    ...chapterLines
+    ...chapterLines,
+    ...(spanLines.length ? ["", "Not in any chapter:", ...spanLines] : [])
   ].join("\n");
 }
 
+// Documents are introduced by their id so the model can reference
+// (documentId, chapter) pairs
+function compactCourseSummary(documents: BookAnalysis[]): string {
+  return documents
+    .map((doc) => {
+      const summary = compactBookSummary(doc);
+      return doc.documentId ? `Document ${doc.documentId}\n${summary}` : summary;
+    })
+    .join("\n\n");
+}
+
+// One line per chapter that builds on another, e.g. "doc_1 Ch4 builds on doc_1 Ch2 (Limits)"
+function prerequisiteSummary(graph: PrerequisiteGraph): string {
+  const name = (key: string) => {
+    const chapter = graph.chapters.find((ch) => ch.key === key);
+    if (!chapter) return key;
+    return `${chapter.documentId ? `${chapter.documentId} ` : ""}Ch${chapter.chapterNumber}`;
+  };
+  return graph.edges
+    .map((edge) => `${name(edge.to)} builds on ${name(edge.from)} (${edge.concepts.join(", ")})`)
+    .join("\n");
+}
+
+// Turns uncovered spans into chapters without a model call, numbered after
+// the existing chapters
+function spansToChapters(
+  spans: UncoveredSpan[],
+  analysis: BookAnalysis,
+  pages: string[] | null | undefined
+): ChapterAnalysis[] {
+  return spans.map((span, i) => {
+    const title = span.title ?? `${span.kind[0].toUpperCase()}${span.kind.slice(1)}`;
+    return {
+      chapterNumber: analysis.chapters.length + i + 1,
+      title,
+      startPage: span.startPage,
+      endPage: span.endPage,
+      startPageLabel: pageLabelFor(analysis, span.startPage),
+      endPageLabel: pageLabelFor(analysis, span.endPage),
+      summary: `Content from "${title}".`,
+      keyConcepts: [],
+      learningObjectives: [],
+      prerequisites: [],
+      ...measureReading((pages ?? []).slice(span.startPage, span.endPage + 1))
+    };
+  });
+}
+
+function withoutSpans(analysis: BookAnalysis, spans: UncoveredSpan[]) {
+  return (analysis.uncoveredSpans ?? []).filter((span) => !spans.includes(span));
+}
+
+const sourceChapterRefSchema = z.object({
+  documentId: z.string().describe("Id of the document the chapter is in, e.g. doc_1"),
+  chapterNumber: z.number(),
+  sectionNumber: z
+    .number()
+    .optional()
+    .describe("Set only when the unit covers a single section (Sec N.M) of the chapter")
+});
+
+// Fill in page ranges for each source reference from the document analyses,
+// so the plan can be read without the analyses at hand
+function resolveSourcePages(plan: CoursePlan, documents: BookAnalysis[]): CoursePlan {
+  return {
+    ...plan,
+    units: plan.units.map((unit) => ({
+      ...unit,
+      sourceChapters: unit.sourceChapters.map((ref): SourceChapterRef => {
+        const analysis = findDocument(documents, ref.documentId);
+        const chapter = analysis?.chapters.find((ch) => ch.chapterNumber === ref.chapterNumber);
+        if (!analysis || !chapter) {
+          return {
+            ...(ref.documentId ? { documentId: ref.documentId } : {}),
+            chapterNumber: ref.chapterNumber
+          };
+        }
+
+        const section =
+          ref.sectionNumber !== undefined
+            ? chapter.sections?.find((s) => s.sectionNumber === ref.sectionNumber)
+            : undefined;
+        const range = section ?? chapter;
+
+        return {
+          ...(analysis.documentId ? { documentId: analysis.documentId } : {}),
+          chapterNumber: chapter.chapterNumber,
+          ...(section ? { sectionNumber: section.sectionNumber } : {}),
+          startPage: range.startPage,
+          endPage: range.endPage,
+          startPageLabel: pageLabelFor(analysis, range.startPage),
+          endPageLabel: pageLabelFor(analysis, range.endPage)
+        };
+      })
+    }))
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Fallback question sequence (no API key)
 // ---------------------------------------------------------------------------
@@ -100,18 +249,18 @@ function fallbackNextQuestion(
 
 export async function generateNextCourseQuestion(
   messages: ConversationMessage[],
-  bookAnalysis: BookAnalysis | null,
+  documents: BookAnalysis[],
   userId: string
 ): Promise<NextQuestionPayload> {
   const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
   if (!hasApiKey) {
-    return fallbackNextQuestion(messages, bookAnalysis !== null);
+    return fallbackNextQuestion(messages, documents.length > 0);
   }
 
   const docs = await loadUserStateDocs(userId);
 
-  const bookContext = bookAnalysis
-    ? `\n\nYou have already read their book. Here is your analysis:\n${compactBookSummary(bookAnalysis)}`
+  const bookContext = documents.length
+    ? `\n\nYou have already read their materials. Here is your analysis:\n${compactCourseSummary(documents)}`
     : "\n\nThe learner has NOT yet uploaded their study materials.";
 
   const systemPrompt = [
@@ -129,7 +278,7 @@ export async function generateNextCourseQuestion(
     "- Never use bullet points or numbered lists in your responses.",
     "- Adapt based on what the learner has already shared.",
     "",
-    bookAnalysis
+    documents.length
       ? "POST-UPLOAD PHASE: You've read the book. Reference specific chapters and topics. Ask about depth, priorities, topics to skip, familiarity, and structure preferences."
       : "PRE-UPLOAD PHASE: Ask about their learning goals, motivation, and background. Then ask them to upload their PDF materials.",
     bookContext
@@ -139,7 +288,7 @@ export async function generateNextCourseQuestion(
     "Conversation transcript:",
     transcriptString(messages) || "(empty)",
     "",
-    bookAnalysis
+    documents.length
       ? "Determine if you have enough context to generate a course plan. Set readyToGenerate=true only after ~3-4 post-upload exchanges where you understand their priorities."
       : "You need them to upload a PDF. Set requestingUpload=true when it's time to ask for materials.",
     "knownGaps: short list of what you still need to know, in second person."
@@ -160,7 +309,7 @@ export async function generateNextCourseQuestion(
     });
 
     return {
-      question: response.question || fallbackNextQuestion(messages, bookAnalysis !== null).question,
+      question: response.question || fallbackNextQuestion(messages, documents.length > 0).question,
       readyToGenerate: Boolean(response.readyToGenerate),
       knownGaps: Array.isArray(response.knownGaps)
         ? response.knownGaps.filter((g): g is string => typeof g === "string" && g.trim().length > 0)
@@ -168,7 +317,7 @@ export async function generateNextCourseQuestion(
       requestingUpload: Boolean(response.requestingUpload)
     };
   } catch {
-    return fallbackNextQuestion(messages, bookAnalysis !== null);
+    return fallbackNextQuestion(messages, documents.length > 0);
   }
 }
 
@@ -178,33 +327,46 @@ export async function generateNextCourseQuestion(
 
 export async function generateCoursePlan(
   messages: ConversationMessage[],
-  bookAnalysis: BookAnalysis,
-  userId: string
+  documents: BookAnalysis[],
+  userId: string,
+  graph?: PrerequisiteGraph
 ): Promise<CoursePlan> {
   const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
   const docs = await loadUserStateDocs(userId);
 
   if (!hasApiKey) {
-    // Fallback: one unit per chapter
-    return {
-      title: `Course: ${bookAnalysis.title}`,
-      description: `A personalized course based on "${bookAnalysis.title}".`,
+    // Fallback: one unit per chapter, document by document
+    const chapters = documents.flatMap((doc) => doc.chapters.map((ch) => ({ doc, ch })));
+    const plan: CoursePlan = {
+      title: `Course: ${documents[0]?.title ?? "Untitled"}`,
+      description: `A personalized course based on ${documents.map((doc) => `"${doc.title}"`).join(", ")}.`,
       estimatedHours: Math.round(
-        bookAnalysis.chapters.reduce((sum, ch) => sum + ch.estimatedReadingMinutes, 0) / 60
+        chapters.reduce((sum, { ch }) => sum + ch.estimatedReadingMinutes, 0) / 60
       ),
-      units: bookAnalysis.chapters.map((ch) => ({
-        unitNumber: ch.chapterNumber,
+      units: chapters.map(({ doc, ch }, i) => ({
+        unitNumber: i + 1,
         title: ch.title,
         summary: ch.summary,
         objectives: ch.learningObjectives,
-        sourceChapters: [ch.chapterNumber],
+        sourceChapters: [
+          {
+            ...(doc.documentId ? { documentId: doc.documentId } : {}),
+            chapterNumber: ch.chapterNumber,
+            startPage: ch.startPage,
+            endPage: ch.endPage,
+            startPageLabel: pageLabelFor(doc, ch.startPage),
+            endPageLabel: pageLabelFor(doc, ch.endPage)
+          }
+        ],
         estimatedMinutes: ch.estimatedReadingMinutes
       }))
     };
+    return graph ? withPrerequisiteUnits(plan, documents, graph) : plan;
   }
 
+  const prerequisites = graph ? prerequisiteSummary(graph) : "";
   const systemPrompt = [
-    "You create structured course plans from book analyses and learner conversations.",
+    "You create structured course plans from analyses of the learner's documents (textbooks, lecture notes, problem sets) and learner conversations.",
     `Learner profile:\n${docs.profile.content}`,
     `Learning preferences:\n${docs.preferences.content}`,
     "",
@@ -212,16 +374,20 @@ export async function generateCoursePlan(
     "- Groups related chapters into logical units",
     "- Respects the learner's stated priorities and depth preferences",
     "- Skips or condenses topics they already know",
-    "- Maps each unit to source chapters from the book",
+    "- Maps each unit to source chapters, or to a single section of a chapter when the unit covers only that section, naming the document each chapter is in",
+    "- Pairs material from different documents on the same topic in one unit (e.g. a textbook chapter with the matching lecture notes and problems)",
+    "- Never maps units to pages listed as not in any chapter; the learner can add those spans separately",
+    "- Orders units so that each comes after the units covering the chapters it builds on",
     "- Provides realistic time estimates"
   ].join("\n");
 
   const userPrompt = [
-    `Book analysis:\n${compactBookSummary(bookAnalysis)}`,
+    `Document analyses:\n${compactCourseSummary(documents)}`,
+    ...(prerequisites ? ["", `Chapter prerequisites:\n${prerequisites}`] : []),
     "",
     `Conversation transcript:\n${transcriptString(messages)}`,
     "",
-    "Generate a structured course plan based on this book and the learner's preferences."
+    "Generate a structured course plan based on these documents and the learner's preferences."
   ].join("\n");
 
   const { object: plan } = await generateObject({
@@ -239,14 +405,15 @@ export async function generateCoursePlan(
           title: z.string(),
           summary: z.string(),
           objectives: z.array(z.string()),
-          sourceChapters: z.array(z.number()),
+          sourceChapters: z.array(sourceChapterRefSchema),
           estimatedMinutes: z.number()
         })
       )
     })
   });
 
-  return plan;
+  const resolved = resolveSourcePages(plan, documents);
+  return graph ? withPrerequisiteUnits(resolved, documents, graph) : resolved;
 }
 
 // ---------------------------------------------------------------------------
@@ -255,20 +422,54 @@ export async function generateCoursePlan(
 
 export type EditPlanResult = {
   updatedPlan: CoursePlan;
-  updatedBookAnalysis?: BookAnalysis;
+  updatedDocument?: BookAnalysis; // the document spans were added from
   explanation: string;
 };
 
 export async function editCoursePlan(opts: {
   currentPlan: CoursePlan;
   userInstruction: string;
-  bookAnalysis: BookAnalysis;
+  documents: BookAnalysis[];
   messages: ConversationMessage[];
   userId: string;
-  extractedPages?: string[] | null;
+  documentId?: string; // document the included spans belong to
+  extractedPages?: string[] | null; // pages of that document
+  includeSpans?: number[]; // indices into the document's uncoveredSpans to add to the plan
 }): Promise<EditPlanResult> {
-  const { currentPlan, userInstruction, bookAnalysis, messages, userId, extractedPages } = opts;
+  const { currentPlan, userInstruction, documents, messages, userId, extractedPages } = opts;
   const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+  const bookAnalysis = findDocument(documents, opts.documentId);
+  const selectedSpans = (opts.includeSpans ?? [])
+    .map((index) => bookAnalysis?.uncoveredSpans?.[index])
+    .filter((span): span is UncoveredSpan => Boolean(span));
+  const withDocument = (updated: BookAnalysis) =>
+    documents.map((doc) => (doc === bookAnalysis ? updated : doc));
+
+  if (!hasApiKey && bookAnalysis && selectedSpans.length) {
+    // Fallback: one unit per added span, appended to the plan
+    const added = spansToChapters(selectedSpans, bookAnalysis, extractedPages);
+    const updatedBookAnalysis: BookAnalysis = {
+      ...bookAnalysis,
+      chapters: [...bookAnalysis.chapters, ...added],
+      uncoveredSpans: withoutSpans(bookAnalysis, selectedSpans)
+    };
+    const units = [
+      ...currentPlan.units,
+      ...added.map((ch, i) => ({
+        unitNumber: currentPlan.units.length + i + 1,
+        title: ch.title,
+        summary: ch.summary,
+        objectives: [],
+        sourceChapters: [{ documentId: bookAnalysis.documentId, chapterNumber: ch.chapterNumber }],
+        estimatedMinutes: ch.estimatedReadingMinutes
+      }))
+    ];
+    return {
+      updatedPlan: resolveSourcePages({ ...currentPlan, units }, withDocument(updatedBookAnalysis)),
+      updatedDocument: updatedBookAnalysis,
+      explanation: `Added ${added.map((ch) => `"${ch.title}"`).join(", ")} to the end of the plan.`
+    };
+  }
 
   if (!hasApiKey) {
     return {
@@ -278,122 +479,128 @@ export async function editCoursePlan(opts: {
   }
 
   const docs = await loadUserStateDocs(userId);
-  const looksLikeMissingContent =
-    /miss|last chapter|missing|forgot|left out|not included|cut off|incomplete/i.test(userInstruction);
 
-  // If the user reports missing content AND we have raw pages, do a two-step flow
-  if (looksLikeMissingContent && extractedPages?.length) {
-    const lastChapter = bookAnalysis.chapters[bookAnalysis.chapters.length - 1];
-    const lastDetectedPage = lastChapter ? lastChapter.endPage : 0;
+  // The learner picked uncovered spans to add — identify the chapters in them
+  if (bookAnalysis && selectedSpans.length && extractedPages?.length) {
     const totalPages = bookAnalysis.totalPages;
+    const perSpanChars = Math.floor(12000 / selectedSpans.length); // cap to avoid token overflow
+    const uncoveredText = selectedSpans
+      .map((span) =>
+        [
+          `--- Pages ${span.startPage + 1}-${span.endPage + 1} (${span.kind}) ---`,
+          extractedPages
+            .slice(span.startPage, span.endPage + 1)
+            .join("\n---PAGE BREAK---\n")
+            .slice(0, perSpanChars)
+        ].join("\n")
+      )
+      .join("\n\n");
+    const ranges = selectedSpans
+      .map((span) => `${span.startPage + 1}-${span.endPage + 1}`)
+      .join(", ");
 
-    if (lastDetectedPage < totalPages - 1) {
-      // There are uncovered pages — ask the LLM to identify what's there
-      const uncoveredText = extractedPages
-        .slice(lastDetectedPage + 1)
-        .join("\n---PAGE BREAK---\n")
-        .slice(0, 12000); // cap to avoid token overflow
-
-      const { object: discovery } = await generateObject({
-        model: getModel(),
-        system: [
-          "You are analyzing pages from a book that were not covered by the initial chapter detection.",
-          `The book has ${totalPages} pages. The last detected chapter ends at page ${lastDetectedPage + 1}.`,
-          `Pages ${lastDetectedPage + 2} through ${totalPages} were not included in any chapter.`,
-          "Identify the chapter(s) present in these pages."
-        ].join("\n"),
-        prompt: [
-          "Uncovered page text:",
-          uncoveredText,
-          "",
-          "Identify the chapter title, a brief summary, key concepts, learning objectives, and the approximate page range."
-        ].join("\n"),
-        temperature: 0.2,
-        schema: z.object({
-          chapters: z.array(
-            z.object({
-              title: z.string(),
-              summary: z.string(),
-              keyConcepts: z.array(z.string()),
-              learningObjectives: z.array(z.string()),
-              startPage: z.number().describe("0-indexed start page"),
-              endPage: z.number().describe("0-indexed end page")
-            })
-          )
-        })
-      });
-
-      // Build updated book analysis with newly discovered chapters
-      const updatedBookAnalysis: BookAnalysis = {
-        ...bookAnalysis,
-        chapters: [
-          ...bookAnalysis.chapters,
-          ...discovery.chapters.map((ch, i) => ({
-            chapterNumber: bookAnalysis.chapters.length + i + 1,
-            title: ch.title,
-            startPage: ch.startPage,
-            endPage: ch.endPage,
-            summary: ch.summary,
-            keyConcepts: ch.keyConcepts,
-            learningObjectives: ch.learningObjectives,
-            prerequisites: [] as string[],
-            estimatedReadingMinutes: Math.round(
-              ((ch.endPage - ch.startPage + 1) / totalPages) * 120
-            )
-          }))
-        ]
-      };
-
-      // Now update the plan to incorporate the new chapters
-      const { object: editedPlan } = await generateObject({
-        model: getModel(),
-        system: [
-          "You edit course plans. The user reported missing content. New chapters have been discovered.",
-          `Learner profile:\n${docs.profile.content}`,
-          `Learning preferences:\n${docs.preferences.content}`,
-          "",
-          "Add units for the newly discovered chapters. Preserve all existing units exactly as they are.",
-          "Renumber units if needed so they are sequential."
-        ].join("\n"),
-        prompt: [
-          `User instruction: "${userInstruction}"`,
-          "",
-          `Current plan:\n${JSON.stringify(currentPlan, null, 2)}`,
-          "",
-          `Newly discovered chapters:\n${JSON.stringify(discovery.chapters, null, 2)}`,
-          "",
-          "Return the full updated plan with new units added, plus a short explanation of what changed."
-        ].join("\n"),
-        temperature: 0.2,
-        schema: z.object({
-          title: z.string(),
-          description: z.string(),
-          estimatedHours: z.number(),
-          units: z.array(
-            z.object({
-              unitNumber: z.number(),
-              title: z.string(),
-              summary: z.string(),
-              objectives: z.array(z.string()),
-              sourceChapters: z.array(z.number()),
-              estimatedMinutes: z.number()
-            })
-          ),
-          explanation: z.string()
-        })
-      });
+    const { object: discovery } = await generateObject({
+      model: getModel(),
+      system: [
+        `You are analyzing pages from "${bookAnalysis.title}" that were not covered by the initial chapter detection.`,
+        `The document has ${totalPages} pages. The learner asked to add these uncovered page ranges: ${ranges}.`,
+        "Identify the chapter(s) present in these pages."
+      ].join("\n"),
+      prompt: [
+        "Uncovered page text:",
+        uncoveredText,
+        "",
+        "Identify the chapter title, a brief summary, key concepts, learning objectives, and the approximate page range."
+      ].join("\n"),
+      temperature: 0.2,
+      schema: z.object({
+        chapters: z.array(
+          z.object({
+            title: z.string(),
+            summary: z.string(),
+            keyConcepts: z.array(z.string()),
+            learningObjectives: z.array(z.string()),
+            startPage: z.number().describe("0-indexed start page"),
+            endPage: z.number().describe("0-indexed end page")
+          })
+        )
+      })
+    });
 
-      return {
-        updatedPlan: {
+    // Build updated book analysis with newly discovered chapters
+    const updatedBookAnalysis: BookAnalysis = {
+      ...bookAnalysis,
+      chapters: [
+        ...bookAnalysis.chapters,
+        ...discovery.chapters.map((ch, i) => ({
+          chapterNumber: bookAnalysis.chapters.length + i + 1,
+          title: ch.title,
+          startPage: ch.startPage,
+          endPage: ch.endPage,
+          startPageLabel: pageLabelFor(bookAnalysis, ch.startPage),
+          endPageLabel: pageLabelFor(bookAnalysis, ch.endPage),
+          summary: ch.summary,
+          keyConcepts: ch.keyConcepts,
+          learningObjectives: ch.learningObjectives,
+          prerequisites: [] as string[],
+          ...measureReading(extractedPages.slice(ch.startPage, ch.endPage + 1))
+        }))
+      ],
+      uncoveredSpans: withoutSpans(bookAnalysis, selectedSpans)
+    };
+
+    // Now update the plan to incorporate the new chapters
+    const { object: editedPlan } = await generateObject({
+      model: getModel(),
+      system: [
+        `You edit course plans. The learner asked to add pages of document ${bookAnalysis.documentId ?? "doc_1"} the plan did not cover. New chapters have been discovered.`,
+        `Learner profile:\n${docs.profile.content}`,
+        `Learning preferences:\n${docs.preferences.content}`,
+        "",
+        "Add units for the newly discovered chapters. Preserve all existing units exactly as they are.",
+        "Renumber units if needed so they are sequential."
+      ].join("\n"),
+      prompt: [
+        `User instruction: "${userInstruction}"`,
+        "",
+        `Current plan:\n${JSON.stringify(currentPlan, null, 2)}`,
+        "",
+        `Newly discovered chapters (numbered from ${bookAnalysis.chapters.length + 1}):\n${JSON.stringify(discovery.chapters, null, 2)}`,
+        "",
+        "Return the full updated plan with new units added, plus a short explanation of what changed."
+      ].join("\n"),
+      temperature: 0.2,
+      schema: z.object({
+        title: z.string(),
+        description: z.string(),
+        estimatedHours: z.number(),
+        units: z.array(
+          z.object({
+            unitNumber: z.number(),
+            title: z.string(),
+            summary: z.string(),
+            objectives: z.array(z.string()),
+            sourceChapters: z.array(sourceChapterRefSchema),
+            estimatedMinutes: z.number()
+          })
+        ),
+        explanation: z.string()
+      })
+    });
+
+    return {
+      updatedPlan: resolveSourcePages(
+        {
           title: editedPlan.title,
           description: editedPlan.description,
           estimatedHours: editedPlan.estimatedHours,
           units: editedPlan.units
         },
-        updatedBookAnalysis,
-        explanation: editedPlan.explanation
-      };
-    }
+        withDocument(updatedBookAnalysis)
+      ),
+      updatedDocument: updatedBookAnalysis,
+      explanation: editedPlan.explanation
+    };
   }
 
   // Standard edit: single generateObject call
@@ -409,6 +616,7 @@ export async function editCoursePlan(opts: {
       "- Keep unit numbers sequential.",
       "- If splitting a unit, create two new units with appropriate content.",
       "- If removing a unit, renumber the remaining units.",
+      "- Units cannot reference pages listed as not in any chapter; if asked for them, say they can be added from the list of uncovered pages.",
       "- Provide a brief, conversational explanation (1-3 sentences, no bullet points) of what you changed."
     ].join("\n"),
     prompt: [
@@ -416,7 +624,7 @@ export async function editCoursePlan(opts: {
       "",
       `Current plan:\n${JSON.stringify(currentPlan, null, 2)}`,
       "",
-      `Book analysis summary:\n${compactBookSummary(bookAnalysis)}`,
+      `Document analyses:\n${compactCourseSummary(documents)}`,
       "",
       "Return the full updated plan with the requested changes applied. Keep the explanation brief and friendly."
     ].join("\n"),
@@ -431,7 +639,7 @@ export async function editCoursePlan(opts: {
           title: z.string(),
           summary: z.string(),
           objectives: z.array(z.string()),
-          sourceChapters: z.array(z.number()),
+          sourceChapters: z.array(sourceChapterRefSchema),
           estimatedMinutes: z.number()
         })
       ),
@@ -440,12 +648,15 @@ export async function editCoursePlan(opts: {
   });
 
   return {
-    updatedPlan: {
-      title: editedPlan.title,
-      description: editedPlan.description,
-      estimatedHours: editedPlan.estimatedHours,
-      units: editedPlan.units
-    },
+    updatedPlan: resolveSourcePages(
+      {
+        title: editedPlan.title,
+        description: editedPlan.description,
+        estimatedHours: editedPlan.estimatedHours,
+        units: editedPlan.units
+      },
+      documents
+    ),
     explanation: editedPlan.explanation
   };
 }
@@ -459,5 +670,8 @@ export async function finalizeCoursePlan(
   courseId: string,
   plan: CoursePlan
 ) {
-  return saveCoursePlan(userId, courseId, plan);
+  const saved = await saveCoursePlan(userId, courseId, plan);
+  // The course moves from the builder into the library
+  await updateCourseRecord(userId, courseId, { status: "active" });
+  return saved;
 }
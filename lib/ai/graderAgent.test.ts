@@ -0,0 +1,210 @@
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  listSubmissions,
+  saveAssessment,
+  type Assessment,
+  type AssessmentQuestion
+} from "@/lib/state/courseFiles";
+import { writeOnboardingState } from "@/lib/state/onboarding";
+import { gradeSubmission, keywordVerdicts } from "./graderAgent";
+
+function question(overrides: Partial<AssessmentQuestion> = {}): AssessmentQuestion {
+  return {
+    id: "q1",
+    questionOrder: 1,
+    questionType: "free_form",
+    prompt: "Why does a limit exist here?",
+    answerKey: { modelAnswer: "Both one-sided limits agree.", rubric: [] },
+    conceptTags: [],
+    points: 2,
+    citations: [{ startPage: 36, endPage: 38, label: "pp. 37-39" }],
+    ...overrides
+  };
+}
+
+describe("keywordVerdicts", () => {
+  it("checks the concepts a rubric point names", () => {
+    const limits = question({
+      conceptTags: ["One-sided limit", "Continuity"],
+      answerKey: {
+        modelAnswer: "",
+        rubric: ["Uses one-sided limits", "Links continuity and one-sided limits"]
+      }
+    });
+
+    expect(keywordVerdicts(limits, "Both one-sided limits agree, so it is continuous")).toEqual([
+      "yes",
+      "partly"
+    ]);
+    expect(keywordVerdicts(limits, "The one-sided limit matches and continuity holds")).toEqual([
+      "yes",
+      "yes"
+    ]);
+    expect(keywordVerdicts(limits, "The graph has no hole")).toEqual(["no", "no"]);
+  });
+
+  it("otherwise counts the content words of the point the answer uses", () => {
+    const derivative = question({
+      answerKey: {
+        modelAnswer: "",
+        rubric: ["Should explain the slope of the tangent line at the point"]
+      }
+    });
+
+    expect(keywordVerdicts(derivative, "It is the tangent slope at that point")).toEqual(["yes"]);
+    expect(keywordVerdicts(derivative, "The slope of the line")).toEqual(["partly"]);
+    expect(keywordVerdicts(derivative, "Explain it, which should be correct")).toEqual(["no"]);
+  });
+
+  it("grades against the model answer when there is no rubric", () => {
+    const limits = question({
+      answerKey: { modelAnswer: "Both one-sided limits agree at the point.", rubric: [] }
+    });
+
+    expect(keywordVerdicts(limits, "The one-sided limits agree at the point")).toEqual(["yes"]);
+    expect(keywordVerdicts(limits, "")).toEqual(["no"]);
+  });
+});
+
+describe("gradeSubmission", () => {
+  const userId = "learner";
+  const courseId = "course_1";
+  let stateDir = "";
+
+  const mcq = question({
+    id: "q1",
+    questionType: "mcq",
+    prompt: "Which limit is infinite?",
+    choices: ["1/x as x → 0+", "x as x → 0", "x² as x → 1"],
+    answerKey: { correctChoice: 0, modelAnswer: "1/x grows without bound.", rubric: [] },
+    conceptTags: ["Infinite limit"],
+    points: 1
+  });
+  const freeForm = question({
+    id: "q2",
+    questionOrder: 2,
+    conceptTags: ["One-sided limit", "Continuity"],
+    answerKey: {
+      modelAnswer: "The one-sided limits agree, so the function is continuous there.",
+      rubric: ["Uses one-sided limits", "Concludes continuity"]
+    },
+    points: 3
+  });
+
+  async function grade(
+    id: string,
+    questions: AssessmentQuestion[],
+    answers: Parameters<typeof gradeSubmission>[3]
+  ) {
+    const assessment: Assessment = {
+      id,
+      courseId,
+      unitNumber: 1,
+      unitNumbers: [1],
+      kind: "quiz",
+      title: "Unit 1 quiz",
+      totalPoints: questions.reduce((sum, q) => sum + q.points, 0),
+      unlockThreshold: 0.7,
+      questions,
+      version: 1,
+      createdAt: "2026-01-01T00:00:00.000Z"
+    };
+    await saveAssessment(userId, assessment);
+    return gradeSubmission(userId, courseId, id, answers);
+  }
+
+  beforeAll(async () => {
+    stateDir = await mkdtemp(path.join(os.tmpdir(), "grader-"));
+    vi.stubEnv("BOOK_QUEST_STATE_DIR", stateDir);
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("scores multiple choice against the answer key", async () => {
+    const right = await grade("mcq-right", [mcq], [{ questionId: "q1", choice: 0 }]);
+    const wrong = await grade("mcq-wrong", [mcq], [{ questionId: "q1", choice: 2 }]);
+    const blank = await grade("mcq-blank", [mcq], []);
+
+    expect(right.answers[0]).toMatchObject({
+      isCorrect: true,
+      pointsAwarded: 1,
+      gradedBy: "answer_key"
+    });
+    expect(right.score).toBe(1);
+    expect(wrong.answers[0]).toMatchObject({
+      isCorrect: false,
+      pointsAwarded: 0,
+      gradedBy: "answer_key"
+    });
+    expect(wrong.score).toBe(0);
+    expect(blank.answers[0].feedback).toMatch(/^No answer was given\./);
+  });
+
+  it("words multiple-choice feedback in the learner's correction style", async () => {
+    await writeOnboardingState(userId, { correctionStyle: "socratic" });
+    const socratic = await grade("mcq-socratic", [mcq], [{ questionId: "q1", choice: 1 }]);
+    await writeOnboardingState(userId, { correctionStyle: "direct" });
+    const direct = await grade("mcq-direct", [mcq], [{ questionId: "q1", choice: 1 }]);
+    await writeOnboardingState(userId, {});
+
+    expect(socratic.answers[0].feedback).toContain("Reread pp. 37-39");
+    expect(socratic.answers[0].feedback).not.toContain("1/x as x → 0+");
+    expect(direct.answers[0].feedback).toContain('The answer is "1/x as x → 0+"');
+  });
+
+  it("grades free-form answers by keywords without a model, in half points", async () => {
+    const submission = await grade(
+      "mixed",
+      [mcq, freeForm],
+      [
+        { questionId: "q1", choice: 0 },
+        { questionId: "q2", text: "The one-sided limits agree." }
+      ]
+    );
+
+    expect(submission.answers[1]).toMatchObject({
+      gradedBy: "keywords",
+      isCorrect: false,
+      pointsAwarded: 1.5
+    });
+    expect(submission.pointsAwarded).toBe(2.5);
+    expect(submission.score).toBe(0.625);
+    expect(await listSubmissions(userId, courseId, "mixed")).toEqual([submission]);
+  });
+
+  it("keeps the exact share so a score just under the threshold does not pass", async () => {
+    const submission = await grade(
+      "near-miss",
+      [
+        { ...mcq, points: 16 },
+        { ...mcq, id: "q2", questionOrder: 2, points: 7 }
+      ],
+      [
+        { questionId: "q1", choice: 0 },
+        { questionId: "q2", choice: 1 }
+      ]
+    );
+
+    expect(submission.score).toBe(16 / 23);
+    expect(submission.score).toBeLessThan(0.7);
+  });
+
+  it("gives no credit for a blank free-form answer", async () => {
+    const submission = await grade("blank", [freeForm], [{ questionId: "q2", text: "   " }]);
+
+    expect(submission.answers[0]).toMatchObject({
+      response: {},
+      pointsAwarded: 0,
+      gradedBy: "answer_key"
+    });
+    expect(submission.score).toBe(0);
+  });
+});
@@ -0,0 +1,322 @@
+import { randomUUID } from "crypto";
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "./model";
+import { readUserStateDoc } from "@/lib/state/userState";
+import { readOnboardingState, type CorrectionStyle } from "@/lib/state/onboarding";
+import {
+  readAssessment,
+  saveSubmission,
+  type AnswerResponse,
+  type AssessmentQuestion,
+  type AssessmentSubmission,
+  type GradingMethod,
+  type SubmissionAnswer
+} from "@/lib/state/courseFiles";
+import { conceptKey } from "@/lib/pdf/conceptIndex";
+
+export type SubmittedAnswer = AnswerResponse & { questionId: string };
+
+// Credit for a rubric point the answer makes fully, partly or not at all
+const VERDICT_CREDIT = { yes: 1, partly: 0.5, no: 0 } as const;
+type Verdict = keyof typeof VERDICT_CREDIT;
+
+// Words that say nothing about the content of a rubric point
+const RUBRIC_FILLER = new Set(
+  (
+    "about answer because between correct correctly describe explain idea mention " +
+    "should their there these using which would"
+  ).split(" ")
+);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function citationLabels(question: AssessmentQuestion) {
+  return question.citations.map((citation) => citation.label).join("; ");
+}
+
+function words(text: string) {
+  return new Set(conceptKey(text).split(" ").map(conceptKey).filter(Boolean));
+}
+
+// Half points at most, so partial credit stays readable
+function awardedPoints(question: AssessmentQuestion, credit: number) {
+  return Math.round(question.points * Math.min(1, Math.max(0, credit)) * 2) / 2;
+}
+
+function gradedAnswer(
+  question: AssessmentQuestion,
+  response: AnswerResponse,
+  credit: number,
+  feedback: string,
+  gradedBy: GradingMethod
+): SubmissionAnswer {
+  const pointsAwarded = awardedPoints(question, credit);
+  return {
+    questionId: question.id,
+    response,
+    gradedBy,
+    isCorrect: pointsAwarded === question.points,
+    pointsAwarded,
+    feedback,
+    citations: question.citations
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Feedback — direct gives the answer, socratic asks a question that leads back
+// to the pages, mixed asks first and then gives the answer
+// ---------------------------------------------------------------------------
+
+function correctFeedback(question: AssessmentQuestion) {
+  return `Correct. ${question.answerKey.modelAnswer} (${citationLabels(question)})`;
+}
+
+function mcqFeedback(question: AssessmentQuestion, style: CorrectionStyle) {
+  const answer = question.choices?.[question.answerKey.correctChoice ?? -1] ?? "";
+  const topic = question.conceptTags[0] ?? "this idea";
+  const pages = citationLabels(question);
+  const hint = `Reread ${pages}: what does it say about ${topic}, and which choice matches that?`;
+  const reveal = `The answer is "${answer}". ${question.answerKey.modelAnswer} (${pages})`;
+  if (style === "socratic") return `Not quite. ${hint}`;
+  if (style === "direct") return `Not quite. ${reveal}`;
+  return `Not quite. ${hint} ${reveal}`;
+}
+
+function freeFormFeedback(
+  question: AssessmentQuestion,
+  style: CorrectionStyle,
+  missed: string[],
+  credit: number
+) {
+  if (!missed.length) return correctFeedback(question);
+  const opening = credit > 0 ? "Partly there." : "Not yet.";
+  const pages = citationLabels(question);
+  const hint = `Look again at ${pages}. Does your answer cover: ${missed.join("; ")}?`;
+  const reveal = `A full answer: ${question.answerKey.modelAnswer} (${pages})`;
+  if (style === "socratic") return `${opening} ${hint}`;
+  if (style === "direct") return `${opening} Missing: ${missed.join("; ")}. ${reveal}`;
+  return `${opening} ${hint} ${reveal}`;
+}
+
+// ---------------------------------------------------------------------------
+// Grading
+// ---------------------------------------------------------------------------
+
+// MCQs are scored against the answer key, never by the model
+function gradeMcq(
+  question: AssessmentQuestion,
+  response: AnswerResponse,
+  style: CorrectionStyle
+): SubmissionAnswer {
+  if (response.choice === undefined) {
+    return gradedAnswer(
+      question,
+      response,
+      0,
+      `No answer was given. ${mcqFeedback(question, style)}`,
+      "answer_key"
+    );
+  }
+  return response.choice === question.answerKey.correctChoice
+    ? gradedAnswer(question, response, 1, correctFeedback(question), "answer_key")
+    : gradedAnswer(question, response, 0, mcqFeedback(question, style), "answer_key");
+}
+
+// The points a free-form answer is graded against; the model answer when there is no rubric
+function rubricPoints(question: AssessmentQuestion) {
+  return question.answerKey.rubric.length
+    ? question.answerKey.rubric
+    : [question.answerKey.modelAnswer];
+}
+
+function gradeFreeFormWithVerdicts(
+  question: AssessmentQuestion,
+  response: AnswerResponse,
+  verdicts: Verdict[],
+  style: CorrectionStyle,
+  gradedBy: GradingMethod
+) {
+  const points = rubricPoints(question);
+  const credit =
+    points.reduce((sum, _, i) => sum + VERDICT_CREDIT[verdicts[i] ?? "no"], 0) / points.length;
+  const missed = points.filter((_, i) => verdicts[i] !== "yes");
+  return gradedAnswer(
+    question,
+    response,
+    credit,
+    freeFormFeedback(question, style, missed, credit),
+    gradedBy
+  );
+}
+
+// Fallback (no API key, or the model failed): a rubric point is made when the
+// answer names the concepts it mentions, or most of its other content words
+export function keywordVerdicts(question: AssessmentQuestion, text: string): Verdict[] {
+  const answer = words(text);
+  const answerKey = conceptKey(text);
+  return rubricPoints(question).map((point) => {
+    const pointKey = conceptKey(point);
+    const concepts = question.conceptTags
+      .map(conceptKey)
+      .filter((tag) => tag && pointKey.includes(tag));
+    if (concepts.length) {
+      const named = concepts.filter((tag) => answerKey.includes(tag)).length;
+      return named === concepts.length ? "yes" : named ? "partly" : "no";
+    }
+    const keywords = Array.from(words(point)).filter(
+      (word) => word.length >= 4 && !RUBRIC_FILLER.has(word)
+    );
+    if (!keywords.length) return "no";
+    const share = keywords.filter((word) => answer.has(word)).length / keywords.length;
+    return share >= 0.6 ? "yes" : share >= 0.3 ? "partly" : "no";
+  });
+}
+
+function gradeFreeFormByKeywords(
+  question: AssessmentQuestion,
+  response: AnswerResponse,
+  style: CorrectionStyle
+) {
+  const verdicts = keywordVerdicts(question, response.text ?? "");
+  return gradeFreeFormWithVerdicts(question, response, verdicts, style, "keywords");
+}
+
+const gradeSchema = z.object({
+  questionId: z.string(),
+  verdicts: z
+    .array(z.enum(["yes", "partly", "no"]))
+    .describe("One verdict per rubric point, in the order given"),
+  feedback: z.string()
+});
+
+async function gradeFreeFormWithModel(
+  userId: string,
+  questions: Array<{ question: AssessmentQuestion; response: AnswerResponse }>,
+  style: CorrectionStyle
+): Promise<SubmissionAnswer[]> {
+  const [profile, persona] = await Promise.all([
+    readUserStateDoc(userId, "PROFILE"),
+    readUserStateDoc(userId, "TUTOR_PERSONA")
+  ]);
+
+  let grades: z.infer<typeof gradeSchema>[];
+  try {
+    const { object } = await generateObject({
+      model: getModel(),
+      system: [
+        "You grade the learner's free-form answers against each question's rubric.",
+        `Learner profile:\n${profile.content}`,
+        `Tutor persona:\n${persona.content}`,
+        "",
+        "Rules:",
+        "- Judge each rubric point on its own: yes if the answer makes it, partly if it is incomplete or imprecise, no otherwise.",
+        "- Credit correct ideas in the learner's own words; do not require the model answer's wording.",
+        "- Feedback names what the answer got right, then what it missed, and points to the cited pages by their labels.",
+        style === "direct"
+          ? "- Correction style is direct: state what is wrong and give the correct idea."
+          : style === "socratic"
+            ? "- Correction style is socratic: do not give the answer away; ask one or two questions that lead the learner back to the pages."
+            : "- Correction style is mixed: ask one guiding question, then give the correct idea.",
+        "- Address the learner as the tutor persona would, in 2-4 sentences."
+      ].join("\n"),
+      prompt: questions
+        .map(({ question, response }) =>
+          [
+            `Question ${question.id} (${question.points} points): ${question.prompt}`,
+            `Rubric:\n${rubricPoints(question)
+              .map((point, i) => `${i + 1}. ${point}`)
+              .join("\n")}`,
+            `Model answer: ${question.answerKey.modelAnswer}`,
+            `Cited pages: ${citationLabels(question)}`,
+            `Learner's answer: ${response.text?.trim() || "(no answer)"}`
+          ].join("\n")
+        )
+        .join("\n\n"),
+      temperature: 0.2,
+      schema: z.object({ grades: z.array(gradeSchema) })
+    });
+    grades = object.grades;
+  } catch {
+    // The submission is still graded and saved, by keyword match
+    grades = [];
+  }
+
+  return questions.map(({ question, response }) => {
+    const grade = grades.find((g) => g.questionId === question.id);
+    // Questions the model skipped are graded like the fallback does
+    if (!grade) return gradeFreeFormByKeywords(question, response, style);
+    const graded = gradeFreeFormWithVerdicts(question, response, grade.verdicts, style, "model");
+    return { ...graded, feedback: grade.feedback.trim() || graded.feedback };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Grade submission
+// ---------------------------------------------------------------------------
+
+export async function gradeSubmission(
+  userId: string,
+  courseId: string,
+  assessmentId: string,
+  submitted: SubmittedAnswer[]
+): Promise<AssessmentSubmission> {
+  const assessment = await readAssessment(userId, courseId, assessmentId);
+  if (!assessment) throw new Error("Assessment not found.");
+
+  const submittedAt = new Date().toISOString();
+  const style = (await readOnboardingState(userId)).correctionStyle ?? "mixed";
+  const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+
+  const responses = assessment.questions.map((question) => {
+    const answer = submitted.find((a) => a.questionId === question.id);
+    const response: AnswerResponse = {
+      ...(answer?.choice !== undefined ? { choice: answer.choice } : {}),
+      ...(answer?.text?.trim() ? { text: answer.text.trim() } : {})
+    };
+    return { question, response };
+  });
+
+  const freeForm = responses.filter(
+    ({ question, response }) => question.questionType === "free_form" && response.text
+  );
+  const modelGrades =
+    hasApiKey && freeForm.length ? await gradeFreeFormWithModel(userId, freeForm, style) : [];
+
+  const answers = responses.map(({ question, response }) => {
+    if (question.questionType === "mcq") return gradeMcq(question, response, style);
+    if (!response.text) {
+      return gradedAnswer(
+        question,
+        response,
+        0,
+        freeFormFeedback(question, style, rubricPoints(question), 0),
+        "answer_key"
+      );
+    }
+    return (
+      modelGrades.find((grade) => grade.questionId === question.id) ??
+      gradeFreeFormByKeywords(question, response, style)
+    );
+  });
+
+  const pointsAwarded = answers.reduce((sum, answer) => sum + answer.pointsAwarded, 0);
+  const submission: AssessmentSubmission = {
+    id: `submission_${randomUUID()}`,
+    assessmentId: assessment.id,
+    courseId,
+    status: "graded",
+    // Unrounded, so a share just under the unlock threshold cannot round up to it
+    score: assessment.totalPoints ? pointsAwarded / assessment.totalPoints : 0,
+    pointsAwarded,
+    totalPoints: assessment.totalPoints,
+    answers,
+    submittedAt,
+    gradedAt: new Date().toISOString(),
+    createdAt: submittedAt
+  };
+  await saveSubmission(userId, submission);
+  return submission;
+}
@@ -0,0 +1,390 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "./model";
+import { readUserStateDoc } from "@/lib/state/userState";
+import { readOnboardingState } from "@/lib/state/onboarding";
+import { readCoursePlan, readUnitLesson, saveUnitLesson } from "@/lib/state/courseFiles";
+import {
+  citationSchema,
+  citationsSchema,
+  definingSentence,
+  loadUnitSources,
+  pageCitation,
+  resolveCitations,
+  sourceCitation,
+  sourceConcepts,
+  sourceKey,
+  sourcesBlock,
+  type PlanUnit,
+  type SourceCitation,
+  type UnitSource
+} from "@/lib/course/unitSources";
+
+type Cited = { citations: SourceCitation[] };
+
+export type LessonParagraph = Cited & { text: string };
+export type LessonKeyTerm = Cited & { term: string; definition: string };
+export type LessonWorkedExample = Cited & {
+  title: string;
+  problem: string;
+  steps: string[];
+  solution: string;
+};
+export type LessonCheck = Cited & {
+  prompt: string; // check-for-understanding question
+  answer: string; // what a good answer covers
+};
+
+export type LessonSection = {
+  sectionNumber: number;
+  title: string;
+  paragraphs: LessonParagraph[];
+  keyTerms: LessonKeyTerm[];
+  workedExamples: LessonWorkedExample[];
+  checks: LessonCheck[];
+  generatedAt: string;
+};
+
+export type UnitLesson = {
+  unitNumber: number;
+  title: string;
+  introduction: string;
+  sections: LessonSection[];
+  sources: SourceCitation[]; // the unit's source ranges
+  sourceKey: string; // the unit's sourceChapters when generated; a change makes the lesson stale
+  promptVersion: number;
+  generatedAt: string;
+  fallback?: boolean; // built from the source text because the model call failed
+};
+
+// Bump when the lesson prompt or schema changes; cached lessons are then regenerated
+export const LESSON_PROMPT_VERSION = 1;
+
+// Source text sent to the model for one lesson; longer units are trimmed page by page
+const MAX_LESSON_SOURCE_CHARS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Lessons the model failed to write are retried once a key is set
+export function isLessonStale(lesson: UnitLesson, unit: PlanUnit) {
+  const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+  return (
+    lesson.promptVersion !== LESSON_PROMPT_VERSION ||
+    lesson.sourceKey !== sourceKey(unit.sourceChapters) ||
+    (hasApiKey && lesson.fallback === true)
+  );
+}
+
+async function loadLessonContext(userId: string, courseId: string, unitNumber: number) {
+  const { units, sources } = await loadUnitSources(userId, courseId, [unitNumber]);
+  return { unit: units[0], sources };
+}
+
+async function loadLearnerDocs(userId: string) {
+  const [profile, preferences, persona] = await Promise.all([
+    readUserStateDoc(userId, "PROFILE"),
+    readUserStateDoc(userId, "PREFERENCES"),
+    readUserStateDoc(userId, "TUTOR_PERSONA")
+  ]);
+  return { profile, preferences, persona };
+}
+
+const sectionSchema = z.object({
+  title: z.string(),
+  paragraphs: z.array(z.object({ text: z.string(), citations: citationsSchema })),
+  keyTerms: z.array(
+    z.object({ term: z.string(), definition: z.string(), citations: citationsSchema })
+  ),
+  workedExamples: z.array(
+    z.object({
+      title: z.string(),
+      problem: z.string(),
+      steps: z.array(z.string()),
+      solution: z.string(),
+      citations: citationsSchema
+    })
+  ),
+  checks: z.array(z.object({ prompt: z.string(), answer: z.string(), citations: citationsSchema }))
+});
+
+type GeneratedSection = z.infer<typeof sectionSchema>;
+
+function toLessonSection(
+  section: GeneratedSection,
+  sectionNumber: number,
+  sources: UnitSource[]
+): LessonSection {
+  const cite = <T extends { citations: z.infer<typeof citationSchema>[] }>(item: T) => ({
+    ...item,
+    citations: resolveCitations(item.citations, sources)
+  });
+  return {
+    sectionNumber,
+    title: section.title,
+    paragraphs: section.paragraphs.filter((p) => p.text.trim()).map(cite),
+    keyTerms: section.keyTerms.map(cite),
+    workedExamples: section.workedExamples.map(cite),
+    checks: section.checks.map(cite),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+function lessonSystemPrompt(docs: Awaited<ReturnType<typeof loadLearnerDocs>>) {
+  return [
+    "You ARE the learner's Book Quest tutor, writing a lesson for one unit of their course.",
+    `Tutor persona:\n${docs.persona.content}`,
+    "",
+    `Learner profile:\n${docs.profile.content}`,
+    "",
+    `Learning preferences:\n${docs.preferences.content}`,
+    "",
+    "Rules:",
+    "- Teach from the source pages only; do not add material the sources do not support.",
+    "- Every paragraph, key term, worked example and check cites the source pages it is based on, using the [Sn Page N] markers.",
+    "- Match the explanation depth, challenge level and examples to the learner's preferences and interests.",
+    "- Worked examples come from the sources where they have them; otherwise build one on the source's method and cite where the method is explained.",
+    "- Checks for understanding are short questions the learner can answer from the section, with what a good answer covers."
+  ].join("\n");
+}
+
+function unitBlock(unit: PlanUnit) {
+  return [
+    `Unit ${unit.unitNumber}: ${unit.title}`,
+    `Summary: ${unit.summary}`,
+    `Objectives:\n${unit.objectives.map((o) => `- ${o}`).join("\n")}`
+  ].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Fallback lesson (no API key) — excerpts of the source pages, with the
+// chapter's key concepts and the unit's objectives as checks
+// ---------------------------------------------------------------------------
+
+function sourceParagraphs(source: UnitSource) {
+  return source.pages.flatMap((text, i) =>
+    text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .map((paragraph) => ({ text: paragraph, page: source.startPage + i }))
+  );
+}
+
+function fallbackSection(
+  source: UnitSource,
+  sectionNumber: number,
+  objectives: string[],
+  paragraphCount: number
+): LessonSection {
+  const paragraphs = sourceParagraphs(source);
+  const cite = (page: number) => [pageCitation(source.document, page, page)];
+
+  const keyTerms = sourceConcepts(source).flatMap(({ name, page }) => {
+    const sentence = definingSentence(source, name, page);
+    return sentence ? [{ term: name, definition: sentence, citations: cite(page) }] : [];
+  });
+
+  const workedExamples = paragraphs.flatMap((paragraph, i) => {
+    if (!/^(worked )?example\b/i.test(paragraph.text)) return [];
+    const next = paragraphs[i + 1];
+    const solution = next && /^solution\b/i.test(next.text) ? next.text : "";
+    return [
+      {
+        title: paragraph.text.split(/:|\.\s/)[0].slice(0, 80),
+        problem: paragraph.text,
+        steps: [],
+        solution,
+        citations: cite(paragraph.page)
+      }
+    ];
+  });
+
+  return {
+    sectionNumber,
+    title: source.heading,
+    paragraphs: paragraphs
+      .filter((p) => p.text.length >= 200 && !/^(worked )?example\b/i.test(p.text))
+      .slice(0, paragraphCount)
+      .map((p) => ({ text: p.text, citations: cite(p.page) })),
+    keyTerms,
+    workedExamples,
+    checks: objectives.map((objective) => ({
+      prompt: `Can you ${objective.charAt(0).toLowerCase()}${objective.slice(1).replace(/\.$/, "")}?`,
+      answer: `Review ${sourceCitation(source).label} if you are unsure.`,
+      citations: [sourceCitation(source)]
+    })),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+async function fallbackLesson(
+  userId: string,
+  unit: PlanUnit,
+  sources: UnitSource[]
+): Promise<UnitLesson> {
+  const onboarding = await readOnboardingState(userId);
+  const paragraphCount = onboarding.explanationDepth === "deep" ? 4 : 2;
+  const generatedAt = new Date().toISOString();
+
+  return {
+    unitNumber: unit.unitNumber,
+    title: unit.title,
+    introduction: unit.summary,
+    // Objectives are shared out over the sections so each ends with a check
+    sections: sources.map((source, i) =>
+      fallbackSection(
+        source,
+        i + 1,
+        unit.objectives.filter((_, j) => j % sources.length === i),
+        paragraphCount
+      )
+    ),
+    sources: sources.map(sourceCitation),
+    sourceKey: sourceKey(unit.sourceChapters),
+    promptVersion: LESSON_PROMPT_VERSION,
+    generatedAt
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Generate lesson
+// ---------------------------------------------------------------------------
+
+// Null when the model call fails
+async function modelLesson(
+  userId: string,
+  unit: PlanUnit,
+  sources: UnitSource[]
+): Promise<UnitLesson | null> {
+  const docs = await loadLearnerDocs(userId);
+  try {
+    const { object } = await generateObject({
+      model: getModel(),
+      system: lessonSystemPrompt(docs),
+      prompt: [
+        unitBlock(unit),
+        "",
+        `Source pages:\n${sourcesBlock(sources, MAX_LESSON_SOURCE_CHARS)}`,
+        "",
+        "Write the lesson: a short introduction, then sections that follow the sources in order, each with explanatory paragraphs, key-term callouts, worked examples where the material has methods to apply, and checks for understanding."
+      ].join("\n"),
+      temperature: 0.4,
+      schema: z.object({
+        introduction: z.string(),
+        sections: z.array(sectionSchema)
+      })
+    });
+
+    return {
+      unitNumber: unit.unitNumber,
+      title: unit.title,
+      introduction: object.introduction,
+      sections: object.sections.map((section, i) => toLessonSection(section, i + 1, sources)),
+      sources: sources.map(sourceCitation),
+      sourceKey: sourceKey(unit.sourceChapters),
+      promptVersion: LESSON_PROMPT_VERSION,
+      generatedAt: new Date().toISOString()
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function generateUnitLesson(
+  userId: string,
+  courseId: string,
+  unitNumber: number
+): Promise<UnitLesson> {
+  const { unit, sources } = await loadLessonContext(userId, courseId, unitNumber);
+  const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+
+  let lesson = hasApiKey ? await modelLesson(userId, unit, sources) : null;
+  if (!lesson) {
+    lesson = await fallbackLesson(userId, unit, sources);
+    if (hasApiKey) lesson.fallback = true;
+  }
+
+  await saveUnitLesson(userId, courseId, lesson);
+  return lesson;
+}
+
+// The cached lesson, or a new one when there is none or the unit's sources changed
+export async function getUnitLesson(
+  userId: string,
+  courseId: string,
+  unitNumber: number
+): Promise<UnitLesson> {
+  const [lesson, plan] = await Promise.all([
+    readUnitLesson(userId, courseId, unitNumber),
+    readCoursePlan(userId, courseId)
+  ]);
+  const unit = plan?.units.find((u) => u.unitNumber === unitNumber);
+  if (lesson && unit && !isLessonStale(lesson, unit)) return lesson;
+  return generateUnitLesson(userId, courseId, unitNumber);
+}
+
+// ---------------------------------------------------------------------------
+// Regenerate one section
+// ---------------------------------------------------------------------------
+
+export async function regenerateLessonSection(
+  userId: string,
+  courseId: string,
+  unitNumber: number,
+  sectionNumber: number,
+  instruction?: string
+): Promise<UnitLesson> {
+  const lesson = await readUnitLesson(userId, courseId, unitNumber);
+  const current = lesson?.sections.find((s) => s.sectionNumber === sectionNumber);
+  if (!lesson || !current) {
+    throw new Error(`Section ${sectionNumber} of unit ${unitNumber} has no lesson yet.`);
+  }
+
+  const { unit, sources } = await loadLessonContext(userId, courseId, unitNumber);
+  const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+
+  let section: LessonSection | null = null;
+  if (hasApiKey) {
+    const docs = await loadLearnerDocs(userId);
+    const others = lesson.sections
+      .filter((s) => s.sectionNumber !== sectionNumber)
+      .map((s) => `Section ${s.sectionNumber}: ${s.title}`);
+    try {
+      const { object } = await generateObject({
+        model: getModel(),
+        system: lessonSystemPrompt(docs),
+        prompt: [
+          unitBlock(unit),
+          "",
+          `Source pages:\n${sourcesBlock(sources, MAX_LESSON_SOURCE_CHARS)}`,
+          "",
+          `The lesson's other sections, which stay as they are:\n${others.join("\n") || "(none)"}`,
+          "",
+          `Rewrite section ${sectionNumber} "${current.title}".`,
+          `Current section:\n${current.paragraphs.map((p) => p.text).join("\n\n")}`,
+          ...(instruction ? ["", `Learner's request: ${instruction}`] : [])
+        ].join("\n"),
+        temperature: 0.4,
+        schema: sectionSchema
+      });
+      section = toLessonSection(object, sectionNumber, sources);
+    } catch {
+      section = null;
+    }
+  }
+  if (!section) {
+    // Without a working model the section is rebuilt from its sources as it was first built
+    const fallback = await fallbackLesson(userId, unit, sources);
+    const rebuilt = fallback.sections.find((s) => s.sectionNumber === sectionNumber);
+    section = rebuilt ?? { ...current, generatedAt: new Date().toISOString() };
+  }
+
+  const updated: UnitLesson = {
+    ...lesson,
+    sections: lesson.sections.map((s) => (s.sectionNumber === sectionNumber ? section : s))
+  };
+  await saveUnitLesson(userId, courseId, updated);
+  return updated;
+}
@@ -3,8 +3,12 @@ import { createOpenAI } from "@ai-sdk/openai";
 
 const DEFAULT_MODEL = "openai:gpt-5.2";
 
+export function getModelSpec() {
+  return process.env.LLM_MODEL ?? DEFAULT_MODEL;
+}
+
 export function getModel() {
-  const spec = process.env.LLM_MODEL ?? DEFAULT_MODEL;
+  const spec = getModelSpec();
   console.log("spec", spec);
   const colonIndex = spec.indexOf(":");
   const provider = colonIndex > 0 ? spec.slice(0, colonIndex) : "openai";
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import type { BookAnalysis, ChapterAnalysis } from "@/lib/pdf/analyzeBook";
+import type { ConceptIndex } from "@/lib/pdf/conceptIndex";
+import {
+  buildPrerequisiteGraph,
+  checkPlanOrder,
+  withPrerequisiteUnits,
+  type PlanOutline
+} from "./prerequisites";
+
+function chapter(chapterNumber: number): ChapterAnalysis {
+  return {
+    chapterNumber,
+    title: `Chapter ${chapterNumber}`,
+    startPage: (chapterNumber - 1) * 10,
+    endPage: chapterNumber * 10 - 1,
+    summary: "",
+    keyConcepts: [],
+    learningObjectives: [],
+    prerequisites: [],
+    estimatedReadingMinutes: 10
+  };
+}
+
+function book(documentId: string, chapterCount: number): BookAnalysis {
+  return {
+    documentId,
+    title: documentId,
+    totalPages: chapterCount * 10,
+    detectionMethod: "pdf-outline",
+    chapters: Array.from({ length: chapterCount }, (_, i) => chapter(i + 1))
+  };
+}
+
+// introduced: the chapter each concept is taught in; uses: a concept and a
+// chapter that builds on it
+function conceptIndex(
+  documentId: string,
+  introduced: Record<string, number>,
+  uses: Array<[string, number]>
+): ConceptIndex {
+  return {
+    documentId,
+    concepts: Object.entries(introduced).map(([name, chapterNumber]) => ({
+      id: name,
+      name,
+      aliases: [],
+      introduced: { chapterNumber, page: (chapterNumber - 1) * 10 },
+      usedIn: [],
+      prerequisiteIds: []
+    })),
+    edges: uses.map(([name, chapterNumber]) => ({
+      from: name,
+      to: `${name} use`,
+      chapterNumber
+    })),
+    externalPrerequisites: [],
+    builtAt: "2026-01-01T00:00:00.000Z"
+  };
+}
+
+function outline(...units: number[][]): PlanOutline {
+  return {
+    units: units.map((chapters, i) => ({
+      unitNumber: i + 1,
+      sourceChapters: chapters.map((chapterNumber) => ({ documentId: "calc", chapterNumber }))
+    }))
+  };
+}
+
+const calculus = book("calc", 4);
+
+describe("buildPrerequisiteGraph", () => {
+  it("links chapters through the concepts one builds on from another", () => {
+    const index = conceptIndex("calc", { Limit: 1, Continuity: 1, Derivative: 2 }, [
+      ["Limit", 2],
+      ["Continuity", 2],
+      ["Derivative", 3],
+      ["Derivative", 2]
+    ]);
+    const graph = buildPrerequisiteGraph([calculus], [index]);
+
+    expect(graph.chapters.map((ch) => ch.key)).toEqual(["calc#1", "calc#2", "calc#3", "calc#4"]);
+    expect(graph.edges).toEqual([
+      { from: "calc#1", to: "calc#2", concepts: ["Limit", "Continuity"] },
+      { from: "calc#2", to: "calc#3", concepts: ["Derivative"] }
+    ]);
+    expect(graph.cycles).toEqual([]);
+  });
+
+  it("reports chapters that require each other", () => {
+    const index = conceptIndex("calc", { Limit: 1, Derivative: 2, Integral: 3, Series: 4 }, [
+      ["Limit", 2],
+      ["Derivative", 3],
+      ["Integral", 1],
+      ["Series", 3]
+    ]);
+    const graph = buildPrerequisiteGraph([calculus], [index]);
+
+    expect(graph.cycles).toEqual([["calc#1", "calc#2", "calc#3"]]);
+  });
+
+  it("keeps each document's edges to its own chapters", () => {
+    const physics = book("phys", 2);
+    const graph = buildPrerequisiteGraph(
+      [calculus, physics],
+      [conceptIndex("phys", { Force: 1 }, [["Force", 2]]), conceptIndex("calc", {}, [])]
+    );
+
+    expect(graph.edges).toEqual([{ from: "phys#1", to: "phys#2", concepts: ["Force"] }]);
+  });
+});
+
+describe("checkPlanOrder", () => {
+  const index = conceptIndex("calc", { Limit: 1, Derivative: 2 }, [
+    ["Limit", 2],
+    ["Derivative", 3]
+  ]);
+  const graph = buildPrerequisiteGraph([calculus], [index]);
+
+  it("accepts a plan that teaches prerequisites first", () => {
+    expect(checkPlanOrder(outline([1], [2], [3]), [calculus], graph)).toEqual({
+      violations: [],
+      cycles: [],
+      suggestedOrder: [1, 2, 3]
+    });
+  });
+
+  it("flags units placed before what they build on and suggests an order", () => {
+    const report = checkPlanOrder(outline([3], [2], [1]), [calculus], graph);
+
+    expect(report.violations).toEqual([
+      { unitNumber: 1, prerequisiteUnitNumber: 2, concepts: ["Derivative"] },
+      { unitNumber: 2, prerequisiteUnitNumber: 3, concepts: ["Limit"] }
+    ]);
+    expect(report.suggestedOrder).toEqual([3, 2, 1]);
+  });
+
+  it("ignores dependencies inside a unit", () => {
+    const report = checkPlanOrder(outline([1, 2], [3]), [calculus], graph);
+
+    expect(report.violations).toEqual([]);
+    expect(report.suggestedOrder).toEqual([1, 2]);
+  });
+
+  it("reports units that require each other as a cycle, kept together in planned order", () => {
+    const cyclic = buildPrerequisiteGraph(
+      [calculus],
+      [
+        conceptIndex("calc", { Limit: 1, Derivative: 2, Integral: 3 }, [
+          ["Limit", 2],
+          ["Derivative", 3],
+          ["Integral", 2]
+        ])
+      ]
+    );
+    const report = checkPlanOrder(outline([3], [4], [2], [1]), [calculus], cyclic);
+
+    expect(report.cycles).toEqual([[1, 3]]);
+    expect(report.violations).toEqual([
+      { unitNumber: 3, prerequisiteUnitNumber: 4, concepts: ["Limit"] }
+    ]);
+    expect(report.suggestedOrder).toEqual([2, 4, 1, 3]);
+  });
+});
+
+describe("withPrerequisiteUnits", () => {
+  it("records the nearest earlier unit each unit builds on", () => {
+    const index = conceptIndex("calc", { Limit: 1, Derivative: 2 }, [
+      ["Limit", 2],
+      ["Limit", 3],
+      ["Derivative", 3]
+    ]);
+    const graph = buildPrerequisiteGraph([calculus], [index]);
+    const plan = {
+      title: "Calculus",
+      description: "",
+      estimatedHours: 1,
+      units: outline([1], [2], [3], [4]).units.map((unit) => ({
+        ...unit,
+        title: `Unit ${unit.unitNumber}`,
+        summary: "",
+        objectives: [],
+        estimatedMinutes: 10,
+        prerequisiteUnitNumber: 1
+      }))
+    };
+
+    const ordered = withPrerequisiteUnits(plan, [calculus], graph);
+
+    expect(ordered.units.map((unit) => unit.prerequisiteUnitNumber)).toEqual([
+      undefined,
+      1,
+      2,
+      undefined
+    ]);
+  });
+});
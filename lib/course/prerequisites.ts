@@ -0,0 +1,267 @@
+import { findDocument, type BookAnalysis } from "@/lib/pdf/analyzeBook";
+import { buildConceptIndex, type ConceptIndex } from "@/lib/pdf/conceptIndex";
+import {
+  readConceptIndex,
+  readExtractedText,
+  saveConceptIndex,
+  type CoursePlan
+} from "@/lib/state/courseFiles";
+
+// "to" builds on "from": a prerequisite of chapter "to" is introduced in chapter "from"
+export type PrerequisiteEdge = {
+  from: string; // chapter key, see chapterKey
+  to: string;
+  concepts: string[]; // names of the concepts that make "from" a prerequisite
+};
+
+export type PrerequisiteGraph = {
+  chapters: Array<{ key: string; documentId?: string; chapterNumber: number; title: string }>;
+  edges: PrerequisiteEdge[];
+  cycles: string[][]; // chapters that require each other, directly or through others
+};
+
+export type OrderViolation = {
+  unitNumber: number; // unit placed before something it builds on
+  prerequisiteUnitNumber: number;
+  concepts: string[];
+};
+
+export type PlanOrderReport = {
+  violations: OrderViolation[];
+  cycles: number[][]; // unit numbers that depend on each other; no order satisfies them all
+  suggestedOrder: number[]; // unit numbers, prerequisites first, otherwise as planned
+};
+
+// What ordering depends on: the chapters each unit covers
+export type PlanOutline = {
+  units: Array<Pick<CoursePlan["units"][number], "unitNumber" | "sourceChapters">>;
+};
+
+export function chapterKey(documentId: string | undefined, chapterNumber: number) {
+  return `${documentId ?? ""}#${chapterNumber}`;
+}
+
+// Strongly connected components of more than one node (Tarjan); nodes are 0..count-1
+function findCycles(count: number, successors: (node: number) => number[]): number[][] {
+  const index: number[] = new Array(count).fill(-1);
+  const lowLink: number[] = new Array(count).fill(0);
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let visited = 0;
+
+  const visit = (node: number) => {
+    index[node] = lowLink[node] = visited++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of successors(node)) {
+      if (index[next] === -1) {
+        visit(next);
+        lowLink[node] = Math.min(lowLink[node], lowLink[next]);
+      } else if (onStack.has(next)) {
+        lowLink[node] = Math.min(lowLink[node], index[next]);
+      }
+    }
+
+    if (lowLink[node] !== index[node]) return;
+    const component = stack.splice(stack.lastIndexOf(node));
+    component.forEach((member) => onStack.delete(member));
+    if (component.length > 1) components.push(component.sort((a, b) => a - b));
+  };
+
+  for (let node = 0; node < count; node++) {
+    if (index[node] === -1) visit(node);
+  }
+  return components;
+}
+
+// ---------------------------------------------------------------------------
+// Chapter graph — from the prerequisite edges of each document's concept index
+// ---------------------------------------------------------------------------
+
+export function buildPrerequisiteGraph(
+  documents: BookAnalysis[],
+  indexes: ConceptIndex[]
+): PrerequisiteGraph {
+  const chapters = documents.flatMap((doc) =>
+    doc.chapters.map((ch) => ({
+      key: chapterKey(doc.documentId, ch.chapterNumber),
+      ...(doc.documentId ? { documentId: doc.documentId } : {}),
+      chapterNumber: ch.chapterNumber,
+      title: ch.title
+    }))
+  );
+  const edges = new Map<string, PrerequisiteEdge>();
+
+  for (const doc of documents) {
+    const index =
+      indexes.find((i) => i.documentId === doc.documentId) ??
+      (documents.length === 1 ? indexes[0] : undefined);
+    if (!index) continue;
+
+    const concepts = new Map(index.concepts.map((concept) => [concept.id, concept]));
+    for (const edge of index.edges) {
+      const concept = concepts.get(edge.from);
+      if (!concept || concept.introduced.chapterNumber === edge.chapterNumber) continue;
+
+      const from = chapterKey(doc.documentId, concept.introduced.chapterNumber);
+      const to = chapterKey(doc.documentId, edge.chapterNumber);
+      const existing = edges.get(`${from}>${to}`) ?? { from, to, concepts: [] };
+      if (!existing.concepts.includes(concept.name)) existing.concepts.push(concept.name);
+      edges.set(`${from}>${to}`, existing);
+    }
+  }
+
+  const edgeList = Array.from(edges.values());
+  const position = new Map(chapters.map((ch, i) => [ch.key, i]));
+  const cycles = findCycles(chapters.length, (i) =>
+    edgeList
+      .filter((edge) => edge.from === chapters[i].key)
+      .flatMap((edge) => position.get(edge.to) ?? [])
+  );
+  return {
+    chapters,
+    edges: edgeList,
+    cycles: cycles.map((cycle) => cycle.map((i) => chapters[i].key))
+  };
+}
+
+// Concept indexes of the given documents; documents analyzed before indexes
+// existed get one built and saved
+export async function loadPrerequisiteGraph(
+  userId: string,
+  courseId: string,
+  documents: BookAnalysis[]
+): Promise<PrerequisiteGraph> {
+  const indexes = await Promise.all(
+    documents.map(async (doc) => {
+      const saved = await readConceptIndex(userId, courseId, doc.documentId);
+      if (saved) return saved;
+      const pages = await readExtractedText(userId, courseId, doc.documentId);
+      if (!pages) return null;
+      const index = buildConceptIndex(doc, pages);
+      await saveConceptIndex(userId, courseId, index);
+      return index;
+    })
+  );
+  return buildPrerequisiteGraph(
+    documents,
+    indexes.filter((index): index is ConceptIndex => index !== null)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Plan order — units inherit the edges of the chapters they cover
+// ---------------------------------------------------------------------------
+
+// For each unit index, the unit indices it builds on and the concepts why
+function unitDependencies(
+  plan: PlanOutline,
+  documents: BookAnalysis[],
+  graph: PrerequisiteGraph
+): Map<number, Map<number, string[]>> {
+  const unitsOf = new Map<string, number[]>();
+  plan.units.forEach((unit, ui) => {
+    for (const ref of unit.sourceChapters) {
+      const documentId = findDocument(documents, ref.documentId)?.documentId ?? ref.documentId;
+      const key = chapterKey(documentId, ref.chapterNumber);
+      unitsOf.set(key, [...(unitsOf.get(key) ?? []), ui]);
+    }
+  });
+
+  const dependencies = new Map<number, Map<number, string[]>>();
+  for (const edge of graph.edges) {
+    for (const ui of unitsOf.get(edge.to) ?? []) {
+      for (const pi of unitsOf.get(edge.from) ?? []) {
+        if (ui === pi) continue;
+        const unitDeps = dependencies.get(ui) ?? new Map<number, string[]>();
+        const concepts = unitDeps.get(pi) ?? [];
+        unitDeps.set(pi, Array.from(new Set([...concepts, ...edge.concepts])));
+        dependencies.set(ui, unitDeps);
+      }
+    }
+  }
+  return dependencies;
+}
+
+// Units in a cycle are placed together in their planned order; otherwise the
+// earliest planned unit whose prerequisites are all placed goes next
+function suggestOrder(unitCount: number, dependencies: Map<number, Map<number, string[]>>) {
+  const prerequisitesOf = (ui: number) => Array.from(dependencies.get(ui)?.keys() ?? []);
+  const cycles = findCycles(unitCount, prerequisitesOf);
+  const groups = Array.from({ length: unitCount }, (_, ui) => [ui]);
+  for (const cycle of cycles) {
+    for (const ui of cycle) groups[ui] = cycle;
+  }
+
+  const placed = new Set<number>();
+  const order: number[] = [];
+  while (order.length < unitCount) {
+    const pending = groups.filter((group, ui) => !placed.has(ui) && group[0] === ui);
+    const ready = pending.find((group) =>
+      group.every((member) =>
+        prerequisitesOf(member).every((pi) => placed.has(pi) || group.includes(pi))
+      )
+    );
+    // Cycles are grouped, so something is always ready; keep the planned order if not
+    for (const ui of ready ?? pending[0]) {
+      placed.add(ui);
+      order.push(ui);
+    }
+  }
+
+  return { order, cycles };
+}
+
+export function checkPlanOrder(
+  plan: PlanOutline,
+  documents: BookAnalysis[],
+  graph: PrerequisiteGraph
+): PlanOrderReport {
+  const dependencies = unitDependencies(plan, documents, graph);
+  const unitNumber = (ui: number) => plan.units[ui].unitNumber;
+
+  const { order, cycles } = suggestOrder(plan.units.length, dependencies);
+  const inOneCycle = (a: number, b: number) =>
+    cycles.some((cycle) => cycle.includes(a) && cycle.includes(b));
+
+  // Units in a cycle are reported as the cycle, not as each other's violations
+  const violations: OrderViolation[] = [];
+  plan.units.forEach((_, ui) => {
+    for (const [pi, concepts] of dependencies.get(ui) ?? []) {
+      if (pi > ui && !inOneCycle(ui, pi)) {
+        violations.push({
+          unitNumber: unitNumber(ui),
+          prerequisiteUnitNumber: unitNumber(pi),
+          concepts
+        });
+      }
+    }
+  });
+
+  return {
+    violations,
+    cycles: cycles.map((cycle) => cycle.map(unitNumber)),
+    suggestedOrder: order.map(unitNumber)
+  };
+}
+
+// Sets each unit's prerequisiteUnitNumber to the nearest earlier unit it builds on
+export function withPrerequisiteUnits(
+  plan: CoursePlan,
+  documents: BookAnalysis[],
+  graph: PrerequisiteGraph
+): CoursePlan {
+  const dependencies = unitDependencies(plan, documents, graph);
+  return {
+    ...plan,
+    units: plan.units.map((unit, ui) => {
+      const earlier = Array.from(dependencies.get(ui)?.keys() ?? []).filter((pi) => pi < ui);
+      const { prerequisiteUnitNumber: _previous, ...rest } = unit;
+      return earlier.length
+        ? { ...rest, prerequisiteUnitNumber: plan.units[Math.max(...earlier)].unitNumber }
+        : rest;
+    })
+  };
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import type {
+  Assessment,
+  AssessmentKind,
+  AssessmentSubmission,
+  CoursePlan,
+  SubmissionStatus
+} from "@/lib/state/courseFiles";
+import { computeProgression, type ProgressionInput } from "./progression";
+
+const NOW = "2026-03-01T12:00:00.000Z";
+const EARLIER = "2026-02-01T12:00:00.000Z";
+
+function plan(count: number, prerequisites: Record<number, number> = {}): CoursePlan {
+  return {
+    title: "Calculus",
+    description: "",
+    estimatedHours: 1,
+    units: Array.from({ length: count }, (_, i) => ({
+      unitNumber: i + 1,
+      title: `Unit ${i + 1}`,
+      summary: "",
+      objectives: [],
+      sourceChapters: [{ chapterNumber: i + 1 }],
+      estimatedMinutes: 30,
+      ...(prerequisites[i + 1] ? { prerequisiteUnitNumber: prerequisites[i + 1] } : {})
+    }))
+  };
+}
+
+function assessment(unitNumber: number, kind: AssessmentKind = "quiz"): Assessment {
+  return {
+    id: `unit-${unitNumber}-${kind}-v1`,
+    courseId: "course_1",
+    unitNumber,
+    unitNumbers: [unitNumber],
+    kind,
+    title: `Unit ${unitNumber} ${kind}`,
+    totalPoints: 10,
+    unlockThreshold: 0.7,
+    questions: [],
+    version: 1,
+    createdAt: EARLIER
+  };
+}
+
+function submission(
+  assessmentId: string,
+  score: number,
+  status: SubmissionStatus = "graded"
+): AssessmentSubmission {
+  return {
+    id: `submission_${assessmentId}_${score}`,
+    assessmentId,
+    courseId: "course_1",
+    status,
+    score,
+    pointsAwarded: score * 10,
+    totalPoints: 10,
+    answers: [],
+    submittedAt: EARLIER,
+    createdAt: EARLIER
+  };
+}
+
+function progression(input: Partial<ProgressionInput> & Pick<ProgressionInput, "plan">) {
+  return computeProgression({
+    unlockMode: "gated",
+    assessments: [],
+    submissions: [],
+    completedUnits: [],
+    unlocks: [],
+    now: NOW,
+    ...input
+  });
+}
+
+const statuses = (result: ReturnType<typeof computeProgression>) =>
+  result.units.map((unit) => unit.status);
+
+describe("computeProgression", () => {
+  it("opens only the first unit of a new gated course", () => {
+    const result = progression({ plan: plan(3), assessments: [assessment(1)] });
+
+    expect(statuses(result)).toEqual(["unlocked", "locked", "locked"]);
+    expect(result.units[1].waitingOn).toEqual([1]);
+    expect(result.newUnlocks).toEqual([{ unitNumber: 1, unlockedAt: NOW, reason: "course_start" }]);
+    expect(result.units[0].gate).toEqual({
+      assessmentId: "unit-1-quiz-v1",
+      title: "Unit 1 quiz",
+      unlockThreshold: 0.7
+    });
+  });
+
+  it("opens the next unit on the best graded score at or above the threshold", () => {
+    const quiz = assessment(1);
+    const failing = progression({
+      plan: plan(2),
+      assessments: [quiz],
+      submissions: [submission(quiz.id, 0.6), submission(quiz.id, 0.9, "submitted")]
+    });
+    const passing = progression({
+      plan: plan(2),
+      assessments: [quiz],
+      submissions: [submission(quiz.id, 0.6), submission(quiz.id, 0.8)]
+    });
+
+    expect(statuses(failing)).toEqual(["unlocked", "locked"]);
+    expect(failing.units[0].gate?.bestScore).toBe(0.6);
+    expect(statuses(passing)).toEqual(["passed", "unlocked"]);
+    expect(passing.units[1].unlock).toEqual({
+      unitNumber: 2,
+      unlockedAt: NOW,
+      reason: "completed_prerequisite",
+      detail: "Scored 80% on Unit 1 quiz"
+    });
+  });
+
+  it("gates a unit on its quiz, or on its homework when it has no quiz", () => {
+    const homework = assessment(1, "homework");
+    const quiz = assessment(1, "quiz");
+    const withQuiz = progression({
+      plan: plan(2),
+      assessments: [homework, quiz],
+      submissions: [submission(homework.id, 1)]
+    });
+    const homeworkOnly = progression({
+      plan: plan(2),
+      assessments: [homework],
+      submissions: [submission(homework.id, 1)]
+    });
+
+    expect(withQuiz.units[0].gate?.assessmentId).toBe(quiz.id);
+    expect(statuses(withQuiz)).toEqual(["unlocked", "locked"]);
+    expect(statuses(homeworkOnly)).toEqual(["passed", "unlocked"]);
+  });
+
+  it("keeps a unit passed on a quiz that has since been regenerated", () => {
+    const first = { ...assessment(1), supersededBy: "unit-1-quiz-v2" };
+    const second = { ...assessment(1), id: "unit-1-quiz-v2", version: 2 };
+    const regenerated = progression({
+      plan: plan(2),
+      assessments: [first, second],
+      submissions: [submission(first.id, 0.8), submission(second.id, 0.4)]
+    });
+    const failedBefore = progression({
+      plan: plan(2),
+      assessments: [first, second],
+      submissions: [submission(first.id, 0.6)]
+    });
+
+    expect(statuses(regenerated)).toEqual(["passed", "unlocked"]);
+    expect(regenerated.units[0].gate).toMatchObject({
+      assessmentId: second.id,
+      bestScore: 0.4,
+      earlierPass: { assessmentId: first.id, score: 0.8 }
+    });
+    expect(regenerated.units[1].unlock?.detail).toBe("Scored 80% on Unit 1 quiz");
+    expect(statuses(failedBefore)).toEqual(["unlocked", "locked"]);
+    expect(failedBefore.units[0].gate?.assessmentId).toBe(second.id);
+  });
+
+  it("passes units without an assessment once they are completed", () => {
+    const result = progression({ plan: plan(3), completedUnits: [1] });
+
+    expect(statuses(result)).toEqual(["passed", "unlocked", "locked"]);
+    expect(result.units[1].unlock?.detail).toBe("Completed unit 1");
+  });
+
+  it("waits on the prerequisite unit as well as the unit before", () => {
+    // Unit 2 was opened earlier and is done; unit 1 is not
+    const unlocks = [1, 2].map((unitNumber) => ({
+      unitNumber,
+      unlockedAt: EARLIER,
+      reason: "completed_prerequisite" as const
+    }));
+    const result = progression({ plan: plan(3, { 3: 1 }), completedUnits: [2], unlocks });
+
+    expect(statuses(result)).toEqual(["unlocked", "passed", "locked"]);
+    expect(result.units[2].waitingOn).toEqual([1]);
+  });
+
+  it("never takes back a recorded unlock", () => {
+    const unlocks = [
+      { unitNumber: 1, unlockedAt: EARLIER, reason: "course_start" as const },
+      { unitNumber: 2, unlockedAt: EARLIER, reason: "completed_prerequisite" as const }
+    ];
+    const result = progression({ plan: plan(2), assessments: [assessment(1)], unlocks });
+
+    expect(statuses(result)).toEqual(["unlocked", "unlocked"]);
+    expect(result.units[1].unlock).toEqual(unlocks[1]);
+    expect(result.newUnlocks).toEqual([]);
+    expect(result.unlocks).toEqual(unlocks);
+  });
+
+  it("opens every unit of an ungated course", () => {
+    const result = progression({ plan: plan(3), unlockMode: "ungated" });
+
+    expect(statuses(result)).toEqual(["unlocked", "unlocked", "unlocked"]);
+    expect(result.units.every((unit) => unit.waitingOn.length === 0)).toBe(true);
+    expect(result.newUnlocks.map((unlock) => unlock.reason)).toEqual([
+      "ungated",
+      "ungated",
+      "ungated"
+    ]);
+  });
+
+  it("locks units again that only the ungated mode opened when a course is gated again", () => {
+    const ungated = progression({ plan: plan(3), unlockMode: "ungated" });
+    const regated = progression({ plan: plan(3), completedUnits: [1], unlocks: ungated.unlocks });
+
+    expect(statuses(regated)).toEqual(["passed", "unlocked", "locked"]);
+    expect(regated.unlocks.map((unlock) => [unlock.unitNumber, unlock.reason])).toEqual([
+      [1, "course_start"],
+      [2, "completed_prerequisite"]
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  listAssessments,
+  listSubmissions,
+  readCoursePlan,
+  readCourseRecord,
+  readUnitUnlocks,
+  saveUnitUnlocks,
+  type Assessment,
+  type AssessmentSubmission,
+  type CoursePlan,
+  type UnitUnlock,
+  type UnlockMode
+} from "@/lib/state/courseFiles";
+
+export type UnitStatus = "locked" | "unlocked" | "passed";
+
+// The assessment that passes a unit and the learner's best score on it
+export type UnitGate = {
+  assessmentId: string;
+  title: string;
+  unlockThreshold: number;
+  bestScore?: number; // 0-1; unset until the learner submits
+  earlierPass?: { assessmentId: string; score: number }; // on a version since regenerated
+};
+
+export type UnitProgress = {
+  unitNumber: number;
+  status: UnitStatus;
+  unlock?: UnitUnlock;
+  gate?: UnitGate; // unset for units without a quiz or homework; those pass when completed
+  waitingOn: number[]; // units to pass before this one unlocks
+};
+
+export type CourseProgression = {
+  unlockMode: UnlockMode;
+  units: UnitProgress[];
+  unlocks: UnitUnlock[];
+  newUnlocks: UnitUnlock[]; // opened by this computation
+};
+
+export type ProgressionInput = {
+  plan: CoursePlan;
+  unlockMode: UnlockMode;
+  assessments: Assessment[]; // superseded versions included
+  submissions: AssessmentSubmission[];
+  completedUnits: number[];
+  unlocks: UnitUnlock[]; // recorded so far
+  now: string;
+};
+
+// A unit is passed on its quiz, or on its homework when it has no quiz
+const GATING_KINDS = ["quiz", "homework"] as const;
+
+function bestScore(assessment: Assessment, submissions: AssessmentSubmission[]) {
+  const scores = submissions
+    .filter((s) => s.assessmentId === assessment.id && s.status === "graded")
+    .map((s) => s.score);
+  return scores.length ? Math.max(...scores) : undefined;
+}
+
+function unitGate(
+  unitNumber: number,
+  assessments: Assessment[],
+  submissions: AssessmentSubmission[]
+): UnitGate | undefined {
+  const assessment = GATING_KINDS.map((kind) =>
+    assessments.find((a) => a.unitNumber === unitNumber && a.kind === kind && !a.supersededBy)
+  ).find((a): a is Assessment => a !== undefined);
+  if (!assessment) return undefined;
+
+  // Regenerating the assessment does not take back a pass on an earlier version
+  const earlierPass = assessments
+    .filter((a) => a.unitNumber === unitNumber && a.kind === assessment.kind && a.supersededBy)
+    .flatMap((a) => {
+      const score = bestScore(a, submissions);
+      return score !== undefined && score >= a.unlockThreshold
+        ? [{ assessmentId: a.id, score }]
+        : [];
+    })[0];
+
+  const best = bestScore(assessment, submissions);
+  return {
+    assessmentId: assessment.id,
+    title: assessment.title,
+    unlockThreshold: assessment.unlockThreshold,
+    ...(best !== undefined ? { bestScore: best } : {}),
+    ...(earlierPass ? { earlierPass } : {})
+  };
+}
+
+function passedOnScore(gate: UnitGate) {
+  return gate.bestScore !== undefined && gate.bestScore >= gate.unlockThreshold;
+}
+
+function isPassed(gate: UnitGate | undefined, completed: boolean) {
+  if (!gate) return completed;
+  return passedOnScore(gate) || gate.earlierPass !== undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Compute — the first unit is open from the start; each later unit opens once
+// the unit before it and its prerequisite unit are passed. Unlocks are never
+// taken back, except those an ungated course handed out when it is gated again
+// ---------------------------------------------------------------------------
+
+export function computeProgression(input: ProgressionInput): CourseProgression {
+  const { plan, unlockMode, assessments, submissions, completedUnits, now } = input;
+  const recorded =
+    unlockMode === "gated"
+      ? input.unlocks.filter((unlock) => unlock.reason !== "ungated")
+      : input.unlocks;
+
+  const gates = new Map(
+    plan.units.map((unit) => [unit.unitNumber, unitGate(unit.unitNumber, assessments, submissions)])
+  );
+  const passed = (unitNumber: number) =>
+    isPassed(gates.get(unitNumber), completedUnits.includes(unitNumber));
+  const passedBecause = (unitNumber: number) => {
+    const gate = gates.get(unitNumber);
+    const score =
+      gate && !passedOnScore(gate) ? (gate.earlierPass?.score ?? gate.bestScore) : gate?.bestScore;
+    return gate && score !== undefined
+      ? `Scored ${Math.round(score * 100)}% on ${gate.title}`
+      : `Completed unit ${unitNumber}`;
+  };
+
+  const newUnlocks: UnitUnlock[] = [];
+  const units = plan.units.map((unit, index): UnitProgress => {
+    const required = Array.from(
+      new Set(
+        [plan.units[index - 1]?.unitNumber, unit.prerequisiteUnitNumber].filter(
+          (n): n is number => n !== undefined && n !== unit.unitNumber
+        )
+      )
+    );
+    const waitingOn = unlockMode === "gated" ? required.filter((n) => !passed(n)) : [];
+
+    let unlock = recorded.find((u) => u.unitNumber === unit.unitNumber);
+    if (!unlock && !waitingOn.length) {
+      unlock =
+        unlockMode === "ungated"
+          ? { unitNumber: unit.unitNumber, unlockedAt: now, reason: "ungated" }
+          : index === 0
+            ? { unitNumber: unit.unitNumber, unlockedAt: now, reason: "course_start" }
+            : {
+                unitNumber: unit.unitNumber,
+                unlockedAt: now,
+                reason: "completed_prerequisite",
+                detail: required.map(passedBecause).join("; ")
+              };
+      newUnlocks.push(unlock);
+    }
+
+    const gate = gates.get(unit.unitNumber);
+    return {
+      unitNumber: unit.unitNumber,
+      status: !unlock ? "locked" : passed(unit.unitNumber) ? "passed" : "unlocked",
+      ...(unlock ? { unlock } : {}),
+      ...(gate ? { gate } : {}),
+      waitingOn: unlock ? [] : waitingOn
+    };
+  });
+
+  return {
+    unlockMode,
+    units,
+    unlocks: [...recorded, ...newUnlocks],
+    newUnlocks
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sync — computes the course's progression and records new unlock events
+// ---------------------------------------------------------------------------
+
+export async function syncProgression(
+  userId: string,
+  courseId: string
+): Promise<CourseProgression> {
+  const [plan, record, assessments, submissions, unlocks] = await Promise.all([
+    readCoursePlan(userId, courseId),
+    readCourseRecord(userId, courseId),
+    listAssessments(userId, courseId, { includeSuperseded: true }),
+    listSubmissions(userId, courseId),
+    readUnitUnlocks(userId, courseId)
+  ]);
+  if (!plan) throw new Error("The course has no plan yet.");
+
+  const progression = computeProgression({
+    plan,
+    unlockMode: record?.unlockMode ?? "gated",
+    assessments,
+    submissions,
+    completedUnits: record?.completedUnits ?? [],
+    unlocks,
+    now: new Date().toISOString()
+  });
+  if (progression.newUnlocks.length || progression.unlocks.length !== unlocks.length) {
+    await saveUnitUnlocks(userId, courseId, progression.unlocks);
+  }
+  return progression;
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement — routes that write or serve a unit's work check it is unlocked
+// ---------------------------------------------------------------------------
+
+export class UnitLockedError extends Error {
+  constructor(readonly locked: UnitProgress[]) {
+    const [first] = locked;
+    super(
+      `Unit ${first.unitNumber} is locked: pass unit ${first.waitingOn.join(" and unit ")} first.`
+    );
+    this.name = "UnitLockedError";
+  }
+}
+
+// Throws UnitLockedError when a gated course has not unlocked one of the units yet.
+// Courses without a plan have nothing to gate; callers report that themselves
+export async function assertUnitUnlocked(
+  userId: string,
+  courseId: string,
+  unitNumber: number | number[]
+): Promise<void> {
+  if (!(await readCoursePlan(userId, courseId))) return;
+  const progression = await syncProgression(userId, courseId);
+  if (progression.unlockMode !== "gated") return;
+
+  const unitNumbers = Array.isArray(unitNumber) ? unitNumber : [unitNumber];
+  const locked = progression.units.filter(
+    (unit) => unitNumbers.includes(unit.unitNumber) && unit.status === "locked"
+  );
+  if (locked.length) throw new UnitLockedError(locked);
+}
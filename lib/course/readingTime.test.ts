@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import type { BookAnalysis, ChapterAnalysis } from "@/lib/pdf/analyzeBook";
+import type { CoursePlan } from "@/lib/state/courseFiles";
+import { applyReadingTimes, type TextDensity } from "./readingTime";
+
+// 200 prose words read in a minute
+function prose(minutes: number): TextDensity {
+  return { words: minutes * 200, equations: 0, codeLines: 0, figures: 0, tables: 0 };
+}
+
+function chapter(
+  chapterNumber: number,
+  startPage: number,
+  endPage: number,
+  extra: Partial<ChapterAnalysis> = {}
+): ChapterAnalysis {
+  return {
+    chapterNumber,
+    title: `Chapter ${chapterNumber}`,
+    startPage,
+    endPage,
+    summary: "",
+    keyConcepts: [],
+    learningObjectives: [],
+    prerequisites: [],
+    estimatedReadingMinutes: 0,
+    ...extra
+  };
+}
+
+// Chapter 1 is pages 0-9 with sections on pages 0-3 and 4-9; chapter 2 is pages 10-19
+function book(documentId: string): BookAnalysis {
+  return {
+    documentId,
+    title: documentId,
+    totalPages: 20,
+    detectionMethod: "pdf-outline",
+    chapters: [
+      chapter(1, 0, 9, {
+        textDensity: prose(30),
+        estimatedReadingMinutes: 30,
+        sections: [
+          { sectionNumber: 1, title: "1.1", startPage: 0, endPage: 3, textDensity: prose(12) },
+          { sectionNumber: 2, title: "1.2", startPage: 4, endPage: 9, textDensity: prose(18) }
+        ]
+      }),
+      chapter(2, 10, 19, { textDensity: prose(20), estimatedReadingMinutes: 20 })
+    ]
+  };
+}
+
+type Ref = { documentId?: string; chapterNumber: number; sectionNumber?: number };
+
+function plan(...units: Ref[][]): CoursePlan {
+  return {
+    title: "Course",
+    description: "",
+    estimatedHours: 0,
+    units: units.map((sourceChapters, i) => ({
+      unitNumber: i + 1,
+      title: `Unit ${i + 1}`,
+      summary: "",
+      objectives: [],
+      sourceChapters,
+      estimatedMinutes: 99
+    }))
+  };
+}
+
+const minutes = (result: CoursePlan) => result.units.map((unit) => unit.estimatedMinutes);
+
+describe("applyReadingTimes", () => {
+  const documents = [book("calc")];
+
+  it("takes unit minutes from the chapters and sections they cover", () => {
+    const result = applyReadingTimes(
+      plan(
+        [{ chapterNumber: 1, sectionNumber: 1 }],
+        [{ chapterNumber: 1, sectionNumber: 2 }],
+        [{ chapterNumber: 2 }]
+      ),
+      documents,
+      {}
+    );
+
+    expect(minutes(result)).toEqual([12, 18, 20]);
+    expect(result.estimatedHours).toBe(0.8);
+  });
+
+  it("splits a chapter covered by several units between them", () => {
+    const result = applyReadingTimes(
+      plan([{ chapterNumber: 2 }], [{ chapterNumber: 2 }, { chapterNumber: 1, sectionNumber: 1 }]),
+      documents,
+      {}
+    );
+
+    expect(minutes(result)).toEqual([10, 22]);
+  });
+
+  it("counts a chapter and one of its sections cited by the same unit once", () => {
+    const result = applyReadingTimes(
+      plan([
+        { chapterNumber: 1, sectionNumber: 2 },
+        { chapterNumber: 1 },
+        { chapterNumber: 1, sectionNumber: 1 }
+      ]),
+      documents,
+      {}
+    );
+
+    expect(minutes(result)).toEqual([30]);
+  });
+
+  it("counts the same chapter cited twice by one unit once", () => {
+    const result = applyReadingTimes(
+      plan([{ chapterNumber: 2 }, { chapterNumber: 2 }], [{ chapterNumber: 1 }]),
+      documents,
+      {}
+    );
+
+    expect(minutes(result)).toEqual([20, 30]);
+  });
+
+  it("does not merge the same pages of different documents", () => {
+    const result = applyReadingTimes(
+      plan([
+        { documentId: "calc", chapterNumber: 2 },
+        { documentId: "phys", chapterNumber: 2 }
+      ]),
+      [book("calc"), book("phys")],
+      {}
+    );
+
+    expect(minutes(result)).toEqual([40]);
+  });
+
+  it("falls back to the section's share of the chapter without a density", () => {
+    const [analysis] = documents;
+    const legacy: BookAnalysis = {
+      ...analysis,
+      chapters: [
+        chapter(1, 0, 9, {
+          estimatedReadingMinutes: 30,
+          sections: [{ sectionNumber: 1, title: "1.1", startPage: 0, endPage: 3 }]
+        })
+      ]
+    };
+    const result = applyReadingTimes(plan([{ chapterNumber: 1, sectionNumber: 1 }]), [legacy], {});
+
+    expect(minutes(result)).toEqual([12]);
+  });
+
+  it("adjusts for the reader's profile", () => {
+    const result = applyReadingTimes(plan([{ chapterNumber: 1 }]), documents, {
+      explanationDepth: "deep",
+      challengeLevel: "stretch"
+    });
+
+    expect(minutes(result)).toEqual([Math.round(30 * 1.15 * 1.15)]);
+  });
+
+  it("keeps the estimate of units that cover nothing in the analyses", () => {
+    const result = applyReadingTimes(
+      plan([{ chapterNumber: 7 }], [{ chapterNumber: 2 }]),
+      documents,
+      {}
+    );
+
+    expect(minutes(result)).toEqual([99, 20]);
+    expect(result.estimatedHours).toBe(2);
+  });
+});
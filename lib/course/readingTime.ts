@@ -0,0 +1,225 @@
+import { findDocument, type BookAnalysis } from "@/lib/pdf/analyzeBook";
+import type { CoursePlan } from "@/lib/state/courseFiles";
+import {
+  readOnboardingState,
+  type ChallengeLevel,
+  type ExplanationDepth
+} from "@/lib/state/onboarding";
+
+// What a stretch of text asks of the reader, measured from extracted text
+export type TextDensity = {
+  words: number; // prose words; equation and code lines are counted separately
+  equations: number; // display equation lines
+  codeLines: number;
+  figures: number; // figure captions
+  tables: number; // table captions
+};
+
+// Words read and minutes spent in one finished study session
+export type PaceSample = {
+  words: number;
+  minutes: number;
+};
+
+export type ReaderProfile = {
+  explanationDepth?: ExplanationDepth;
+  challengeLevel?: ChallengeLevel;
+  paceSamples?: PaceSample[];
+};
+
+const PROSE_WORDS_PER_MINUTE = 200;
+const MINUTES_PER_EQUATION = 0.75;
+const MINUTES_PER_CODE_LINE = 0.15;
+const MINUTES_PER_FIGURE = 0.5;
+const MINUTES_PER_TABLE = 0.75;
+
+// Deeper explanations and harder challenges mean slower, more thorough study
+const DEPTH_FACTORS: Record<ExplanationDepth, number> = { concise: 0.85, deep: 1.15 };
+const CHALLENGE_FACTORS: Record<ChallengeLevel, number> = { easy: 0.9, balanced: 1, stretch: 1.15 };
+
+// Observed pace replaces the default gradually, and fully after this much study
+const FULL_TRUST_MINUTES = 120;
+
+// ---------------------------------------------------------------------------
+// Measuring text
+// ---------------------------------------------------------------------------
+
+const MATH_SYMBOLS = /[=+×÷·∑∏∫√∂∇≤≥≈≠∞±→⇒⇔∈∉⊂⊆∪∩∀∃^_αβγδεθλμπρσφχψωΔΓΘΛΣΦΨΩ]/g;
+const CODE_LINE =
+  /^\s*(def |class |function |return\b|import |from \S+ import|#include|public |private |const |let |var |for ?\(|while ?\(|if ?\(|\/\/|print\(|console\.)|[{}]\s*$|\);\s*$/;
+const FIGURE_CAPTION = /^\s*(figure|fig\.)\s*\d+([.-]\d+)*/i;
+const TABLE_CAPTION = /^\s*table\s+\d+([.-]\d+)*/i;
+
+// Mostly symbols and at most a few words: a displayed formula, not prose about one
+export function isEquationLine(line: string) {
+  const trimmed = line.trim();
+  if (trimmed.length < 3) return false;
+  const symbols = (trimmed.match(MATH_SYMBOLS) ?? []).length;
+  const words = (trimmed.match(/[a-z]{4,}/gi) ?? []).length;
+  return symbols >= 2 && symbols / trimmed.length > 0.08 && words <= 3;
+}
+
+export function measureText(text: string): TextDensity {
+  const density: TextDensity = { words: 0, equations: 0, codeLines: 0, figures: 0, tables: 0 };
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    if (FIGURE_CAPTION.test(line)) density.figures++;
+    else if (TABLE_CAPTION.test(line)) density.tables++;
+
+    if (isEquationLine(line)) density.equations++;
+    else if (CODE_LINE.test(line)) density.codeLines++;
+    else density.words += line.split(/\s+/).filter(Boolean).length;
+  }
+
+  return density;
+}
+
+// ---------------------------------------------------------------------------
+// Estimating
+// ---------------------------------------------------------------------------
+
+function paceFactor(samples: PaceSample[] = []) {
+  const words = samples.reduce((sum, sample) => sum + sample.words, 0);
+  const minutes = samples.reduce((sum, sample) => sum + sample.minutes, 0);
+  if (words <= 0 || minutes <= 0) return 1;
+
+  const weight = Math.min(1, minutes / FULL_TRUST_MINUTES);
+  const wordsPerMinute = PROSE_WORDS_PER_MINUTE * (1 - weight) + (words / minutes) * weight;
+  return PROSE_WORDS_PER_MINUTE / wordsPerMinute;
+}
+
+function profileFactor(profile: ReaderProfile) {
+  return (
+    (profile.explanationDepth ? DEPTH_FACTORS[profile.explanationDepth] : 1) *
+    (profile.challengeLevel ? CHALLENGE_FACTORS[profile.challengeLevel] : 1) *
+    paceFactor(profile.paceSamples)
+  );
+}
+
+// Without a profile this is the baseline stored with a book's analysis
+export function estimateReadingMinutes(density: TextDensity, profile: ReaderProfile = {}) {
+  const minutes =
+    density.words / PROSE_WORDS_PER_MINUTE +
+    density.equations * MINUTES_PER_EQUATION +
+    density.codeLines * MINUTES_PER_CODE_LINE +
+    density.figures * MINUTES_PER_FIGURE +
+    density.tables * MINUTES_PER_TABLE;
+  return Math.max(1, Math.round(minutes * profileFactor(profile)));
+}
+
+// Density and baseline minutes for a range of pages
+export function measureReading(pages: string[]) {
+  const textDensity = measureText(pages.join("\n"));
+  return { textDensity, estimatedReadingMinutes: estimateReadingMinutes(textDensity) };
+}
+
+// Pace samples are added here once study sessions are recorded
+export async function readReaderProfile(userId: string): Promise<ReaderProfile> {
+  const answers = await readOnboardingState(userId);
+  return {
+    ...(answers.explanationDepth ? { explanationDepth: answers.explanationDepth } : {}),
+    ...(answers.challengeLevel ? { challengeLevel: answers.challengeLevel } : {})
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Plan totals — unit minutes come from the chapters and sections they cover,
+// not from the model; the plan's hours are their sum
+// ---------------------------------------------------------------------------
+
+// Pages of one document a unit reads, and the minutes they take
+type ReadingRange = {
+  documentKey: string;
+  startPage: number;
+  endPage: number;
+  minutes: number;
+};
+
+// Pages cited twice by a unit (a chapter and one of its sections, say) are read
+// once: wider ranges count first, and a range adds only its pages not yet counted
+function rangeMinutes(ranges: ReadingRange[]) {
+  const counted = new Map<string, Set<number>>();
+  const pageCount = (range: ReadingRange) => Math.max(1, range.endPage - range.startPage + 1);
+
+  return [...ranges]
+    .sort((a, b) => pageCount(b) - pageCount(a))
+    .reduce((sum, range) => {
+      const pages = counted.get(range.documentKey) ?? new Set<number>();
+      counted.set(range.documentKey, pages);
+      let fresh = 0;
+      for (let page = range.startPage; page <= range.endPage; page++) {
+        if (pages.has(page)) continue;
+        pages.add(page);
+        fresh++;
+      }
+      return sum + (range.minutes * fresh) / pageCount(range);
+    }, 0);
+}
+
+export function applyReadingTimes(
+  plan: CoursePlan,
+  documents: BookAnalysis[],
+  profile: ReaderProfile
+): CoursePlan {
+  const documentKey = (documentId: string | undefined) =>
+    findDocument(documents, documentId)?.documentId ?? documentId ?? "";
+  const refKey = (documentId: string | undefined, chapterNumber: number) =>
+    `${documentKey(documentId)}#${chapterNumber}`;
+
+  // A whole chapter covered by several units is split evenly between them
+  const sharing = new Map<string, number>();
+  for (const unit of plan.units) {
+    const keys = new Set(
+      unit.sourceChapters
+        .filter((ref) => ref.sectionNumber === undefined)
+        .map((ref) => refKey(ref.documentId, ref.chapterNumber))
+    );
+    for (const key of keys) sharing.set(key, (sharing.get(key) ?? 0) + 1);
+  }
+
+  const units = plan.units.map((unit) => {
+    const ranges: ReadingRange[] = [];
+
+    for (const ref of unit.sourceChapters) {
+      const chapter = findDocument(documents, ref.documentId)?.chapters.find(
+        (ch) => ch.chapterNumber === ref.chapterNumber
+      );
+      if (!chapter) continue;
+
+      const section =
+        ref.sectionNumber !== undefined
+          ? chapter.sections?.find((s) => s.sectionNumber === ref.sectionNumber)
+          : undefined;
+      const { startPage, endPage } = section ?? chapter;
+      const range = { documentKey: documentKey(ref.documentId), startPage, endPage };
+      if (section?.textDensity) {
+        ranges.push({ ...range, minutes: estimateReadingMinutes(section.textDensity, profile) });
+      } else if (section) {
+        // Analyses made before densities were stored: the section's share of the chapter
+        const share =
+          (section.endPage - section.startPage + 1) / (chapter.endPage - chapter.startPage + 1);
+        ranges.push({
+          ...range,
+          minutes: chapter.estimatedReadingMinutes * share * profileFactor(profile)
+        });
+      } else {
+        const whole = chapter.textDensity
+          ? estimateReadingMinutes(chapter.textDensity, profile)
+          : chapter.estimatedReadingMinutes * profileFactor(profile);
+        ranges.push({
+          ...range,
+          minutes: whole / (sharing.get(refKey(ref.documentId, ref.chapterNumber)) ?? 1)
+        });
+      }
+    }
+
+    // Units that cover nothing in the analyses keep their estimate
+    return ranges.length
+      ? { ...unit, estimatedMinutes: Math.max(1, Math.round(rangeMinutes(ranges))) }
+      : unit;
+  });
+
+  const totalMinutes = units.reduce((sum, unit) => sum + unit.estimatedMinutes, 0);
+  return { ...plan, units, estimatedHours: Math.round(totalMinutes / 6) / 10 };
+}
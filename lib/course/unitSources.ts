@@ -0,0 +1,192 @@
+import { z } from "zod";
+import { findDocument, pageLabelFor, type BookAnalysis } from "@/lib/pdf/analyzeBook";
+import { conceptKey } from "@/lib/pdf/conceptIndex";
+import {
+  readCourseDocuments,
+  readCoursePlan,
+  readExtractedText,
+  type CoursePlan,
+  type SourceChapterRef
+} from "@/lib/state/courseFiles";
+
+// A page range in one of the course's documents; label uses the printed page numbers
+export type SourceCitation = {
+  documentId?: string;
+  startPage: number; // 0-based
+  endPage: number; // 0-based, inclusive
+  label: string; // e.g. "pp. 37-39"
+};
+
+// A source range of a plan unit with the text of its pages
+export type UnitSource = {
+  number: number; // 1-based, as the model sees it ("S1")
+  unitNumber: number;
+  document: BookAnalysis;
+  title: string; // chapter or section reference for prompts
+  heading: string; // the chapter's or section's own title
+  startPage: number;
+  endPage: number;
+  pages: string[];
+};
+
+export type PlanUnit = CoursePlan["units"][number];
+
+export function pageCitation(
+  document: BookAnalysis,
+  startPage: number,
+  endPage: number
+): SourceCitation {
+  const start = pageLabelFor(document, startPage);
+  const end = pageLabelFor(document, endPage);
+  return {
+    ...(document.documentId ? { documentId: document.documentId } : {}),
+    startPage,
+    endPage,
+    label: startPage === endPage ? `p. ${start}` : `pp. ${start}-${end}`
+  };
+}
+
+export function sourceCitation(source: UnitSource) {
+  return pageCitation(source.document, source.startPage, source.endPage);
+}
+
+// Identifies what a unit is built from; generated material made from other
+// sources is stale
+export function sourceKey(refs: SourceChapterRef[]) {
+  return JSON.stringify(
+    refs.map((ref) => [ref.documentId ?? "", ref.chapterNumber, ref.sectionNumber ?? 0])
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Loading — the chapters and sections the units map to, with their pages
+// ---------------------------------------------------------------------------
+
+export async function loadUnitSources(userId: string, courseId: string, unitNumbers: number[]) {
+  const [plan, documents] = await Promise.all([
+    readCoursePlan(userId, courseId),
+    readCourseDocuments(userId, courseId)
+  ]);
+  const units = unitNumbers.map((unitNumber) => {
+    const unit = plan?.units.find((u) => u.unitNumber === unitNumber);
+    if (!unit) throw new Error(`Unit ${unitNumber} is not in the course plan.`);
+    return unit;
+  });
+
+  const pagesByDocument = new Map<string, string[] | null>();
+  const sources: UnitSource[] = [];
+  for (const unit of units) {
+    for (const ref of unit.sourceChapters) {
+      const document = findDocument(documents, ref.documentId);
+      const chapter = document?.chapters.find((ch) => ch.chapterNumber === ref.chapterNumber);
+      if (!document || !chapter) continue;
+      const section =
+        ref.sectionNumber !== undefined
+          ? chapter.sections?.find((s) => s.sectionNumber === ref.sectionNumber)
+          : undefined;
+      const range = section ?? chapter;
+
+      const key = document.documentId ?? "";
+      if (!pagesByDocument.has(key)) {
+        pagesByDocument.set(key, await readExtractedText(userId, courseId, document.documentId));
+      }
+      const pages = pagesByDocument.get(key);
+      if (!pages) continue;
+
+      sources.push({
+        number: sources.length + 1,
+        unitNumber: unit.unitNumber,
+        document,
+        title: section
+          ? `Chapter ${chapter.chapterNumber}, section ${chapter.chapterNumber}.${section.sectionNumber} "${section.title}"`
+          : `Chapter ${chapter.chapterNumber} "${chapter.title}"`,
+        heading: range.title,
+        startPage: range.startPage,
+        endPage: range.endPage,
+        pages: pages.slice(range.startPage, range.endPage + 1)
+      });
+    }
+  }
+  if (!sources.length) {
+    throw new Error(`No source pages were found for unit ${unitNumbers.join(", ")}.`);
+  }
+
+  return { units, sources };
+}
+
+// The chapter a source is in, for its key concepts
+export function sourceChapter(source: UnitSource) {
+  return source.document.chapters.find(
+    (ch) => ch.startPage <= source.startPage && ch.endPage >= source.endPage
+  );
+}
+
+// Key concepts explained within the source, with the page each is explained on
+export function sourceConcepts(source: UnitSource) {
+  return (sourceChapter(source)?.conceptReferences ?? []).flatMap((concept) => {
+    const page = concept.pages.find((p) => p >= source.startPage && p <= source.endPage);
+    return page === undefined ? [] : [{ name: concept.name, page }];
+  });
+}
+
+// First sentence on the page that names the concept, usually where it is defined;
+// short lines are headings rather than sentences
+export function definingSentence(source: UnitSource, conceptName: string, page: number) {
+  const key = conceptKey(conceptName);
+  return (source.pages[page - source.startPage] ?? "")
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .find((s) => s.split(" ").length >= 5 && conceptKey(s).includes(key));
+}
+
+// ---------------------------------------------------------------------------
+// Prompts — sources are marked [S1 Page 37] with the 1-based page index, so
+// citations can be traced back to a document and page
+// ---------------------------------------------------------------------------
+
+export function sourcesBlock(sources: UnitSource[], maxChars: number) {
+  const total = sources.reduce(
+    (sum, source) => sum + source.pages.reduce((n, page) => n + page.length, 0),
+    0
+  );
+  const ratio = Math.min(1, maxChars / Math.max(1, total));
+
+  return sources
+    .map((source) => {
+      const header = `Source S${source.number}: "${source.document.title}", ${source.title}`;
+      const pages = source.pages.map((text, i) => {
+        const kept = ratio < 1 ? `${text.slice(0, Math.floor(text.length * ratio))} [...]` : text;
+        return `[S${source.number} Page ${source.startPage + i + 1}]\n${kept}`;
+      });
+      return [header, ...pages].join("\n\n");
+    })
+    .join("\n\n");
+}
+
+export const citationSchema = z.object({
+  source: z.number().describe("Source number from the [Sn Page N] markers"),
+  startPage: z.number().describe("Page number N from the markers"),
+  endPage: z.number()
+});
+
+export const citationsSchema = z
+  .array(citationSchema)
+  .describe("Source pages this is based on; at least one");
+
+// Citations outside the source's pages are clamped to them; uncited items cite
+// the first source's full range, so every item points somewhere in the book
+export function resolveCitations(
+  cited: z.infer<typeof citationSchema>[],
+  sources: UnitSource[]
+): SourceCitation[] {
+  const resolved = cited.flatMap((c) => {
+    const source = sources.find((s) => s.number === Math.round(c.source));
+    if (!source) return [];
+    const clamp = (n: number) =>
+      Math.min(source.endPage, Math.max(source.startPage, Math.round(n) - 1));
+    const start = clamp(Math.min(c.startPage, c.endPage));
+    const end = clamp(Math.max(c.startPage, c.endPage));
+    return [pageCitation(source.document, start, end)];
+  });
+  return resolved.length ? resolved : [sourceCitation(sources[0])];
+}
@@ -0,0 +1,249 @@
+import path from "path";
+import {
+  structureFromOutline,
+  type BookStructure,
+  type ResolvedOutlineNode
+} from "@/lib/pdf/detectStructure";
+import { pageAt, pageTexts, paginate } from "@/lib/text/pages";
+import { attribute, decodeEntities, htmlToText, stripTags } from "./html";
+import { openZip, type ZipArchive } from "./zip";
+
+export type EpubExtraction = {
+  totalPages: number;
+  pages: string[];
+  pageLabels: string[];
+  structure: BookStructure; // read from the navigation document, no detection needed
+};
+
+// A node of the navigation document before its link is resolved to a page
+type NavLink = {
+  title: string;
+  href?: string;
+  children: NavLink[];
+};
+
+// Where a spine document's text landed in the pages
+type SpineDocument = {
+  firstPage: number;
+  starts: number[]; // offset in the document's text where each of its pages starts
+  anchors: Map<string, number>;
+};
+
+type ManifestItem = {
+  href: string; // path inside the archive
+  mediaType: string;
+  properties: string[];
+};
+
+function readEntry(zip: ZipArchive, name: string) {
+  return zip.read(name)?.toString("utf8") ?? null;
+}
+
+// Hrefs are relative to the document they appear in; the fragment names an element id
+function resolveHref(fromPath: string, href: string) {
+  const [file, fragment] = href.split("#");
+  let target = fromPath;
+  if (file) {
+    try {
+      target = path.posix.join(path.posix.dirname(fromPath), decodeURIComponent(file));
+    } catch {
+      target = path.posix.join(path.posix.dirname(fromPath), file);
+    }
+  }
+  return { path: target.replace(/^\.\//, ""), fragment: fragment || undefined };
+}
+
+function tags(xml: string, name: string) {
+  return xml.match(new RegExp(`<(?:[a-z]+:)?${name}\\b[^>]*>`, "gi")) ?? [];
+}
+
+function elementText(xml: string, name: string) {
+  const match = xml.match(new RegExp(`<(?:[a-z]+:)?${name}\\b[^>]*>([\\s\\S]*?)</`, "i"));
+  return match ? stripTags(match[1]) : "";
+}
+
+// ---------------------------------------------------------------------------
+// Package document — metadata, manifest and reading order
+// ---------------------------------------------------------------------------
+
+function readPackage(zip: ZipArchive) {
+  const container = readEntry(zip, "META-INF/container.xml");
+  const rootfile = container ? tags(container, "rootfile")[0] : undefined;
+  const packagePath = rootfile ? attribute(rootfile, "full-path") : undefined;
+  const opf = packagePath ? readEntry(zip, packagePath) : null;
+  if (!packagePath || !opf) throw new Error("Not a valid EPUB: the package document is missing.");
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const tag of tags(opf, "item")) {
+    const id = attribute(tag, "id");
+    const href = attribute(tag, "href");
+    if (!id || !href) continue;
+    manifest.set(id, {
+      href: resolveHref(packagePath, href).path,
+      mediaType: attribute(tag, "media-type") ?? "",
+      properties: (attribute(tag, "properties") ?? "").split(/\s+/).filter(Boolean)
+    });
+  }
+
+  const spineTag = tags(opf, "spine")[0] ?? "";
+  const spine = tags(opf, "itemref").flatMap((tag) => {
+    const item = manifest.get(attribute(tag, "idref") ?? "");
+    return item && /html/.test(item.mediaType) ? [item.href] : [];
+  });
+  const items = Array.from(manifest.values());
+
+  return {
+    title: elementText(opf, "title") || "Untitled Book",
+    author: elementText(opf, "creator") || undefined,
+    spine,
+    nav: items.find((item) => item.properties.includes("nav"))?.href,
+    ncx:
+      manifest.get(attribute(spineTag, "toc") ?? "")?.href ??
+      items.find((item) => item.mediaType === "application/x-dtbncx+xml")?.href
+  };
+}
+
+// Content documents listed in META-INF/encryption.xml cannot be read without the DRM key
+function encryptedPaths(zip: ZipArchive) {
+  const encryption = readEntry(zip, "META-INF/encryption.xml");
+  if (!encryption) return new Set<string>();
+  return new Set(
+    tags(encryption, "CipherReference").flatMap((tag) => {
+      const uri = attribute(tag, "URI");
+      return uri ? [resolveHref("", uri).path] : [];
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Navigation — the EPUB 3 nav document, or the EPUB 2 NCX
+// ---------------------------------------------------------------------------
+
+function readNavDocument(html: string): NavLink[] {
+  const toc =
+    html.match(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i) ??
+    html.match(/<nav\b[^>]*>([\s\S]*?)<\/nav>/i);
+  if (!toc) return [];
+
+  const root: NavLink[] = [];
+  const open: NavLink[] = [];
+  for (const token of toc[1].match(/<[^>]*>|[^<]+/g) ?? []) {
+    const current = open[open.length - 1];
+    if (/^<li\b/i.test(token)) {
+      const link: NavLink = { title: "", children: [] };
+      (current?.children ?? root).push(link);
+      open.push(link);
+    } else if (/^<\/li\b/i.test(token)) {
+      open.pop();
+    } else if (/^<a\b/i.test(token)) {
+      if (current && !current.href) current.href = attribute(token, "href");
+    } else if (!token.startsWith("<") && current) {
+      // Text of nested items goes to them, as they are the innermost open item
+      current.title += decodeEntities(token);
+    }
+  }
+  return root;
+}
+
+function readNcx(xml: string): NavLink[] {
+  const root: NavLink[] = [];
+  const open: NavLink[] = [];
+  let inLabel = false;
+  for (const token of xml.match(/<[^>]*>|[^<]+/g) ?? []) {
+    const current = open[open.length - 1];
+    if (/^<navPoint\b/i.test(token)) {
+      const link: NavLink = { title: "", children: [] };
+      (current?.children ?? root).push(link);
+      open.push(link);
+    } else if (/^<\/navPoint\b/i.test(token)) {
+      open.pop();
+    } else if (/^<navLabel\b/i.test(token)) {
+      inLabel = true;
+    } else if (/^<\/navLabel\b/i.test(token)) {
+      inLabel = false;
+    } else if (/^<content\b/i.test(token)) {
+      if (current && !current.href) current.href = attribute(token, "src");
+    } else if (!token.startsWith("<") && inLabel && current) {
+      current.title += decodeEntities(token);
+    }
+  }
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+export async function extractEpub(buffer: Buffer): Promise<EpubExtraction> {
+  const zip = openZip(buffer);
+  const pkg = readPackage(zip);
+  const encrypted = encryptedPaths(zip);
+  if (pkg.spine.some((doc) => encrypted.has(doc))) {
+    throw new Error("This EPUB is DRM-protected; only DRM-free EPUBs can be read.");
+  }
+
+  const pages: string[] = [];
+  const documents = new Map<string, SpineDocument>();
+  const titles: Array<{ title?: string; firstPage: number }> = [];
+
+  for (const docPath of pkg.spine) {
+    const html = readEntry(zip, docPath);
+    if (html === null) continue;
+    const { title, text, anchors } = htmlToText(html);
+    const firstPage = pages.length;
+    const starts = text ? paginate(text) : [];
+    pages.push(...pageTexts(text, starts));
+    documents.set(docPath, { firstPage, starts, anchors });
+    if (text) titles.push({ title, firstPage });
+  }
+
+  if (!pages.some((page) => page.trim())) {
+    throw new Error("No readable text found in the EPUB.");
+  }
+
+  const pageOf = (fromPath: string, href: string | undefined) => {
+    if (!href) return null;
+    const target = resolveHref(fromPath, href);
+    const doc = documents.get(target.path);
+    if (!doc) return null;
+    const offset = target.fragment ? doc.anchors.get(target.fragment) : undefined;
+    const index = offset === undefined ? 0 : pageAt(doc.starts, offset);
+    return Math.min(doc.firstPage + index, pages.length - 1);
+  };
+
+  // Items whose link goes nowhere readable start where their first child starts
+  const resolve = (links: NavLink[], fromPath: string): ResolvedOutlineNode[] =>
+    links.flatMap((link) => {
+      const children = resolve(link.children, fromPath);
+      const title = link.title.replace(/\s+/g, " ").trim();
+      const startPage = pageOf(fromPath, link.href) ?? children[0]?.startPage;
+      return title && startPage !== undefined ? [{ title, startPage, children }] : [];
+    });
+
+  const navHtml = pkg.nav ? readEntry(zip, pkg.nav) : null;
+  const ncxXml = pkg.ncx ? readEntry(zip, pkg.ncx) : null;
+  let nodes: ResolvedOutlineNode[] =
+    pkg.nav && navHtml ? resolve(readNavDocument(navHtml), pkg.nav) : [];
+  if (!nodes.length && pkg.ncx && ncxXml) nodes = resolve(readNcx(ncxXml), pkg.ncx);
+
+  // Without navigation, each document in the reading order is a chapter
+  if (!nodes.length) {
+    nodes = titles.map((doc, i) => ({
+      title: doc.title ?? `Section ${i + 1}`,
+      startPage: doc.firstPage,
+      children: []
+    }));
+  }
+
+  return {
+    totalPages: pages.length,
+    pages,
+    pageLabels: pages.map((_, i) => String(i + 1)),
+    structure: structureFromOutline(
+      nodes.sort((a, b) => a.startPage - b.startPage),
+      pages.length,
+      { title: pkg.title, ...(pkg.author ? { author: pkg.author } : {}) },
+      "epub-nav"
+    )
+  };
+}
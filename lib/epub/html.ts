@@ -0,0 +1,150 @@
+// Plain text from (X)HTML without a DOM: block elements become paragraph
+// breaks, and the text offset of every element id is kept so links into the
+// document ("chapter3.xhtml#sec2") can be placed in the text
+
+export type HtmlHeading = {
+  level: number; // 1-3, from <h1>-<h3>
+  title: string;
+  offset: number; // where the heading's text starts in text
+};
+
+export type HtmlText = {
+  title?: string; // <title>, or the first heading
+  text: string;
+  anchors: Map<string, number>; // element id → offset in text
+  headings: HtmlHeading[];
+};
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tr",
+  "ul"
+]);
+const SKIPPED_TAGS = /<(head|script|style|svg|math)\b[\s\S]*?<\/\1\s*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  shy: ""
+};
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1] === "x" || code[1] === "X"
+          ? Number.parseInt(code.slice(2), 16)
+          : Number.parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff
+        ? String.fromCodePoint(value)
+        : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+export function attribute(tag: string, name: string) {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i"));
+  return match ? decodeEntities(match[2] ?? match[3] ?? "") : undefined;
+}
+
+export function stripTags(html: string) {
+  return decodeEntities(html.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function htmlToText(html: string): HtmlText {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const headingMatch = html.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i);
+  const title = stripTags(titleMatch?.[1] ?? "") || stripTags(headingMatch?.[1] ?? "");
+
+  const body = html.replace(/<!--[\s\S]*?-->/g, "").replace(SKIPPED_TAGS, "");
+  const anchors = new Map<string, number>();
+  const headings: HtmlHeading[] = [];
+  let heading: HtmlHeading | null = null;
+  let text = "";
+  let pendingBreak = "";
+
+  for (const token of body.match(/<[^>]*>|[^<]+/g) ?? []) {
+    if (token.startsWith("<")) {
+      const name = token.match(/^<\/?\s*([a-z0-9]+)/i)?.[1]?.toLowerCase() ?? "";
+      const id = token.startsWith("</") ? undefined : attribute(token, "id");
+      if (name === "br") pendingBreak ||= "\n";
+      else if (BLOCK_TAGS.has(name)) pendingBreak = "\n\n";
+      else if ((name === "td" || name === "th") && !token.startsWith("</")) pendingBreak ||= " ";
+
+      if (name === "img") {
+        const alt = attribute(token, "alt")?.trim();
+        if (alt) {
+          text += `${text ? pendingBreak || " " : ""}[Image: ${alt}]`;
+          pendingBreak = "";
+        }
+      }
+      // Anchors and headings point at where the element's text starts, after any pending break
+      const start = text.length + (text ? pendingBreak.length : 0);
+      if (id && !anchors.has(id)) anchors.set(id, start);
+
+      const level = /^h[1-3]$/.test(name) ? Number(name[1]) : 0;
+      if (level && !token.startsWith("</")) {
+        heading = { level, title: "", offset: start };
+      } else if (level && heading) {
+        heading.title = heading.title.replace(/\s+/g, " ").trim();
+        if (heading.title) headings.push(heading);
+        heading = null;
+      }
+      continue;
+    }
+
+    const content = decodeEntities(token).replace(/\s+/g, " ");
+    if (heading) heading.title += content;
+    if (!content.trim()) {
+      if (content && text && !pendingBreak && !/\s$/.test(text)) text += " ";
+      continue;
+    }
+    if (text && pendingBreak) {
+      text = text.replace(/ +$/, "") + pendingBreak;
+      pendingBreak = "";
+    }
+    text += text && /\s$/.test(text) ? content.replace(/^ /, "") : content;
+  }
+
+  return { ...(title ? { title } : {}), text: text.trim(), anchors, headings };
+}
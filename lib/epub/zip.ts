@@ -0,0 +1,81 @@
+import { inflateRawSync } from "zlib";
+
+// Just enough of the ZIP format for EPUB containers: stored and deflated
+// entries from the central directory. Encrypted entries (DRM) are listed but
+// cannot be read.
+
+export type ZipArchive = {
+  names: string[];
+  read: (name: string) => Buffer | null; // null for missing or unreadable entries
+};
+
+type ZipEntry = {
+  method: number; // 0 = stored, 8 = deflated
+  encrypted: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+// No entry of a book needs more, whatever size its header claims
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+
+function findEndOfCentralDirectory(buffer: Buffer) {
+  const earliest = Math.max(0, buffer.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+export function openZip(buffer: Buffer): ZipArchive {
+  const end = buffer.length >= 22 ? findEndOfCentralDirectory(buffer) : -1;
+  if (end === -1) throw new Error("Not a ZIP archive.");
+
+  const count = buffer.readUInt16LE(end + 10);
+  const entries = new Map<string, ZipEntry>();
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The ZIP central directory is damaged.");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      encrypted: (buffer.readUInt16LE(offset + 8) & 1) === 1,
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+  }
+
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    if (!entry || entry.encrypted) return null;
+    try {
+      const header = entry.localHeaderOffset;
+      if (buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) return null;
+      const start =
+        header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+      const data = buffer.subarray(start, start + entry.compressedSize);
+      if (entry.method === 0) return Buffer.from(data);
+      // Inflating past the recorded size throws, so a zip bomb reads as null
+      if (entry.method === 8) {
+        const maxOutputLength = Math.max(1, Math.min(entry.uncompressedSize, MAX_ENTRY_SIZE));
+        return inflateRawSync(data, { maxOutputLength });
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  };
+
+  return { names: Array.from(entries.keys()), read };
+}
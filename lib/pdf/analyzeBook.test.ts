@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { absorbConcepts, chunkPages, CHUNK_CHARS, splitText } from "./analyzeBook";
+
+describe("splitText", () => {
+  it("cuts at a line break, else a word break, in the second half of a piece", () => {
+    expect(splitText("alpha beta\ngamma delta", 16)).toEqual(["alpha beta", "gamma delta"]);
+    expect(splitText("alpha beta gamma delta", 16)).toEqual(["alpha beta", "gamma delta"]);
+  });
+
+  it("cuts mid-word when there is no break to use", () => {
+    expect(splitText("abcdefghij", 4)).toEqual(["abcd", "efgh", "ij"]);
+  });
+});
+
+describe("chunkPages", () => {
+  it("packs whole pages into chunks with their page markers", () => {
+    const page = "word ".repeat(CHUNK_CHARS / 15);
+    const chunks = chunkPages([page, page, page, page], 10);
+
+    expect(chunks.map((chunk) => [chunk.startPage, chunk.endPage])).toEqual([
+      [10, 11],
+      [12, 13]
+    ]);
+    expect(chunks[0].text.startsWith("[Page 11]\n")).toBe(true);
+    expect(chunks[0].text).toContain("\n\n[Page 12]\n");
+  });
+
+  it("splits a page longer than a chunk instead of cutting it short", () => {
+    const long = "word ".repeat(CHUNK_CHARS / 2);
+    const chunks = chunkPages(["Opening page.", long], 0);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((chunk) => chunk.text.length <= CHUNK_CHARS)).toBe(true);
+    expect(chunks.slice(1).every((chunk) => chunk.startPage === 1 && chunk.endPage === 1)).toBe(
+      true
+    );
+    const words = chunks.flatMap((chunk) => chunk.text.match(/\bword\b/g) ?? []);
+    expect(words).toHaveLength(CHUNK_CHARS / 2);
+  });
+});
+
+describe("absorbConcepts", () => {
+  const parts = [
+    { name: "Limit", pages: [3, 4] },
+    { name: "Limits of sequences", pages: [20] },
+    { name: "One-sided limit", pages: [7] },
+    { name: "Continuity", pages: [9] }
+  ];
+
+  it("gives a merged concept the pages of every name it absorbed", () => {
+    const merged = absorbConcepts(parts, [
+      { name: "Limit", mergedFrom: ["Limits of sequences", "one-sided limits"] },
+      { name: "Continuity" }
+    ]);
+
+    expect(merged).toEqual([
+      { name: "Limit", pages: [3, 4, 7, 20] },
+      { name: "Continuity", pages: [9] }
+    ]);
+  });
+
+  it("joins concepts the model names twice and leaves new names without pages", () => {
+    const merged = absorbConcepts(parts, [
+      { name: "Limits", mergedFrom: ["Limit"] },
+      { name: "limit", mergedFrom: ["One-sided limit"] },
+      { name: "Epsilon-delta definition" }
+    ]);
+
+    expect(merged).toEqual([
+      { name: "Limits", pages: [3, 4, 7] },
+      { name: "Epsilon-delta definition", pages: [] }
+    ]);
+  });
+});
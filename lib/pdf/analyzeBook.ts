@@ -1,36 +1,275 @@
 import { generateObject } from "ai";
 import { z } from "zod";
 import { getModel } from "@/lib/ai/model";
-import { detectBookStructure, type BookStructure } from "./detectStructure";
+import { measureReading, measureText, type TextDensity } from "@/lib/course/readingTime";
+import {
+  assetReferences,
+  describeAsset,
+  type AssetReference,
+  type PageAsset
+} from "./assets";
+import { conceptKey } from "./conceptIndex";
+import {
+  detectBookStructure,
+  type BookStructure,
+  type TierDiagnostic
+} from "./detectStructure";
+import type { PageLayout } from "./layout";
+import { validateStructure, type CoverageIssue, type UncoveredSpan } from "./validateStructure";
 
-export type ChapterAnalysis = {
+// startPage/endPage are 0-based PDF page indices; the *Label fields hold the
+// number printed in the book for the same pages (e.g. "xii", "37")
+type PageLabels = {
+  startPageLabel?: string;
+  endPageLabel?: string;
+};
+
+export type SectionAnalysis = PageLabels & {
+  sectionNumber: number;
+  title: string;
+  startPage: number;
+  endPage: number;
+  textDensity?: TextDensity;
+};
+
+export type PartAnalysis = PageLabels & {
+  partNumber: number;
+  title: string;
+  startPage: number;
+  endPage: number;
+};
+
+export type ConceptReference = {
+  name: string;
+  pages: number[]; // 0-based page indices where the concept is explained
+};
+
+export type ChapterAnalysis = PageLabels & {
   chapterNumber: number;
   title: string;
   startPage: number;
   endPage: number;
+  partNumber?: number;
+  sections?: SectionAnalysis[];
   summary: string;
   keyConcepts: string[];
+  conceptReferences?: ConceptReference[]; // pages for each key concept
   learningObjectives: string[];
   prerequisites: string[];
-  estimatedReadingMinutes: number;
+  estimatedReadingMinutes: number; // baseline from textDensity, before the learner's profile
+  textDensity?: TextDensity;
+  assets?: AssetReference[]; // figures, tables and equations on the chapter's pages
 };
 
 export type BookAnalysis = {
+  documentId?: string; // course material this analysis belongs to; unset in older courses
   title: string;
   author?: string;
   totalPages: number;
+  pageLabels?: string[];
+  parts?: PartAnalysis[];
   chapters: ChapterAnalysis[];
   detectionMethod: string;
+  structureConfidence?: number; // 0-1, from the structure tier that was accepted
+  structureDiagnostics?: TierDiagnostic[];
+  coverageIssues?: CoverageIssue[]; // problems found in the chapter ranges, repaired or not
+  uncoveredSpans?: UncoveredSpan[]; // pages no chapter covers (preface, index, ...)
 };
 
+export function pageLabelFor(analysis: Pick<BookAnalysis, "pageLabels">, pageIndex: number) {
+  return analysis.pageLabels?.[pageIndex] ?? String(pageIndex + 1);
+}
+
+// Single-document courses, including those saved before documents had ids,
+// resolve every reference to their only document
+export function findDocument(documents: BookAnalysis[], documentId?: string) {
+  if (documents.length === 1) return documents[0];
+  return documents.find((doc) => doc.documentId === documentId);
+}
+
+function labelRange(pageLabels: string[] | undefined, startPage: number, endPage: number) {
+  return pageLabels
+    ? { startPageLabel: pageLabels[startPage], endPageLabel: pageLabels[endPage] }
+    : {};
+}
+
+// Bump when the chapter analysis prompt or schema changes; cached analyses
+// made with an older version are then ignored
+export const ANALYSIS_PROMPT_VERSION = 4;
+
+// Chapters longer than this are analyzed in page chunks that are then merged
+const MAX_SINGLE_PASS_CHARS = 80_000;
+export const CHUNK_CHARS = 40_000;
+// Chunks of one chapter analyzed at once; chapters themselves already run in parallel
+const CHUNK_CONCURRENCY = 3;
+
+// Numbered assets are listed first; a math-heavy chapter can have hundreds of equations
+const MAX_PROMPT_ASSETS = 60;
+
+const conceptSchema = z.object({
+  name: z.string(),
+  pages: z
+    .array(z.number())
+    .describe("Page numbers from the [Page N] markers where the concept is explained")
+});
+
 const chapterAnalysisSchema = z.object({
   summary: z.string(),
-  keyConcepts: z.array(z.string()),
+  keyConcepts: z.array(conceptSchema),
+  learningObjectives: z.array(z.string()),
+  prerequisites: z.array(z.string())
+});
+
+const chunkAnalysisSchema = z.object({
+  summary: z.string(),
+  keyConcepts: z.array(conceptSchema),
   learningObjectives: z.array(z.string()),
-  prerequisites: z.array(z.string()),
-  estimatedReadingMinutes: z.number()
+  prerequisites: z.array(z.string())
 });
 
+const chapterMergeSchema = z.object({
+  summary: z.string(),
+  keyConcepts: z.array(
+    z.object({
+      name: z.string(),
+      mergedFrom: z
+        .array(z.string())
+        .describe("Concept names from the parts that mean the same thing as this one")
+    })
+  ),
+  learningObjectives: z.array(z.string()),
+  prerequisites: z.array(z.string())
+});
+
+// Reading time is measured from the text, not asked of the model
+type ChapterResult = Pick<
+  ChapterAnalysis,
+  "summary" | "keyConcepts" | "conceptReferences" | "learningObjectives" | "prerequisites"
+>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function placeholderAnalysis(title: string): ChapterResult {
+  return {
+    summary: `Content from "${title}".`,
+    keyConcepts: [],
+    learningObjectives: [],
+    prerequisites: []
+  };
+}
+
+// The model cites pages by the 1-based [Page N] markers; keep those inside the range
+function toPageIndices(pageNumbers: number[], startPage: number, endPage: number) {
+  const indices = pageNumbers
+    .map((n) => Math.round(n) - 1)
+    .filter((index) => index >= startPage && index <= endPage);
+  return Array.from(new Set(indices)).sort((a, b) => a - b);
+}
+
+function withPageMarkers(pages: string[], startPage: number) {
+  return pages.map((text, i) => `[Page ${startPage + i + 1}]\n${text}`).join("\n\n");
+}
+
+function mergeConcepts(concepts: ConceptReference[]): ConceptReference[] {
+  const merged = new Map<string, ConceptReference>();
+  for (const concept of concepts) {
+    const key = conceptKey(concept.name);
+    if (!key) continue;
+    const existing = merged.get(key);
+    merged.set(key, {
+      name: existing?.name ?? concept.name,
+      pages: Array.from(new Set([...(existing?.pages ?? []), ...concept.pages])).sort(
+        (a, b) => a - b
+      )
+    });
+  }
+  return Array.from(merged.values());
+}
+
+function uniqueByKey(items: string[]) {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = conceptKey(item);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function assetsBlock(assets: PageAsset[]) {
+  if (!assets.length) return "";
+  const listed = [
+    ...assets.filter((asset) => asset.label),
+    ...assets.filter((asset) => !asset.label)
+  ].slice(0, MAX_PROMPT_ASSETS);
+  return `\n\nFigures, tables and equations (refer to them by label):\n${listed
+    .map((asset) => `- ${describeAsset(asset)}`)
+    .join("\n")}`;
+}
+
+function chapterAssets(assets: PageAsset[], startPage: number, endPage: number) {
+  const references = assetReferences(assets, startPage, endPage);
+  return references.length ? { assets: references } : {};
+}
+
+// Cuts text into pieces of at most size characters, at a line or word break when
+// there is one in the second half of the piece
+export function splitText(text: string, size: number) {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const head = rest.slice(0, size);
+    const lineBreak = head.lastIndexOf("\n");
+    const cut = lineBreak > size / 2 ? lineBreak : head.lastIndexOf(" ");
+    const end = cut > size / 2 ? cut : size;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end).trimStart();
+  }
+  return [...pieces, rest];
+}
+
+// Splits a chapter at page boundaries into chunks of about CHUNK_CHARS; a page
+// longer than that is split across chunks rather than cut short
+export function chunkPages(pages: string[], startPage: number) {
+  const chunks: Array<{ startPage: number; endPage: number; text: string }> = [];
+
+  pages.forEach((text, i) => {
+    const page = startPage + i;
+    const marker = `[Page ${page + 1}]\n`;
+    for (const piece of splitText(text, CHUNK_CHARS - marker.length)) {
+      const marked = `${marker}${piece}`;
+      const current = chunks[chunks.length - 1];
+      if (current && current.text.length + marked.length + 2 <= CHUNK_CHARS) {
+        current.text += `\n\n${marked}`;
+        current.endPage = page;
+      } else {
+        chunks.push({ startPage: page, endPage: page, text: marked });
+      }
+    }
+  });
+
+  return chunks;
+}
+
+// The concepts of a merged long chapter take their pages from the parts, so each
+// keeps the pages of every name it absorbed
+export function absorbConcepts(
+  parts: ConceptReference[],
+  merged: Array<{ name: string; mergedFrom?: string[] }>
+): ConceptReference[] {
+  const byKey = new Map(parts.map((concept) => [conceptKey(concept.name), concept]));
+  return mergeConcepts(
+    merged.map((concept) => ({
+      name: concept.name.trim(),
+      pages: [concept.name, ...(concept.mergedFrom ?? [])].flatMap(
+        (name) => byKey.get(conceptKey(name))?.pages ?? []
+      )
+    }))
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Analyze a single chapter
 // ---------------------------------------------------------------------------
@@ -38,26 +277,30 @@ const chapterAnalysisSchema = z.object({
 async function analyzeChapter(
   chapterNumber: number,
   title: string,
-  chapterText: string,
-  previousChapterContext: string | null
-): Promise<Omit<ChapterAnalysis, "chapterNumber" | "title" | "startPage" | "endPage">> {
+  chapterPages: string[],
+  startPage: number,
+  previousChapterContext: string | null,
+  assets: PageAsset[] = []
+): Promise<ChapterResult> {
   const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+  const chapterText = chapterPages.join("\n\n");
 
   if (!hasApiKey) {
-    return {
-      summary: `Content from "${title}".`,
-      keyConcepts: [],
-      learningObjectives: [],
-      prerequisites: [],
-      estimatedReadingMinutes: Math.max(5, Math.round(chapterText.split(/\s+/).length / 250))
-    };
+    return placeholderAnalysis(title);
   }
 
-  // Truncate chapter text to ~20K tokens worth (~80K chars)
-  const maxChars = 80_000;
-  const truncatedText =
-    chapterText.length > maxChars ? chapterText.slice(0, maxChars) + "\n[...truncated]" : chapterText;
+  if (chapterText.length > MAX_SINGLE_PASS_CHARS) {
+    return analyzeLongChapter(
+      chapterNumber,
+      title,
+      chapterPages,
+      startPage,
+      previousChapterContext,
+      assets
+    );
+  }
 
+  const endPage = startPage + chapterPages.length - 1;
   const contextBlock = previousChapterContext
     ? `\nThe previous chapter covered these key concepts: ${previousChapterContext}\n`
     : "";
@@ -66,30 +309,132 @@ async function analyzeChapter(
     const { object } = await generateObject({
       model: getModel(),
       system:
-        "You analyze a single chapter/section of a textbook. Provide a concise summary, key concepts, learning objectives, prerequisites (concepts from earlier chapters this builds on), and an estimated reading time in minutes.",
-      prompt: `Chapter ${chapterNumber}: "${title}"${contextBlock}\n\nChapter text:\n${truncatedText}`,
+        "You analyze a single chapter/section of a textbook. Provide a concise summary, key concepts with the pages that explain them, learning objectives, and prerequisites (concepts from earlier chapters this builds on). Mention figures, tables and equations by their labels (e.g. \"Figure 3.4\") where they carry the material.",
+      prompt: `Chapter ${chapterNumber}: "${title}"${contextBlock}\n\nChapter text:\n${withPageMarkers(chapterPages, startPage)}${assetsBlock(assets)}`,
       temperature: 0.2,
       schema: chapterAnalysisSchema
     });
 
+    const concepts = mergeConcepts(
+      (object.keyConcepts || []).map((concept) => ({
+        name: concept.name.trim(),
+        pages: toPageIndices(concept.pages ?? [], startPage, endPage)
+      }))
+    );
+
     return {
       summary: object.summary || `Content from "${title}".`,
-      keyConcepts: object.keyConcepts || [],
+      keyConcepts: concepts.map((concept) => concept.name),
+      conceptReferences: concepts,
       learningObjectives: object.learningObjectives || [],
-      prerequisites: object.prerequisites || [],
-      estimatedReadingMinutes:
-        typeof object.estimatedReadingMinutes === "number" && object.estimatedReadingMinutes > 0
-          ? object.estimatedReadingMinutes
-          : Math.max(5, Math.round(chapterText.split(/\s+/).length / 250))
+      prerequisites: object.prerequisites || []
     };
   } catch {
+    return placeholderAnalysis(title);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Long chapters — each page chunk is analyzed on its own (map), then the
+// parts are merged into one analysis (reduce)
+// ---------------------------------------------------------------------------
+
+async function analyzeLongChapter(
+  chapterNumber: number,
+  title: string,
+  chapterPages: string[],
+  startPage: number,
+  previousChapterContext: string | null,
+  assets: PageAsset[]
+): Promise<ChapterResult> {
+  const chunks = chunkPages(chapterPages, startPage);
+
+  const analyzeChunk = async (chunk: (typeof chunks)[number], i: number) => {
+    const chunkAssets = assets.filter(
+      (asset) => asset.pageIndex >= chunk.startPage && asset.pageIndex <= chunk.endPage
+    );
+    try {
+      const { object } = await generateObject({
+        model: getModel(),
+        system:
+          "You analyze one part of a long textbook chapter. Summarize this part only, and list its key concepts with the pages that explain them, its learning objectives, and prerequisites it assumes. Mention figures, tables and equations by their labels where they carry the material.",
+        prompt: `Chapter ${chapterNumber}: "${title}", part ${i + 1} of ${chunks.length} (pages ${chunk.startPage + 1}-${chunk.endPage + 1})\n\n${chunk.text}${assetsBlock(chunkAssets)}`,
+        temperature: 0.2,
+        schema: chunkAnalysisSchema
+      });
+      return {
+        ...chunk,
+        summary: object.summary,
+        concepts: (object.keyConcepts || []).map((concept) => ({
+          name: concept.name.trim(),
+          pages: toPageIndices(concept.pages ?? [], chunk.startPage, chunk.endPage)
+        })),
+        learningObjectives: object.learningObjectives || [],
+        prerequisites: object.prerequisites || []
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  // Chunks run a few at a time, so a very long chapter does not fire every request at once
+  const analyzed: Array<Awaited<ReturnType<typeof analyzeChunk>>> = [];
+  for (let batchStart = 0; batchStart < chunks.length; batchStart += CHUNK_CONCURRENCY) {
+    const batch = chunks.slice(batchStart, batchStart + CHUNK_CONCURRENCY);
+    analyzed.push(
+      ...(await Promise.all(batch.map((chunk, j) => analyzeChunk(chunk, batchStart + j))))
+    );
+  }
+  const parts = analyzed.filter((part): part is NonNullable<typeof part> => part !== null);
+
+  if (!parts.length) {
+    return placeholderAnalysis(title);
+  }
+
+  const concepts = mergeConcepts(parts.flatMap((part) => part.concepts));
+  const fallback: ChapterResult = {
+    summary: parts.map((part) => part.summary).join(" "),
+    keyConcepts: concepts.map((concept) => concept.name),
+    conceptReferences: concepts,
+    learningObjectives: uniqueByKey(parts.flatMap((part) => part.learningObjectives)),
+    prerequisites: uniqueByKey(parts.flatMap((part) => part.prerequisites))
+  };
+
+  const contextBlock = previousChapterContext
+    ? `\nThe previous chapter covered these key concepts: ${previousChapterContext}\n`
+    : "";
+  const partsBlock = parts
+    .map((part, i) =>
+      [
+        `Part ${i + 1} (pages ${part.startPage + 1}-${part.endPage + 1}): ${part.summary}`,
+        `Concepts: ${part.concepts.map((concept) => concept.name).join(", ")}`,
+        `Objectives: ${part.learningObjectives.join("; ")}`,
+        `Prerequisites: ${part.prerequisites.join("; ")}`
+      ].join("\n")
+    )
+    .join("\n\n");
+
+  try {
+    const { object } = await generateObject({
+      model: getModel(),
+      system:
+        "You merge the analyses of consecutive parts of one long textbook chapter into a single chapter analysis. Write one summary that covers the whole chapter, giving the later, harder material its due. Merge concepts that mean the same thing, listing every part's name for it in mergedFrom. Drop prerequisites that an earlier part of the same chapter teaches.",
+      prompt: `Chapter ${chapterNumber}: "${title}" (${chapterPages.length} pages)${contextBlock}\n\n${partsBlock}`,
+      temperature: 0.2,
+      schema: chapterMergeSchema
+    });
+
+    const merged = absorbConcepts(concepts, object.keyConcepts || []);
+
     return {
-      summary: `Content from "${title}".`,
-      keyConcepts: [],
-      learningObjectives: [],
-      prerequisites: [],
-      estimatedReadingMinutes: Math.max(5, Math.round(chapterText.split(/\s+/).length / 250))
+      summary: object.summary || fallback.summary,
+      keyConcepts: merged.length ? merged.map((concept) => concept.name) : fallback.keyConcepts,
+      conceptReferences: merged.length ? merged : fallback.conceptReferences,
+      learningObjectives: uniqueByKey(object.learningObjectives || []),
+      prerequisites: uniqueByKey(object.prerequisites || [])
     };
+  } catch {
+    return fallback;
   }
 }
 
@@ -99,10 +444,25 @@ async function analyzeChapter(
 
 async function analyzeChaptersWithContext(
   structure: BookStructure,
-  pages: string[]
+  pages: string[],
+  pageLabels?: string[],
+  options: Pick<AnalyzeBookOptions, "completedChapters" | "onChapterAnalyzed" | "assets"> = {}
 ): Promise<ChapterAnalysis[]> {
   const results: ChapterAnalysis[] = new Array(structure.chapters.length);
   const concurrencyLimit = 5;
+  const total = structure.chapters.length;
+  let done = 0;
+
+  // Chapters finished by an earlier, interrupted run are kept when their range still matches
+  structure.chapters.forEach((chapter, i) => {
+    const completed = options.completedChapters?.find((ch) => ch.chapterNumber === i + 1);
+    const sameRange =
+      completed?.startPage === chapter.startPage && completed?.endPage === chapter.endPage;
+    if (completed && sameRange) {
+      results[i] = completed;
+      done++;
+    }
+  });
 
   // We process sequentially in batches to maintain cross-chapter context.
   // Within each batch, chapters run in parallel. The first chapter of each
@@ -113,8 +473,9 @@ async function analyzeChaptersWithContext(
     const batchPromises: Promise<void>[] = [];
 
     for (let i = batchStart; i < batchEnd; i++) {
+      if (results[i]) continue;
       const chapter = structure.chapters[i];
-      const chapterText = pages.slice(chapter.startPage, chapter.endPage + 1).join("\n\n");
+      const chapterPages = pages.slice(chapter.startPage, chapter.endPage + 1);
 
       // Cross-chapter context: use previous chapter's key concepts if available
       let previousContext: string | null = null;
@@ -122,18 +483,41 @@ async function analyzeChaptersWithContext(
         previousContext = results[i - 1].keyConcepts.join(", ");
       }
 
-      const promise = analyzeChapter(i + 1, chapter.title, chapterText, previousContext).then(
-        (analysis) => {
-          results[i] = {
-            chapterNumber: i + 1,
-            title: chapter.title,
-            startPage: chapter.startPage,
-            endPage: chapter.endPage,
-            ...analysis
-          };
-        }
+      const assets = (options.assets ?? []).filter(
+        (asset) => asset.pageIndex >= chapter.startPage && asset.pageIndex <= chapter.endPage
       );
 
+      const promise = analyzeChapter(
+        i + 1,
+        chapter.title,
+        chapterPages,
+        chapter.startPage,
+        previousContext,
+        assets
+      ).then(async (analysis) => {
+        results[i] = {
+          chapterNumber: i + 1,
+          title: chapter.title,
+          startPage: chapter.startPage,
+          endPage: chapter.endPage,
+          ...labelRange(pageLabels, chapter.startPage, chapter.endPage),
+          ...(chapter.partIndex !== undefined ? { partNumber: chapter.partIndex + 1 } : {}),
+          sections: (chapter.sections ?? []).map((section, si) => ({
+            sectionNumber: si + 1,
+            ...section,
+            ...labelRange(pageLabels, section.startPage, section.endPage),
+            textDensity: measureText(
+              pages.slice(section.startPage, section.endPage + 1).join("\n")
+            )
+          })),
+          ...analysis,
+          ...measureReading(chapterPages),
+          ...chapterAssets(assets, chapter.startPage, chapter.endPage)
+        };
+        done++;
+        await options.onChapterAnalyzed?.(results[i], done, total);
+      });
+
       batchPromises.push(promise);
     }
 
@@ -147,15 +531,145 @@ async function analyzeChaptersWithContext(
 // Main entry point
 // ---------------------------------------------------------------------------
 
-export async function analyzeBook(buffer: Buffer, pages: string[]): Promise<BookAnalysis> {
-  const structure = await detectBookStructure(buffer, pages);
-  const chapters = await analyzeChaptersWithContext(structure, pages);
+// Progress hooks and resume state for long-running ingestion. Passing back
+// what an interrupted run reported skips the work it already finished.
+export type AnalyzeBookOptions = {
+  detected?: BookStructure; // structure from an earlier run; detection is skipped
+  completedChapters?: ChapterAnalysis[];
+  assets?: PageAsset[]; // figures, tables and equations found during extraction
+  onDetected?: (detected: BookStructure, chapterCount: number) => Promise<void> | void;
+  onChapterAnalyzed?: (
+    chapter: ChapterAnalysis,
+    done: number,
+    total: number
+  ) => Promise<void> | void;
+};
+
+export async function analyzeBook(
+  buffer: Buffer,
+  pages: string[],
+  pageLabels?: string[],
+  layouts?: PageLayout[],
+  options: AnalyzeBookOptions = {}
+): Promise<BookAnalysis> {
+  const detected = options.detected ?? (await detectBookStructure(buffer, pages, layouts));
+  const { structure, coverage } = validateStructure(detected, pages);
+  await options.onDetected?.(detected, structure.chapters.length);
+  const chapters = await analyzeChaptersWithContext(structure, pages, pageLabels, options);
 
   return {
     title: structure.title,
     author: structure.author,
     totalPages: pages.length,
+    ...(pageLabels ? { pageLabels } : {}),
+    parts: structure.parts.map((part, i) => ({
+      partNumber: i + 1,
+      ...part,
+      ...labelRange(pageLabels, part.startPage, part.endPage)
+    })),
     chapters,
-    detectionMethod: structure.detectionMethod
+    detectionMethod: structure.detectionMethod,
+    structureConfidence: structure.confidence,
+    structureDiagnostics: structure.diagnostics,
+    coverageIssues: coverage.issues,
+    uncoveredSpans: coverage.uncovered.map((span) => ({
+      ...span,
+      ...labelRange(pageLabels, span.startPage, span.endPage)
+    }))
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Manual boundary edits — only chapters whose page range changed are analyzed
+// again; the rest keep their analysis under the new number and title
+// ---------------------------------------------------------------------------
+
+export type ChapterEdit = {
+  title: string;
+  startPage: number; // 0-based
+  endPage: number; // 0-based, inclusive
+  sourceChapterNumber?: number; // chapter this row was edited from, if any
+};
+
+export async function applyChapterEdits(
+  analysis: BookAnalysis,
+  edits: ChapterEdit[],
+  pages: string[],
+  assets: PageAsset[] = []
+): Promise<{ analysis: BookAnalysis; reanalyzed: number[] }> {
+  const pageLabels = analysis.pageLabels;
+  const { structure, coverage } = validateStructure({ parts: [], chapters: edits }, pages, {
+    absorbGaps: false
+  });
+
+  const chapters: ChapterAnalysis[] = [];
+  const reanalyzed: number[] = [];
+
+  for (const edit of structure.chapters) {
+    const chapterNumber = chapters.length + 1;
+    const source = analysis.chapters.find((ch) => ch.chapterNumber === edit.sourceChapterNumber);
+    const part = (analysis.parts ?? []).find(
+      (p) => edit.startPage >= p.startPage && edit.startPage <= p.endPage
+    );
+    const sections = (source?.sections ?? [])
+      .filter((s) => s.startPage >= edit.startPage && s.startPage <= edit.endPage)
+      .map((s, si) => {
+        const endPage = Math.min(s.endPage, edit.endPage);
+        return {
+          ...s,
+          sectionNumber: si + 1,
+          endPage,
+          ...labelRange(pageLabels, s.startPage, endPage),
+          textDensity: measureText(pages.slice(s.startPage, endPage + 1).join("\n"))
+        };
+      });
+
+    const boundary = {
+      chapterNumber,
+      title: edit.title,
+      startPage: edit.startPage,
+      endPage: edit.endPage,
+      ...labelRange(pageLabels, edit.startPage, edit.endPage),
+      ...(part ? { partNumber: part.partNumber } : {}),
+      sections
+    };
+
+    if (source && source.startPage === edit.startPage && source.endPage === edit.endPage) {
+      chapters.push({ ...source, ...boundary });
+      continue;
+    }
+
+    const previous = chapters[chapters.length - 1];
+    const chapterPages = pages.slice(edit.startPage, edit.endPage + 1);
+    const result = await analyzeChapter(
+      chapterNumber,
+      edit.title,
+      chapterPages,
+      edit.startPage,
+      previous ? previous.keyConcepts.join(", ") : null,
+      assets.filter((asset) => asset.pageIndex >= edit.startPage && asset.pageIndex <= edit.endPage)
+    );
+    chapters.push({
+      ...boundary,
+      ...result,
+      ...measureReading(chapterPages),
+      ...chapterAssets(assets, edit.startPage, edit.endPage)
+    });
+    reanalyzed.push(chapterNumber);
+  }
+
+  return {
+    analysis: {
+      ...analysis,
+      chapters,
+      detectionMethod: "manual",
+      structureConfidence: 1,
+      coverageIssues: coverage.issues,
+      uncoveredSpans: coverage.uncovered.map((span) => ({
+        ...span,
+        ...labelRange(pageLabels, span.startPage, span.endPage)
+      }))
+    },
+    reanalyzed
   };
 }
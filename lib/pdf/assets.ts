@@ -0,0 +1,675 @@
+import {
+  createIsomorphicCanvasFactory,
+  getDocumentProxy,
+  getResolvedPDFJS,
+  renderPageAsImage
+} from "unpdf";
+import { isEquationLine } from "@/lib/course/readingTime";
+import {
+  joinRuns,
+  readTextRuns,
+  resolveFonts,
+  type PdfPage,
+  type TextContent,
+  type TextRun
+} from "./layout";
+
+// Points from the top-left corner of the page, like LayoutBlock.top
+export type AssetBox = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+type AssetBase = {
+  id: string; // unique within the document, e.g. "p45-figure-1"
+  pageIndex: number; // 0-based
+  label?: string; // as the book numbers it: "Figure 3.4", "Table 2.1", "Equation 3.12"
+  caption?: string;
+  box: AssetBox;
+};
+
+export type FigureAsset = AssetBase & {
+  kind: "figure";
+  imagePath?: string; // PNG of the figure, relative to the document folder
+};
+
+export type TableAsset = AssetBase & {
+  kind: "table";
+  rows: string[][]; // cells by row and column; the first row is usually the header
+};
+
+export type EquationAsset = AssetBase & {
+  kind: "equation";
+  text: string; // glyph runs as printed
+  latex?: string; // only when every symbol could be translated
+};
+
+export type PageAsset = FigureAsset | TableAsset | EquationAsset;
+
+// What a chapter analysis keeps of each asset on its pages
+export type AssetReference = {
+  id: string;
+  kind: PageAsset["kind"];
+  label?: string;
+  page: number; // 0-based
+};
+
+const FIGURE_CAPTION = /^(figure|fig\.)\s*(\d+([.-]\d+)*[a-z]?)/i;
+const TABLE_CAPTION = /^table\s+(\d+([.-]\d+)*[a-z]?)/i;
+const EQUATION_NUMBER = /^\((\d+([.-]\d+)*[a-z]?)\)$/;
+const MATH_FONT_NAME = /cmmi|cmsy|cmex|msam|msbm|math|symbol|stix|cambria/i;
+
+const CELL_GAP_EMS = 1.2; // wider than any word space, even in justified text
+const MIN_TABLE_ROWS = 3;
+const MIN_FIGURE_GAP = 60; // points of empty space above a caption that can hold a drawing
+const MIN_IMAGE_SIZE = 40; // smaller images are icons and rules, not figures
+const RENDER_SCALE = 2;
+
+type Row = {
+  runs: TextRun[]; // left to right
+  cells: TextRun[][]; // runs split at wide gaps
+  text: string;
+  y: number; // baseline of the largest run, PDF user space
+  fontSize: number;
+  x0: number;
+  x1: number;
+};
+
+// ---------------------------------------------------------------------------
+// Rows and cells
+// ---------------------------------------------------------------------------
+
+function splitCells(runs: TextRun[]): TextRun[][] {
+  const cells: TextRun[][] = [];
+  let prev: TextRun | null = null;
+  for (const run of runs) {
+    const gap = prev ? run.x - (prev.x + prev.width) : 0;
+    const current = cells[cells.length - 1];
+    if (current && gap <= Math.max(run.fontSize, prev?.fontSize ?? 0) * CELL_GAP_EMS) {
+      current.push(run);
+    } else {
+      cells.push([run]);
+    }
+    prev = run;
+  }
+  return cells;
+}
+
+// Superscripts and subscripts sit off the baseline, so runs join a row by
+// their distance from its average height rather than from its first run
+function groupRows(runs: TextRun[]): Row[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: TextRun[][] = [];
+
+  for (const run of sorted) {
+    const current = groups[groups.length - 1];
+    const meanY = current ? current.reduce((sum, r) => sum + r.y, 0) / current.length : 0;
+    const size = current ? Math.max(run.fontSize, ...current.map((r) => r.fontSize)) : 0;
+    if (current && Math.abs(meanY - run.y) <= size * 0.6) {
+      current.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+
+  return groups.map((group) => {
+    const ordered = group.sort((a, b) => a.x - b.x);
+    const largest = ordered.reduce((a, b) => (b.fontSize > a.fontSize ? b : a));
+    return {
+      runs: ordered,
+      cells: splitCells(ordered),
+      text: joinRuns(ordered),
+      y: largest.y,
+      fontSize: largest.fontSize,
+      x0: ordered[0].x,
+      x1: Math.max(...ordered.map((r) => r.x + r.width))
+    };
+  });
+}
+
+function rowBox(rows: Row[], pageHeight: number): AssetBox {
+  const left = Math.min(...rows.map((r) => r.x0));
+  const right = Math.max(...rows.map((r) => r.x1));
+  const top = pageHeight - Math.max(...rows.map((r) => r.y + r.fontSize));
+  const bottom = pageHeight - Math.min(...rows.map((r) => r.y - r.fontSize * 0.3));
+  return roundBox({ left, top, width: right - left, height: bottom - top });
+}
+
+function roundBox(box: AssetBox): AssetBox {
+  return {
+    left: Math.round(box.left),
+    top: Math.round(box.top),
+    width: Math.round(box.width),
+    height: Math.round(box.height)
+  };
+}
+
+// A caption can wrap; following rows in the same size and close below belong to it
+function readCaption(rows: Row[], index: number, taken: Set<number>) {
+  const first = rows[index];
+  const used = [index];
+  for (let i = index + 1; i < rows.length && used.length < 4; i++) {
+    const prev = rows[i - 1];
+    const row = rows[i];
+    const close = prev.y - row.y <= row.fontSize * 1.5;
+    if (!close || Math.abs(row.fontSize - first.fontSize) > 0.5 || taken.has(i)) break;
+    if (FIGURE_CAPTION.test(row.text) || TABLE_CAPTION.test(row.text)) break;
+    used.push(i);
+  }
+  used.forEach((i) => taken.add(i));
+  return used.map((i) => rows[i].text).join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Tables — a captioned block of rows whose cells line up in columns. A grid
+// without a "Table N" caption is more often a table of contents or an index.
+// ---------------------------------------------------------------------------
+
+// Columns are the x ranges covered by cells, separated by gutters no cell crosses
+function findColumns(rows: Row[]): Array<[number, number]> {
+  const spans = rows
+    .flatMap((row) =>
+      row.cells.map((cell): [number, number] => [
+        cell[0].x,
+        Math.max(...cell.map((r) => r.x + r.width))
+      ])
+    )
+    .sort((a, b) => a[0] - b[0]);
+
+  const columns: Array<[number, number]> = [];
+  for (const [x0, x1] of spans) {
+    const last = columns[columns.length - 1];
+    if (last && x0 <= last[1]) last[1] = Math.max(last[1], x1);
+    else columns.push([x0, x1]);
+  }
+  return columns;
+}
+
+function readTable(rows: Row[]): string[][] | null {
+  if (rows.length < MIN_TABLE_ROWS) return null;
+  const columns = findColumns(rows);
+  if (columns.length < 2) return null;
+
+  const grid = rows.map((row) => {
+    const cells: string[] = columns.map(() => "");
+    for (const cell of row.cells) {
+      const center = (cell[0].x + Math.max(...cell.map((r) => r.x + r.width))) / 2;
+      const column = columns.findIndex(([x0, x1]) => center >= x0 && center <= x1);
+      if (column === -1) continue;
+      cells[column] = [cells[column], joinRuns(cell)].filter(Boolean).join(" ");
+    }
+    return cells;
+  });
+
+  // Most rows fill most columns, and cells are short: prose split by a gutter is not a table
+  const filled = grid.filter((cells) => cells.filter(Boolean).length >= 2).length;
+  const cellTexts = grid.flat().filter(Boolean);
+  const meanLength = cellTexts.reduce((sum, text) => sum + text.length, 0) / cellTexts.length;
+  return filled >= rows.length * 0.6 && meanLength <= 40 ? grid : null;
+}
+
+// Rows of the table next to a caption: below it, or above it when captioned underneath
+function tableRowsNear(rows: Row[], captionEnd: number, captionStart: number, taken: Set<number>) {
+  const collect = (from: number, step: 1 | -1) => {
+    const block: number[] = [];
+    let oneCellRows = 0;
+    for (let i = from; i >= 0 && i < rows.length && !taken.has(i); i += step) {
+      const row = rows[i];
+      const prev = block.length ? rows[block[block.length - 1]] : null;
+      if (prev && Math.abs(prev.y - row.y) > row.fontSize * 2.5) break;
+      // A wrapped cell leaves a one-cell row inside the table; two in a row are prose
+      oneCellRows = row.cells.length < 2 ? oneCellRows + 1 : 0;
+      if (oneCellRows > (block.length ? 1 : 0)) break;
+      block.push(i);
+    }
+    while (block.length && rows[block[block.length - 1]].cells.length < 2) block.pop();
+    return block.sort((a, b) => a - b);
+  };
+
+  const below = collect(captionEnd + 1, 1);
+  return below.length >= MIN_TABLE_ROWS ? below : collect(captionStart - 1, -1);
+}
+
+// ---------------------------------------------------------------------------
+// Figures — embedded images, placed by following the transformation matrix
+// through the page's drawing operators, and drawings above a caption
+// ---------------------------------------------------------------------------
+
+type Matrix = [number, number, number, number, number, number];
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+  ];
+}
+
+function toMatrix(value: unknown): Matrix | null {
+  if (!value || typeof value !== "object" || !("length" in value)) return null;
+  const numbers = Array.from(value as ArrayLike<number>);
+  return numbers.length === 6 && numbers.every(Number.isFinite) ? (numbers as Matrix) : null;
+}
+
+// Images are drawn into the unit square of the current matrix
+async function readImageBoxes(page: PdfPage, pageHeight: number): Promise<AssetBox[]> {
+  try {
+    const [{ OPS }, operatorList] = await Promise.all([getResolvedPDFJS(), page.getOperatorList()]);
+    const imageOps = [
+      OPS.paintImageXObject,
+      OPS.paintInlineImageXObject,
+      OPS.paintImageMaskXObject
+    ];
+    const stack: Matrix[] = [];
+    let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+    const boxes: AssetBox[] = [];
+
+    operatorList.fnArray.forEach((op, i) => {
+      const args = (operatorList.argsArray[i] ?? []) as unknown[];
+      if (op === OPS.save) {
+        stack.push(ctm);
+      } else if (op === OPS.restore || op === OPS.paintFormXObjectEnd) {
+        ctm = stack.pop() ?? ctm;
+      } else if (op === OPS.transform) {
+        const matrix = toMatrix(args);
+        if (matrix) ctm = multiply(ctm, matrix);
+      } else if (op === OPS.paintFormXObjectBegin) {
+        stack.push(ctm);
+        const matrix = toMatrix(args[0]);
+        if (matrix) ctm = multiply(ctm, matrix);
+      } else if (imageOps.includes(op)) {
+        const corners = [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1]
+        ].map(([u, v]) => [ctm[0] * u + ctm[2] * v + ctm[4], ctm[1] * u + ctm[3] * v + ctm[5]]);
+        const xs = corners.map(([x]) => x);
+        const ys = corners.map(([, y]) => y);
+        const box = roundBox({
+          left: Math.min(...xs),
+          top: pageHeight - Math.max(...ys),
+          width: Math.max(...xs) - Math.min(...xs),
+          height: Math.max(...ys) - Math.min(...ys)
+        });
+        if (box.width >= MIN_IMAGE_SIZE && box.height >= MIN_IMAGE_SIZE) boxes.push(box);
+      }
+    });
+
+    return boxes;
+  } catch {
+    return [];
+  }
+}
+
+// Vertical distance between a caption row and an image box, or null if they overlap
+function captionDistance(row: Row, box: AssetBox, pageHeight: number) {
+  const captionTop = pageHeight - (row.y + row.fontSize);
+  const captionBottom = pageHeight - row.y;
+  if (captionTop >= box.top + box.height) return captionTop - (box.top + box.height);
+  if (captionBottom <= box.top) return box.top - captionBottom;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Equations — rows set in math fonts or dense with symbols; LaTeX is rebuilt
+// from the glyphs, with raised and lowered runs as super- and subscripts
+// ---------------------------------------------------------------------------
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  α: "\\alpha",
+  β: "\\beta",
+  γ: "\\gamma",
+  δ: "\\delta",
+  ε: "\\epsilon",
+  ζ: "\\zeta",
+  η: "\\eta",
+  θ: "\\theta",
+  κ: "\\kappa",
+  λ: "\\lambda",
+  μ: "\\mu",
+  ν: "\\nu",
+  ξ: "\\xi",
+  π: "\\pi",
+  ρ: "\\rho",
+  σ: "\\sigma",
+  τ: "\\tau",
+  φ: "\\phi",
+  χ: "\\chi",
+  ψ: "\\psi",
+  ω: "\\omega",
+  Γ: "\\Gamma",
+  Δ: "\\Delta",
+  Θ: "\\Theta",
+  Λ: "\\Lambda",
+  Π: "\\Pi",
+  Σ: "\\Sigma",
+  Φ: "\\Phi",
+  Ψ: "\\Psi",
+  Ω: "\\Omega",
+  "∑": "\\sum",
+  "∏": "\\prod",
+  "∫": "\\int",
+  "∮": "\\oint",
+  "√": "\\sqrt",
+  "∂": "\\partial",
+  "∇": "\\nabla",
+  "∞": "\\infty",
+  "≤": "\\leq",
+  "≥": "\\geq",
+  "≈": "\\approx",
+  "≠": "\\neq",
+  "≡": "\\equiv",
+  "∼": "\\sim",
+  "∝": "\\propto",
+  "±": "\\pm",
+  "∓": "\\mp",
+  "×": "\\times",
+  "÷": "\\div",
+  "·": "\\cdot",
+  "⋅": "\\cdot",
+  "∗": "\\ast",
+  "∘": "\\circ",
+  "→": "\\to",
+  "←": "\\leftarrow",
+  "↔": "\\leftrightarrow",
+  "⇒": "\\Rightarrow",
+  "⇐": "\\Leftarrow",
+  "⇔": "\\Leftrightarrow",
+  "↦": "\\mapsto",
+  "∈": "\\in",
+  "∉": "\\notin",
+  "⊂": "\\subset",
+  "⊆": "\\subseteq",
+  "⊃": "\\supset",
+  "⊇": "\\supseteq",
+  "∪": "\\cup",
+  "∩": "\\cap",
+  "∅": "\\emptyset",
+  "∀": "\\forall",
+  "∃": "\\exists",
+  "¬": "\\neg",
+  "∧": "\\wedge",
+  "∨": "\\vee",
+  "⊕": "\\oplus",
+  "⊗": "\\otimes",
+  "…": "\\ldots",
+  "⋯": "\\cdots",
+  "′": "'",
+  "−": "-",
+  ℝ: "\\mathbb{R}",
+  ℕ: "\\mathbb{N}",
+  ℤ: "\\mathbb{Z}",
+  ℚ: "\\mathbb{Q}",
+  ℂ: "\\mathbb{C}",
+  "‖": "\\|",
+  "⟨": "\\langle",
+  "⟩": "\\rangle",
+  "⌊": "\\lfloor",
+  "⌋": "\\rfloor",
+  "⌈": "\\lceil",
+  "⌉": "\\rceil"
+};
+
+function toLatex(text: string): string | null {
+  let latex = "";
+  for (const char of text) {
+    const symbol = LATEX_SYMBOLS[char];
+    if (symbol) latex += /^\\[a-zA-Z]+$/.test(symbol) ? `${symbol} ` : symbol;
+    else if (/[\x20-\x7e]/.test(char)) latex += /[{}%$&#_^]/.test(char) ? `\\${char}` : char;
+    else return null;
+  }
+  return latex.replace(/\s+/g, " ").trim();
+}
+
+function rowLatex(runs: TextRun[], baseline: number, fontSize: number): string | null {
+  const parts: string[] = [];
+  for (const run of runs) {
+    const latex = toLatex(run.text);
+    if (latex === null) return null;
+    if (!latex) continue;
+    const offset = run.y - baseline;
+    if (offset > fontSize * 0.2) parts.push(`^{${latex}}`);
+    else if (offset < -fontSize * 0.2) parts.push(`_{${latex}}`);
+    else parts.push(latex);
+  }
+  return parts.join(" ").replace(/ ([_^]\{)/g, "$1");
+}
+
+// The printed equation number, if the row ends with one, and the runs before it
+function splitEquationNumber(row: Row) {
+  const last = row.cells[row.cells.length - 1];
+  const match = row.cells.length > 1 ? joinRuns(last).match(EQUATION_NUMBER) : null;
+  if (!match) return { runs: row.runs, number: undefined };
+  return { runs: row.cells.slice(0, -1).flat(), number: match[1] };
+}
+
+// ---------------------------------------------------------------------------
+// Page assets
+// ---------------------------------------------------------------------------
+
+export async function readPageAssets(
+  page: PdfPage,
+  pageIndex: number,
+  textContent: TextContent
+): Promise<PageAsset[]> {
+  const { height } = page.getViewport({ scale: 1 });
+  const rows = groupRows(readTextRuns(textContent));
+  const taken = new Set<number>();
+  const assets: PageAsset[] = [];
+  const counts = { figure: 0, table: 0, equation: 0 };
+  const nextId = (kind: PageAsset["kind"]) => `p${pageIndex + 1}-${kind}-${++counts[kind]}`;
+
+  // Tables, at their captions
+  rows.forEach((row, index) => {
+    const match = row.text.match(TABLE_CAPTION);
+    if (!match || taken.has(index)) return;
+    const captionRows = new Set<number>();
+    const caption = readCaption(rows, index, captionRows);
+    const captionEnd = Math.max(...captionRows);
+    const tableRows = tableRowsNear(rows, captionEnd, index, new Set([...taken, ...captionRows]));
+    const grid = readTable(tableRows.map((i) => rows[i]));
+    if (!grid) return;
+
+    [...captionRows, ...tableRows].forEach((i) => taken.add(i));
+    assets.push({
+      id: nextId("table"),
+      kind: "table",
+      pageIndex,
+      label: `Table ${match[1]}`,
+      caption,
+      box: rowBox(
+        tableRows.map((i) => rows[i]),
+        height
+      ),
+      rows: grid
+    });
+  });
+
+  // Figures: each image goes with the nearest caption just above or below it
+  const images = await readImageBoxes(page, height);
+  const figureCaptions = rows.flatMap((row, index) =>
+    !taken.has(index) && FIGURE_CAPTION.test(row.text) ? [index] : []
+  );
+  const captioned = new Map<number, AssetBox>();
+  for (const box of images) {
+    let best: { index: number; distance: number } | null = null;
+    for (const index of figureCaptions) {
+      const distance = captionDistance(rows[index], box, height);
+      if (distance === null || distance > rows[index].fontSize * 4 || captioned.has(index))
+        continue;
+      if (!best || distance < best.distance) best = { index, distance };
+    }
+    if (best) captioned.set(best.index, box);
+    else assets.push({ id: nextId("figure"), kind: "figure", pageIndex, box });
+  }
+
+  for (const index of figureCaptions) {
+    const row = rows[index];
+    let box = captioned.get(index);
+    if (!box) {
+      // No image: a drawing made of paths, if there is room for one above the caption
+      const above = rows
+        .slice(0, index)
+        .filter((other) => other.x1 > row.x0 && other.x0 < row.x1 && other.y > row.y);
+      const ceiling = above.length
+        ? height - Math.min(...above.map((other) => other.y - other.fontSize * 0.3))
+        : 0;
+      const captionTop = height - (row.y + row.fontSize);
+      if (captionTop - ceiling < MIN_FIGURE_GAP) continue;
+      const left = Math.min(...rows.map((r) => r.x0));
+      box = roundBox({
+        left,
+        top: ceiling,
+        width: Math.max(...rows.map((r) => r.x1)) - left,
+        height: captionTop - ceiling
+      });
+    }
+
+    const match = row.text.match(FIGURE_CAPTION);
+    assets.push({
+      id: nextId("figure"),
+      kind: "figure",
+      pageIndex,
+      ...(match ? { label: `Figure ${match[2]}` } : {}),
+      caption: readCaption(rows, index, taken),
+      box
+    });
+  }
+
+  // Equations; consecutive equation rows are one display
+  const fonts = await resolveFonts(
+    page,
+    Array.from(new Set(rows.flatMap((r) => r.runs.map((run) => run.fontName))))
+  );
+  const inMathFont = (run: TextRun) => MATH_FONT_NAME.test(fonts.get(run.fontName)?.name ?? "");
+
+  let display: Array<{ row: Row; runs: TextRun[]; number?: string }> = [];
+  const flush = () => {
+    if (!display.length) return;
+    const number = display.find((line) => line.number)?.number;
+    const latexRows = display.map((line) => rowLatex(line.runs, line.row.y, line.row.fontSize));
+    assets.push({
+      id: nextId("equation"),
+      kind: "equation",
+      pageIndex,
+      ...(number ? { label: `Equation ${number}` } : {}),
+      box: rowBox(
+        display.map((line) => line.row),
+        height
+      ),
+      text: display.map((line) => joinRuns(line.runs)).join("\n"),
+      ...(latexRows.every((latex): latex is string => Boolean(latex))
+        ? { latex: latexRows.join(" \\\\ ") }
+        : {})
+    });
+    display = [];
+  };
+
+  rows.forEach((row, index) => {
+    const { runs, number } = splitEquationNumber(row);
+    const text = joinRuns(runs);
+    const chars = runs.reduce((sum, run) => sum + run.text.length, 0);
+    const mathChars = runs.filter(inMathFont).reduce((sum, run) => sum + run.text.length, 0);
+    const isEquation =
+      !taken.has(index) &&
+      text.length > 0 &&
+      (isEquationLine(text) || (chars > 0 && mathChars / chars >= 0.5 && text.length >= 3));
+
+    const prev = display[display.length - 1];
+    if (!isEquation || (prev && prev.row.y - row.y > row.fontSize * 2)) flush();
+    if (isEquation) display.push({ row, runs, number });
+  });
+  flush();
+
+  return assets;
+}
+
+export function assetReferences(assets: PageAsset[], startPage: number, endPage: number) {
+  return assets
+    .filter((asset) => asset.pageIndex >= startPage && asset.pageIndex <= endPage)
+    .map((asset): AssetReference => ({
+      id: asset.id,
+      kind: asset.kind,
+      ...(asset.label ? { label: asset.label } : {}),
+      page: asset.pageIndex
+    }));
+}
+
+// One line per asset for prompts, e.g. "Figure 3.4 (page 45): The training loop"
+export function describeAsset(asset: PageAsset) {
+  const name = asset.label ?? `Unnumbered ${asset.kind}`;
+  const detail =
+    asset.kind === "table"
+      ? `${asset.caption ?? ""} [columns: ${(asset.rows[0] ?? []).join(" | ")}]`
+      : asset.kind === "equation"
+        ? (asset.latex ?? asset.text)
+        : (asset.caption ?? "");
+  return `${name} (page ${asset.pageIndex + 1}): ${detail.replace(/\s+/g, " ").trim()}`;
+}
+
+// ---------------------------------------------------------------------------
+// Figure images — the figure's part of the rendered page, so drawings made of
+// paths come out as well as embedded images. Best-effort: figures that cannot
+// be rendered (or all of them, without a canvas) are left without an image.
+// ---------------------------------------------------------------------------
+
+export async function renderFigureImages(
+  buffer: Buffer,
+  figures: FigureAsset[]
+): Promise<Array<{ id: string; png: Buffer }>> {
+  if (!figures.length) return [];
+
+  try {
+    const canvasImport = () => import("@napi-rs/canvas");
+    const { createCanvas, loadImage } = await canvasImport();
+    const CanvasFactory = await createIsomorphicCanvasFactory(canvasImport);
+    const pdf = await getDocumentProxy(new Uint8Array(buffer), { CanvasFactory });
+
+    const images: Array<{ id: string; png: Buffer }> = [];
+    const pageIndices = Array.from(new Set(figures.map((figure) => figure.pageIndex)));
+
+    for (const pageIndex of pageIndices) {
+      try {
+        const rendered = await renderPageAsImage(pdf, pageIndex + 1, {
+          canvasImport,
+          scale: RENDER_SCALE
+        });
+        const pageImage = await loadImage(Buffer.from(rendered));
+
+        for (const figure of figures.filter((f) => f.pageIndex === pageIndex)) {
+          const { left, top, width, height } = figure.box;
+          const canvas = createCanvas(
+            Math.max(1, Math.round(width * RENDER_SCALE)),
+            Math.max(1, Math.round(height * RENDER_SCALE))
+          );
+          canvas
+            .getContext("2d")
+            .drawImage(
+              pageImage,
+              left * RENDER_SCALE,
+              top * RENDER_SCALE,
+              width * RENDER_SCALE,
+              height * RENDER_SCALE,
+              0,
+              0,
+              canvas.width,
+              canvas.height
+            );
+          images.push({ id: figure.id, png: await canvas.encode("png") });
+        }
+      } catch {
+        // Skip pages that fail to render; the other figures still get images
+      }
+    }
+
+    return images;
+  } catch {
+    return [];
+  }
+}
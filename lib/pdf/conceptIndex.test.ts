@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { BookAnalysis, ChapterAnalysis } from "./analyzeBook";
+import { buildConceptIndex } from "./conceptIndex";
+
+function chapter(
+  chapterNumber: number,
+  keyConcepts: string[],
+  prerequisites: string[] = []
+): ChapterAnalysis {
+  return {
+    chapterNumber,
+    title: `Chapter ${chapterNumber}`,
+    startPage: chapterNumber - 1,
+    endPage: chapterNumber - 1,
+    summary: "",
+    keyConcepts,
+    learningObjectives: [],
+    prerequisites,
+    estimatedReadingMinutes: 10
+  };
+}
+
+function book(chapters: ChapterAnalysis[]): BookAnalysis {
+  return {
+    documentId: "calc",
+    title: "Calculus",
+    totalPages: chapters.length,
+    detectionMethod: "pdf-outline",
+    chapters
+  };
+}
+
+const pages = ["Limits and continuity.", "The derivative.", "Worked problems."];
+
+describe("buildConceptIndex", () => {
+  it("links the concepts a chapter builds on to the concepts it introduces", () => {
+    const index = buildConceptIndex(
+      book([chapter(1, ["Limit", "Continuity"]), chapter(2, ["Derivative"], ["Limits"])]),
+      pages
+    );
+
+    expect(index.edges).toEqual([{ from: "limit", to: "derivative", chapterNumber: 2 }]);
+    expect(index.concepts.find((c) => c.id === "derivative")?.prerequisiteIds).toEqual(["limit"]);
+  });
+
+  it("keeps the prerequisites of a chapter that introduces no concept", () => {
+    const index = buildConceptIndex(
+      book([
+        chapter(1, ["Limit"]),
+        chapter(2, ["Derivative"]),
+        chapter(3, ["Limit", "Derivative"], ["Limit", "Derivative", "Linear algebra"])
+      ]),
+      pages
+    );
+
+    expect(index.edges).toEqual([
+      { from: "limit", chapterNumber: 3 },
+      { from: "derivative", chapterNumber: 3 }
+    ]);
+    expect(index.externalPrerequisites).toEqual([
+      { chapterNumber: 3, prerequisite: "Linear algebra" }
+    ]);
+  });
+});
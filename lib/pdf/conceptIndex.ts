@@ -0,0 +1,269 @@
+import type { BookAnalysis } from "./analyzeBook";
+
+// Where a concept shows up in one chapter
+export type ConceptLocation = {
+  chapterNumber: number;
+  pages: number[]; // 0-based
+  pageLabels?: string[];
+};
+
+export type ConceptEntry = {
+  id: string;
+  name: string;
+  aliases: string[];
+  introduced: { chapterNumber: number; page: number; pageLabel?: string };
+  usedIn: ConceptLocation[]; // every chapter that teaches or mentions it, in book order
+  prerequisiteIds: string[]; // concepts this one builds on
+};
+
+// "from" is a prerequisite of "to", implied by the prerequisites of the chapter that teaches "to";
+// without "to", a prerequisite of a chapter that introduces no concept of its own
+export type ConceptEdge = {
+  from: string;
+  to?: string;
+  chapterNumber: number;
+};
+
+export type ConceptIndex = {
+  documentId?: string;
+  concepts: ConceptEntry[];
+  edges: ConceptEdge[];
+  externalPrerequisites: Array<{ chapterNumber: number; prerequisite: string }>; // not taught here
+  builtAt: string;
+};
+
+// Case, punctuation and a trailing plural do not make a different concept
+export function conceptKey(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/(\w{3,})s$/, "$1");
+}
+
+// "Fast Fourier Transform (FFT)" and "FFT (Fast Fourier Transform)" are one name and an acronym
+function splitAcronym(name: string): { name: string; acronym?: string } {
+  const match = name.trim().match(/^(.+?)\s*\(([^()]+)\)$/);
+  if (!match) return { name: name.trim() };
+  const [outer, inner] = [match[1].trim(), match[2].trim()];
+  const isAcronym = (text: string) =>
+    /^[A-Z][A-Za-z0-9-]{1,9}$/.test(text) && /[A-Z].*[A-Z]/.test(text);
+  if (isAcronym(inner)) return { name: outer, acronym: inner };
+  if (isAcronym(outer)) return { name: inner, acronym: outer };
+  return { name: name.trim() };
+}
+
+function singularWords(key: string) {
+  return key
+    .split(" ")
+    .map((word) => word.replace(/(\w{3,})s$/, "$1"))
+    .join(" ");
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matches any of the concept's names as whole words; acronyms only in capitals
+function mentionPattern(name: string, aliases: string[]) {
+  const words = [name, ...aliases].filter((term) => !/^[A-Z0-9-]+$/.test(term) && term.length >= 3);
+  const acronyms = [name, ...aliases].filter((term) => /^[A-Z0-9-]+$/.test(term));
+  const alternatives = (terms: string[]) =>
+    terms
+      .map((term) => escapeRegExp(term.replace(/(\w{3,})s$/, "$1")).replace(/\s+/g, "\\s+"))
+      .join("|");
+
+  const patterns = [
+    ...(words.length ? [new RegExp(`\\b(${alternatives(words)})(s|es)?\\b`, "i")] : []),
+    ...(acronyms.length ? [new RegExp(`\\b(${alternatives(acronyms)})s?\\b`)] : [])
+  ];
+  return (text: string) => patterns.some((pattern) => pattern.test(text));
+}
+
+function slugify(name: string) {
+  return conceptKey(name).replace(/\s+/g, "-") || "concept";
+}
+
+// ---------------------------------------------------------------------------
+// Build — concept names are merged across chapters, then located in the text
+// ---------------------------------------------------------------------------
+
+type Draft = {
+  name: string;
+  keys: Set<string>;
+  aliases: Map<string, string>; // key → first spelling seen
+  taughtIn: Map<number, number[]>; // chapter number → referenced pages
+};
+
+export function buildConceptIndex(analysis: BookAnalysis, pages: string[]): ConceptIndex {
+  const drafts: Draft[] = [];
+  const byKey = new Map<string, Draft>();
+
+  for (const chapter of analysis.chapters) {
+    for (const concept of chapter.keyConcepts) {
+      const { name, acronym } = splitAcronym(concept);
+      const keys = [name, acronym].filter((term): term is string => Boolean(term)).map(conceptKey);
+      if (!keys[0]) continue;
+
+      let draft = keys.map((key) => byKey.get(key)).find(Boolean);
+      if (!draft) {
+        draft = { name, keys: new Set(), aliases: new Map(), taughtIn: new Map() };
+        drafts.push(draft);
+      }
+      for (const [i, term] of [name, acronym].entries()) {
+        if (!term) continue;
+        const key = keys[i];
+        draft.keys.add(key);
+        byKey.set(key, draft);
+        if (term !== draft.name && !draft.aliases.has(key) && key !== conceptKey(draft.name)) {
+          draft.aliases.set(key, term);
+        }
+      }
+
+      const referenced =
+        chapter.conceptReferences?.find((ref) => conceptKey(ref.name) === conceptKey(concept))
+          ?.pages ?? [];
+      draft.taughtIn.set(chapter.chapterNumber, [
+        ...(draft.taughtIn.get(chapter.chapterNumber) ?? []),
+        ...referenced
+      ]);
+    }
+  }
+
+  const label = (page: number) => analysis.pageLabels?.[page];
+  const usedIds = new Set<string>();
+
+  const concepts: ConceptEntry[] = drafts.map((draft) => {
+    const aliases = Array.from(draft.aliases.values());
+    const mentions = mentionPattern(draft.name, aliases);
+
+    const usedIn: ConceptLocation[] = [];
+    for (const chapter of analysis.chapters) {
+      const mentioned: number[] = [];
+      for (let p = chapter.startPage; p <= chapter.endPage; p++) {
+        if (mentions(pages[p] ?? "")) mentioned.push(p);
+      }
+      const referenced = draft.taughtIn.get(chapter.chapterNumber);
+      if (!referenced && !mentioned.length) continue;
+
+      const chapterPages = Array.from(new Set([...(referenced ?? []), ...mentioned])).sort(
+        (a, b) => a - b
+      );
+      usedIn.push({
+        chapterNumber: chapter.chapterNumber,
+        pages: chapterPages,
+        ...(analysis.pageLabels ? { pageLabels: chapterPages.map((p) => label(p) ?? "") } : {})
+      });
+    }
+
+    // Introduced where it is first a key concept, on the first page that explains it
+    const firstChapter = Math.min(...draft.taughtIn.keys());
+    const chapter = analysis.chapters.find((ch) => ch.chapterNumber === firstChapter);
+    const referenced = draft.taughtIn.get(firstChapter) ?? [];
+    const location = usedIn.find((loc) => loc.chapterNumber === firstChapter);
+    const page = referenced.length
+      ? Math.min(...referenced)
+      : (location?.pages[0] ?? chapter?.startPage ?? 0);
+
+    let id = slugify(draft.name);
+    for (let n = 2; usedIds.has(id); n++) id = `${slugify(draft.name)}-${n}`;
+    usedIds.add(id);
+
+    return {
+      id,
+      name: draft.name,
+      aliases,
+      introduced: {
+        chapterNumber: firstChapter,
+        page,
+        ...(label(page) !== undefined ? { pageLabel: label(page) } : {})
+      },
+      usedIn,
+      prerequisiteIds: []
+    };
+  });
+
+  const entryFor = (draft: Draft) => concepts[drafts.indexOf(draft)];
+
+  // A prerequisite names a concept outright or mentions several ("eigenvalues and
+  // the FFT"); a name inside a longer matched name does not count on its own
+  const acronymKeys = new Set(
+    drafts.flatMap((draft) =>
+      Array.from(draft.aliases).flatMap(([key, term]) => (/^[A-Z0-9-]+$/.test(term) ? [key] : []))
+    )
+  );
+  const resolve = (prerequisite: string): ConceptEntry[] => {
+    const key = conceptKey(splitAcronym(prerequisite).name);
+    const exact = byKey.get(key);
+    if (exact) return [entryFor(exact)];
+    const padded = ` ${singularWords(key)} `;
+    const contained = Array.from(byKey.keys())
+      .filter((candidate) => candidate.length >= 4 || acronymKeys.has(candidate))
+      .map(singularWords)
+      .filter((candidate) => padded.includes(` ${candidate} `));
+    const matched = contained.filter(
+      (candidate) => !contained.some((other) => other !== candidate && other.includes(candidate))
+    );
+    const entries = Array.from(byKey.entries())
+      .filter(([candidate]) => matched.includes(singularWords(candidate)))
+      .map(([, draft]) => entryFor(draft));
+    return Array.from(new Set(entries));
+  };
+
+  const edges: ConceptEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const externalPrerequisites: ConceptIndex["externalPrerequisites"] = [];
+
+  for (const chapter of analysis.chapters) {
+    const taught = concepts.filter((c) => c.introduced.chapterNumber === chapter.chapterNumber);
+    for (const prerequisite of chapter.prerequisites) {
+      const resolved = resolve(prerequisite);
+      if (!resolved.length) {
+        externalPrerequisites.push({ chapterNumber: chapter.chapterNumber, prerequisite });
+        continue;
+      }
+      for (const from of resolved) {
+        const chapterEdgeKey = `${from.id}>#${chapter.chapterNumber}`;
+        if (!taught.length && !edgeKeys.has(chapterEdgeKey)) {
+          edgeKeys.add(chapterEdgeKey);
+          edges.push({ from: from.id, chapterNumber: chapter.chapterNumber });
+        }
+        for (const to of taught) {
+          const edgeKey = `${from.id}>${to.id}`;
+          if (from.id === to.id || edgeKeys.has(edgeKey)) continue;
+          edgeKeys.add(edgeKey);
+          edges.push({ from: from.id, to: to.id, chapterNumber: chapter.chapterNumber });
+          to.prerequisiteIds.push(from.id);
+        }
+      }
+    }
+  }
+
+  return {
+    ...(analysis.documentId ? { documentId: analysis.documentId } : {}),
+    concepts,
+    edges,
+    externalPrerequisites,
+    builtAt: new Date().toISOString()
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+// Exact name or alias matches first, then concepts whose names contain the query
+export function findConcepts(index: ConceptIndex, query: string): ConceptEntry[] {
+  const key = conceptKey(query);
+  if (!key) return [];
+  const names = (concept: ConceptEntry) => [concept.name, ...concept.aliases].map(conceptKey);
+  const exact = index.concepts.filter((concept) => names(concept).includes(key));
+  if (exact.length) return exact;
+  return index.concepts.filter((concept) => names(concept).some((name) => name.includes(key)));
+}
+
+// e.g. "introduced in chapter 4, p. 142"
+export function conceptCitation(concept: ConceptEntry) {
+  const { chapterNumber, page, pageLabel } = concept.introduced;
+  return `introduced in chapter ${chapterNumber}, p. ${pageLabel ?? page + 1}`;
+}
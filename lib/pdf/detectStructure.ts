@@ -2,25 +2,429 @@ import { generateObject } from "ai";
 import { z } from "zod";
 import { getDocumentProxy } from "unpdf";
 import { getModel } from "@/lib/ai/model";
+import { bodyFontSize, readPageLayout, type LayoutBlock, type PageLayout } from "./layout";
+
+export type StructureLevel = "part" | "chapter" | "section";
+
+export type SectionBoundary = {
+  title: string;
+  startPage: number; // 0-based
+  endPage: number; // 0-based, inclusive
+};
 
 export type ChapterBoundary = {
   title: string;
   startPage: number; // 0-based
   endPage: number; // 0-based, inclusive
+  partIndex?: number; // index into BookStructure.parts
+  sections?: SectionBoundary[];
+};
+
+export type PartBoundary = {
+  title: string;
+  startPage: number; // 0-based
+  endPage: number; // 0-based, inclusive
+};
+
+export type DetectionMethod =
+  | "epub-nav"
+  | "source-headings"
+  | "pdf-outline"
+  | "pdf-links"
+  | "font-headings"
+  | "title-match"
+  | "llm-detection"
+  | "fixed-chunks";
+
+// One record per tier, in the order tiers were tried
+export type TierDiagnostic = {
+  tier: DetectionMethod;
+  attempted: boolean; // false when skipped up front (e.g. no API key)
+  durationMs: number;
+  candidates: number; // headings found before nesting into chapters
+  chapters: number; // chapters after nesting
+  accepted: boolean;
+  rejectionReason?: string;
+  confidence: number; // 0-1, how much the boundaries can be trusted
 };
 
 export type BookStructure = {
   title: string;
   author?: string;
+  parts: PartBoundary[];
   chapters: ChapterBoundary[];
-  detectionMethod: "pdf-links" | "title-match" | "llm-detection" | "fixed-chunks";
+  detectionMethod: DetectionMethod;
+  confidence: number; // confidence of the accepted tier
+  diagnostics: TierDiagnostic[];
 };
 
+// A single heading found by a detection tier, before page ranges are known
+type TocEntry = {
+  title: string;
+  startPage: number; // 0-based
+  level: StructureLevel;
+  closesPart?: boolean; // a top-level chapter that is not inside the preceding part
+};
+
+// What a tier found, or why it found nothing
+type TierOutcome<T> = {
+  value: T | null;
+  reason?: string;
+  skipped?: boolean;
+};
+
+type Hierarchy = { parts: PartBoundary[]; chapters: ChapterBoundary[] };
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+type OutlineNode = {
+  title: string;
+  dest: string | unknown[] | null;
+  items: OutlineNode[];
+};
+
+export type ResolvedOutlineNode = {
+  title: string;
+  startPage: number;
+  children: ResolvedOutlineNode[];
+};
+
+// ---------------------------------------------------------------------------
+// Hierarchy — classify headings and nest them into parts/chapters/sections
+// ---------------------------------------------------------------------------
+
+const PART_TITLE = /^(part|book)\s+([ivxlcdm]+|\d+|one|two|three|four|five|six|seven|eight|nine|ten)\b/i;
+const CHAPTER_TITLE = /^(chapter|ch\.?|lecture)\s*\d+|^\d+\s*[.:)-]?\s+\S/i;
+const SECTION_TITLE = /^(section\s+)?\d+\.\d+/i;
+
+const LEVEL_RANK: Record<StructureLevel, number> = { part: 0, chapter: 1, section: 2 };
+
+function classifyTitle(title: string): StructureLevel {
+  const trimmed = title.trim();
+  if (PART_TITLE.test(trimmed)) return "part";
+  if (SECTION_TITLE.test(trimmed)) return "section";
+  return "chapter";
+}
+
+function endBefore(startPage: number, nextStarts: number[], lastPage: number) {
+  const next = nextStarts.filter((p) => p > startPage).sort((a, b) => a - b)[0];
+  return next === undefined ? lastPage : Math.max(startPage, next - 1);
+}
+
+function buildHierarchy(entries: TocEntry[], totalPages: number): Hierarchy {
+  const lastPage = Math.max(0, totalPages - 1);
+  const sorted = entries
+    .filter((e) => e.title.trim() && e.startPage >= 0 && e.startPage <= lastPage)
+    .map((e, order) => ({ ...e, order }))
+    .sort(
+      (a, b) =>
+        a.startPage - b.startPage || LEVEL_RANK[a.level] - LEVEL_RANK[b.level] || a.order - b.order
+    );
+
+  // A TOC that only lists parts still needs chapters to analyze
+  const hasChapters = sorted.some((e) => e.level !== "part");
+
+  const parts: PartBoundary[] = [];
+  const chapters: ChapterBoundary[] = [];
+  const partClosers: number[] = [];
+  let openPart: number | null = null;
+  let currentChapter: ChapterBoundary | null = null;
+
+  for (const entry of sorted) {
+    const level = entry.level === "part" && !hasChapters ? "chapter" : entry.level;
+
+    if (level === "part") {
+      parts.push({ title: entry.title, startPage: entry.startPage, endPage: entry.startPage });
+      openPart = parts.length - 1;
+      currentChapter = null;
+      continue;
+    }
+
+    if (level === "chapter" && entry.closesPart && openPart !== null) {
+      partClosers.push(entry.startPage);
+      openPart = null;
+    }
+
+    if (level === "section" && currentChapter) {
+      currentChapter.sections = [
+        ...(currentChapter.sections ?? []),
+        { title: entry.title, startPage: entry.startPage, endPage: entry.startPage }
+      ];
+      continue;
+    }
+
+    // Chapters, and sections that appear before any chapter, become chapters
+    currentChapter = {
+      title: entry.title,
+      startPage: entry.startPage,
+      endPage: entry.startPage,
+      ...(openPart !== null ? { partIndex: openPart } : {})
+    };
+    chapters.push(currentChapter);
+  }
+
+  const partStarts = parts.map((p) => p.startPage);
+  const chapterStarts = chapters.map((c) => c.startPage);
+
+  for (const part of parts) {
+    part.endPage = endBefore(part.startPage, [...partStarts, ...partClosers], lastPage);
+  }
+
+  for (const chapter of chapters) {
+    // A chapter ends where the next chapter or part begins
+    chapter.endPage = endBefore(chapter.startPage, [...chapterStarts, ...partStarts], lastPage);
+
+    if (chapter.sections) {
+      const sectionStarts = chapter.sections.map((s) => s.startPage);
+      for (const section of chapter.sections) {
+        section.endPage = endBefore(section.startPage, sectionStarts, chapter.endPage);
+      }
+    }
+  }
+
+  return { parts, chapters };
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics — why tiers were rejected and how far to trust the winner
+// ---------------------------------------------------------------------------
+
+// Prior trust in each tier's boundaries before looking at the result
+const TIER_CONFIDENCE: Record<DetectionMethod, number> = {
+  "epub-nav": 0.95,
+  "source-headings": 0.9,
+  "pdf-outline": 0.95,
+  "pdf-links": 0.85,
+  "font-headings": 0.75,
+  "title-match": 0.7,
+  "llm-detection": 0.5,
+  "fixed-chunks": 0.1
+};
+
+function rejected<T>(reason: string): TierOutcome<T> {
+  return { value: null, reason };
+}
+
+function skipped<T>(reason: string): TierOutcome<T> {
+  return { value: null, reason, skipped: true };
+}
+
+function failed<T>(error: unknown): TierOutcome<T> {
+  return rejected(`Failed: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// Scales the tier's prior by how plausible the chapter ranges look: books
+// are mostly covered by chapters, and one-page "chapters" or a single
+// chapter holding most of the book point at misdetected headings
+function structureConfidence(tier: DetectionMethod, tree: Hierarchy, totalPages: number) {
+  const { chapters } = tree;
+  if (!chapters.length || totalPages <= 0) return 0;
+
+  const lengths = chapters.map((c) => c.endPage - c.startPage + 1);
+  const coverage = Math.min(1, lengths.reduce((sum, n) => sum + n, 0) / totalPages);
+  const tinyShare = lengths.filter((n) => n < 2).length / chapters.length;
+  const largestShare = Math.max(...lengths) / totalPages;
+
+  let quality = 0.5 + 0.5 * coverage;
+  quality *= 1 - 0.5 * tinyShare;
+  if (chapters.length > 2 && largestShare > 0.6) quality *= 0.7;
+
+  return Math.round(TIER_CONFIDENCE[tier] * quality * 100) / 100;
+}
+
+// Runs one tier, nests its headings and records a diagnostic either way
+async function runTier<T>(
+  tier: DetectionMethod,
+  diagnostics: TierDiagnostic[],
+  totalPages: number,
+  detect: () => Promise<TierOutcome<T>>,
+  entriesOf: (value: T) => TocEntry[]
+): Promise<{ value: T; tree: Hierarchy } | null> {
+  const startedAt = Date.now();
+  const outcome = await detect();
+  const entries = outcome.value === null ? [] : entriesOf(outcome.value);
+  const tree = outcome.value === null ? null : buildHierarchy(entries, totalPages);
+  const accepted = Boolean(tree && tree.chapters.length >= 2);
+
+  diagnostics.push({
+    tier,
+    attempted: !outcome.skipped,
+    durationMs: Date.now() - startedAt,
+    candidates: entries.length,
+    chapters: tree?.chapters.length ?? 0,
+    accepted,
+    ...(accepted
+      ? {}
+      : {
+          rejectionReason:
+            outcome.reason ?? `Only ${tree?.chapters.length ?? 0} chapter(s) after nesting`
+        }),
+    confidence: tree ? structureConfidence(tier, tree, totalPages) : 0
+  });
+
+  return accepted && outcome.value !== null && tree ? { value: outcome.value, tree } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Destination resolution (shared by the outline and link tiers)
+// ---------------------------------------------------------------------------
+
+async function resolveDestPage(pdf: PdfDocument, dest: unknown): Promise<number | null> {
+  try {
+    // Named destinations are strings that map to an explicit destination array
+    const explicit = typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || !explicit.length) return null;
+
+    const target = explicit[0];
+    if (typeof target === "number") {
+      return target >= 0 && target < pdf.numPages ? target : null;
+    }
+    if (target && typeof target === "object" && "num" in target && "gen" in target) {
+      return await pdf.getPageIndex(target as { num: number; gen: number });
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tier 0 — PDF document outline (bookmarks)
+// ---------------------------------------------------------------------------
+
+const MAX_OUTLINE_DEPTH = 3;
+
+async function resolveOutlineNodes(
+  pdf: PdfDocument,
+  nodes: OutlineNode[],
+  depth: number
+): Promise<ResolvedOutlineNode[]> {
+  const resolved: ResolvedOutlineNode[] = [];
+
+  for (const node of nodes) {
+    const title = typeof node.title === "string" ? node.title.replace(/\s+/g, " ").trim() : "";
+    const children =
+      depth < MAX_OUTLINE_DEPTH && Array.isArray(node.items) && node.items.length
+        ? await resolveOutlineNodes(pdf, node.items, depth + 1)
+        : [];
+
+    // Entries without a resolvable target (e.g. a "Part" heading that only
+    // groups its children) start where their first child starts
+    let startPage = await resolveDestPage(pdf, node.dest);
+    if (startPage === null && children.length) {
+      startPage = children[0].startPage;
+    }
+    if (startPage === null || !title) continue;
+
+    resolved.push({ title, startPage, children });
+  }
+
+  return resolved.sort((a, b) => a.startPage - b.startPage);
+}
+
+function outlineToEntries(nodes: ResolvedOutlineNode[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+
+  for (const node of nodes) {
+    // A top-level bookmark is a part when it says so, or when it groups
+    // bookmarks that are themselves chapters
+    const isPart =
+      PART_TITLE.test(node.title) ||
+      (!CHAPTER_TITLE.test(node.title) &&
+        node.children.some((child) => CHAPTER_TITLE.test(child.title)));
+
+    if (isPart) {
+      entries.push({ title: node.title, startPage: node.startPage, level: "part" });
+      for (const chapter of node.children) {
+        entries.push({ title: chapter.title, startPage: chapter.startPage, level: "chapter" });
+        for (const section of chapter.children) {
+          entries.push({ title: section.title, startPage: section.startPage, level: "section" });
+        }
+      }
+    } else {
+      entries.push({
+        title: node.title,
+        startPage: node.startPage,
+        level: "chapter",
+        closesPart: true
+      });
+      for (const section of node.children) {
+        entries.push({ title: section.title, startPage: section.startPage, level: "section" });
+      }
+    }
+  }
+
+  return entries;
+}
+
+async function detectFromPdfOutline(buffer: Buffer): Promise<TierOutcome<TocEntry[]>> {
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const outline = (await pdf.getOutline()) as OutlineNode[] | null;
+    if (!outline || !outline.length) return rejected("PDF has no outline");
+
+    let nodes = await resolveOutlineNodes(pdf, outline, 1);
+
+    // Some books wrap everything in a single root bookmark (the book title);
+    // descend until we reach a level with real divisions
+    while (nodes.length === 1 && nodes[0].children.length) {
+      nodes = nodes[0].children;
+    }
+
+    if (nodes.length < 2) return rejected("Outline has fewer than 2 top-level entries");
+
+    return { value: outlineToEntries(nodes) };
+  } catch (error) {
+    return failed(error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Outlines from the source itself — an EPUB's navigation document or the
+// headings of a Markdown, HTML or text file — are nested like a PDF outline
+// instead of running the detection tiers
+// ---------------------------------------------------------------------------
+
+export function structureFromOutline(
+  nodes: ResolvedOutlineNode[],
+  totalPages: number,
+  meta: { title: string; author?: string },
+  detectionMethod: DetectionMethod
+): BookStructure {
+  const startedAt = Date.now();
+  let top = nodes;
+  while (top.length === 1 && top[0].children.length) {
+    top = top[0].children;
+  }
+
+  const entries = outlineToEntries(top);
+  const tree = buildHierarchy(entries, totalPages);
+  const confidence = structureConfidence(detectionMethod, tree, totalPages);
+
+  return {
+    ...meta,
+    ...tree,
+    detectionMethod,
+    confidence,
+    diagnostics: [
+      {
+        tier: detectionMethod,
+        attempted: true,
+        durationMs: Date.now() - startedAt,
+        candidates: entries.length,
+        chapters: tree.chapters.length,
+        accepted: true,
+        confidence
+      }
+    ]
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Tier 1 — PDF link annotations on TOC pages
 // ---------------------------------------------------------------------------
 
-async function detectFromPdfLinks(buffer: Buffer): Promise<ChapterBoundary[] | null> {
+async function detectFromPdfLinks(buffer: Buffer): Promise<TierOutcome<TocEntry[]>> {
   try {
     const pdf = await getDocumentProxy(new Uint8Array(buffer));
     const tocPages = Math.min(15, pdf.numPages);
@@ -31,9 +435,9 @@ async function detectFromPdfLinks(buffer: Buffer): Promise<ChapterBoundary[] | n
       const annotations = await page.getAnnotations();
 
       for (const annot of annotations) {
-        if (annot.subtype === "Link" && annot.dest && Array.isArray(annot.dest)) {
-          // dest[0] is typically a page ref object; we need to resolve it
-          const destPage = typeof annot.dest[0] === "number" ? annot.dest[0] : null;
+        if (annot.subtype === "Link" && annot.dest) {
+          // dest is either an explicit destination (page ref) or a named destination
+          const destPage = await resolveDestPage(pdf, annot.dest);
           if (destPage === null) continue;
 
           // Try to get link text from the annotation's content or title
@@ -51,7 +455,7 @@ async function detectFromPdfLinks(buffer: Buffer): Promise<ChapterBoundary[] | n
       }
     }
 
-    if (links.length < 3) return null;
+    if (links.length < 3) return rejected(`Only ${links.length} internal links on the first pages`);
 
     // Sort by destination page and build chapters
     links.sort((a, b) => a.destPage - b.destPage);
@@ -64,92 +468,269 @@ async function detectFromPdfLinks(buffer: Buffer): Promise<ChapterBoundary[] | n
       return true;
     });
 
-    if (unique.length < 3) return null;
+    if (unique.length < 3) return rejected("Links point to fewer than 3 distinct pages");
+
+    return {
+      value: unique.map((link) => ({
+        title: link.text,
+        startPage: link.destPage,
+        level: classifyTitle(link.text)
+      }))
+    };
+  } catch (error) {
+    return failed(error);
+  }
+}
 
-    const totalPages = pdf.numPages;
-    return unique.map((link, i) => ({
-      title: link.text,
-      startPage: link.destPage,
-      endPage: i < unique.length - 1 ? unique[i + 1].destPage - 1 : totalPages - 1
-    }));
+// ---------------------------------------------------------------------------
+// Tier 2 — Font headings: score large/bold blocks at page tops, no model call
+// ---------------------------------------------------------------------------
+
+const CHAPTER_LABEL = /^(chapter|lecture|part|book)\s+([ivxlcdm]+|\d+|[a-z]+)\b/i;
+const NUMBERED_HEADING = /^\d+(\.\d+)*\s*[.:)]?\s+\S/;
+const NOT_A_CHAPTER = /^(table of )?contents$/i;
+const MIN_HEADING_SCORE = 3;
+
+type HeadingCandidate = {
+  title: string;
+  startPage: number;
+  fontSize: number;
+  score: number;
+};
+
+async function readLayoutsFromPdf(buffer: Buffer): Promise<PageLayout[] | null> {
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const layouts: PageLayout[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      layouts.push(await readPageLayout(page, i - 1, await page.getTextContent()));
+    }
+    return layouts;
   } catch {
     return null;
   }
 }
 
+function scoreHeading(
+  block: LayoutBlock,
+  layout: PageLayout,
+  bodySize: number,
+  isFirstBlock: boolean
+): number {
+  let score = 0;
+
+  const sizeRatio = block.fontSize / bodySize;
+  if (sizeRatio >= 1.15) score += Math.min(3, (sizeRatio - 1) * 5);
+  if (block.bold) score += 1;
+
+  if (CHAPTER_LABEL.test(block.text)) score += 3;
+  else if (NUMBERED_HEADING.test(block.text)) score += 1.5;
+
+  // Chapters open on a new page, so their heading is the first thing on it
+  if (isFirstBlock) score += 1.5;
+  if (block.top < layout.height * 0.25) score += 0.5;
+
+  // Sentences are body text, however they are styled
+  if (/[.,;]$/.test(block.text) || block.text.split(" ").length > 12) score -= 2;
+
+  return score;
+}
+
+function findHeadingCandidates(layouts: PageLayout[]): HeadingCandidate[] {
+  const bodySize = bodyFontSize(layouts);
+  if (!bodySize) return [];
+
+  // Running heads repeat on many pages and must not become chapters
+  const pagesByText = new Map<string, number>();
+  for (const layout of layouts) {
+    for (const text of new Set(layout.blocks.map((b) => b.text.toLowerCase()))) {
+      pagesByText.set(text, (pagesByText.get(text) ?? 0) + 1);
+    }
+  }
+  const isRunningHead = (block: LayoutBlock) =>
+    (pagesByText.get(block.text.toLowerCase()) ?? 0) > 2 || /^[\divxlcdm]+$/i.test(block.text);
+
+  const candidates: HeadingCandidate[] = [];
+
+  for (const layout of layouts) {
+    const content = layout.blocks.filter((b) => !isRunningHead(b));
+
+    for (let i = 0; i < content.length; i++) {
+      const block = content[i];
+      if (block.lines.length > 3 || block.top > layout.height * 0.6) continue;
+      if (NOT_A_CHAPTER.test(block.text)) continue;
+
+      const score = scoreHeading(block, layout, bodySize, i === 0);
+      if (score < MIN_HEADING_SCORE) continue;
+
+      // "Chapter 3" set on its own line above the title reads as one heading
+      let title = block.text;
+      const next = content[i + 1];
+      if (
+        CHAPTER_LABEL.test(block.text) &&
+        block.text.split(" ").length <= 3 &&
+        next &&
+        next.fontSize >= bodySize * 1.15 &&
+        next.lines.length <= 3
+      ) {
+        title = `${block.text}: ${next.text}`;
+        i++;
+      }
+
+      candidates.push({ title, startPage: layout.pageIndex, fontSize: block.fontSize, score });
+    }
+  }
+
+  return candidates;
+}
+
+async function detectFromFontHeadings(
+  buffer: Buffer,
+  layouts: PageLayout[] | undefined
+): Promise<TierOutcome<TocEntry[]>> {
+  const pageLayouts = layouts ?? (await readLayoutsFromPdf(buffer));
+  if (!pageLayouts) return rejected("Could not read text positions from the PDF");
+
+  const candidates = findHeadingCandidates(pageLayouts);
+
+  // Chapter headings recur at one size: take the largest size used at least
+  // twice (a single larger heading is usually the book title)
+  const countBySize = new Map<number, number>();
+  for (const c of candidates) {
+    const size = Math.round(c.fontSize);
+    countBySize.set(size, (countBySize.get(size) ?? 0) + 1);
+  }
+  const recurringSizes = Array.from(countBySize)
+    .filter(([, count]) => count >= 2)
+    .map(([size]) => size)
+    .sort((a, b) => b - a);
+  if (!recurringSizes.length) {
+    return rejected(`No heading size recurs across pages (${candidates.length} candidate(s))`);
+  }
+
+  const chapterSize = recurringSizes[0];
+  const sectionSize = recurringSizes[1];
+
+  const entries: TocEntry[] = [];
+  const chapterPages = new Set<number>();
+
+  for (const c of candidates) {
+    const size = Math.round(c.fontSize);
+    const labelled = classifyTitle(c.title);
+
+    if (size === chapterSize || labelled === "part") {
+      // One chapter per page; the first heading on a page wins
+      if (chapterPages.has(c.startPage)) continue;
+      chapterPages.add(c.startPage);
+      entries.push({
+        title: c.title,
+        startPage: c.startPage,
+        level: labelled === "part" ? "part" : "chapter"
+      });
+    } else if (size === sectionSize) {
+      entries.push({ title: c.title, startPage: c.startPage, level: "section" });
+    }
+  }
+
+  if (entries.filter((e) => e.level !== "section").length < 2) {
+    return rejected("Fewer than 2 chapter-level headings");
+  }
+  return { value: entries };
+}
+
 // ---------------------------------------------------------------------------
-// Tier 2 — Title matching: extract titles from TOC text via LLM, then scan
+// Tier 3 — Title matching: extract titles from TOC text via LLM, then scan
 // ---------------------------------------------------------------------------
 
+function normalizeForMatch(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
 async function detectFromTitleMatching(
   pages: string[],
   hasApiKey: boolean
-): Promise<{ chapters: ChapterBoundary[]; title: string; author?: string } | null> {
-  if (!hasApiKey) return null;
+): Promise<TierOutcome<{ entries: TocEntry[]; title: string; author?: string }>> {
+  if (!hasApiKey) return skipped("No API key configured");
 
   // Extract TOC text from first ~15 pages
   const tocText = pages.slice(0, Math.min(15, pages.length)).join("\n---PAGE BREAK---\n");
 
-  if (tocText.trim().length < 100) return null;
+  if (tocText.trim().length < 100) return rejected("Too little text on the first pages");
 
   try {
     const { object: toc } = await generateObject({
       model: getModel(),
       system:
-        "You extract chapter titles from a book's table of contents. Return ONLY chapter/section titles that represent major divisions of the book — not sub-sections, figures, or appendices unless they are top-level divisions.",
-      prompt: `Extract the book title, author (if visible), and chapter titles from this table of contents text:\n\n${tocText}`,
+        "You extract the table of contents of a book. Return the titles in reading order with their level: 'part' for groupings of chapters (e.g. 'Part I'), 'chapter' for chapters and other top-level divisions, 'section' for numbered sub-sections inside a chapter. Skip figures, tables, and index entries.",
+      prompt: `Extract the book title, author (if visible), and table of contents entries from this text:\n\n${tocText}`,
       temperature: 0.1,
       schema: z.object({
         bookTitle: z.string(),
         author: z.string().optional(),
-        chapterTitles: z.array(z.string())
+        entries: z.array(
+          z.object({
+            title: z.string(),
+            level: z.enum(["part", "chapter", "section"])
+          })
+        )
       })
     });
 
-    if (!toc.chapterTitles || toc.chapterTitles.length < 2) return null;
+    if (!toc.entries || toc.entries.filter((e) => e.level !== "section").length < 2) {
+      return rejected("No table of contents found");
+    }
 
-    // Scan all pages for each title
-    const chapters: ChapterBoundary[] = [];
-    for (const title of toc.chapterTitles) {
-      const normalizedTitle = title.toLowerCase().replace(/[^a-z0-9\s]/g, "");
-      for (let p = 0; p < pages.length; p++) {
-        const normalizedPage = pages[p].toLowerCase().replace(/[^a-z0-9\s]/g, "");
+    // Scan pages for each title. Sections are searched from their chapter's
+    // start so a repeated sub-heading does not match an earlier chapter.
+    const entries: TocEntry[] = [];
+    let chapterStart = 0;
+    for (const { title, level } of toc.entries) {
+      const normalizedTitle = normalizeForMatch(title);
+      const from = level === "section" ? chapterStart : 0;
+      for (let p = from; p < pages.length; p++) {
+        // Layout-mode pages keep line breaks; a heading may wrap across them
+        const normalizedPage = normalizeForMatch(pages[p]);
         if (normalizedPage.includes(normalizedTitle) && normalizedTitle.length > 5) {
-          chapters.push({ title, startPage: p, endPage: p });
+          entries.push({ title, startPage: p, level });
+          if (level === "chapter") chapterStart = p;
           break;
         }
       }
     }
 
-    if (chapters.length < 2) return null;
-
-    // Sort by startPage and fill endPage gaps
-    chapters.sort((a, b) => a.startPage - b.startPage);
-    for (let i = 0; i < chapters.length; i++) {
-      chapters[i].endPage =
-        i < chapters.length - 1 ? chapters[i + 1].startPage - 1 : pages.length - 1;
+    if (entries.filter((e) => e.level !== "section").length < 2) {
+      return rejected(
+        `Only ${entries.length} of ${toc.entries.length} TOC titles found in the text`
+      );
     }
 
     return {
-      chapters,
-      title: toc.bookTitle || "Untitled",
-      author: toc.author
+      value: {
+        entries,
+        title: toc.bookTitle || "Untitled",
+        author: toc.author
+      }
     };
-  } catch {
-    return null;
+  } catch (error) {
+    return failed(error);
   }
 }
 
 // ---------------------------------------------------------------------------
-// Tier 3 — LLM boundary detection from sampled pages
+// Tier 4 — LLM boundary detection from sampled pages
 // ---------------------------------------------------------------------------
 
 async function detectFromLlmSampling(
   pages: string[],
   hasApiKey: boolean
-): Promise<ChapterBoundary[] | null> {
-  if (!hasApiKey) return null;
-  if (pages.length < 10) return null;
+): Promise<TierOutcome<TocEntry[]>> {
+  if (!hasApiKey) return skipped("No API key configured");
+  if (pages.length < 10) return skipped("Book is too short to sample");
 
   // Sample every ~20th page
   const sampleIndices: number[] = [];
@@ -180,7 +761,9 @@ async function detectFromLlmSampling(
       })
     });
 
-    if (!result.boundaries || result.boundaries.length < 2) return null;
+    if (!result.boundaries || result.boundaries.length < 2) {
+      return rejected("Model found fewer than 2 boundaries");
+    }
 
     // If we got boundaries from samples, scan all pages for the pattern
     const patternStr = result.pattern;
@@ -191,7 +774,7 @@ async function detectFromLlmSampling(
       // Use boundaries as-is
     }
 
-    let chapters: ChapterBoundary[];
+    let entries: TocEntry[];
 
     if (regex) {
       // Scan all pages with the detected pattern
@@ -204,38 +787,35 @@ async function detectFromLlmSampling(
       }
 
       if (found.length >= 2) {
-        chapters = found.map((f, i) => ({
+        entries = found.map((f) => ({
           title: f.title,
           startPage: f.page,
-          endPage: i < found.length - 1 ? found[i + 1].page - 1 : pages.length - 1
+          level: classifyTitle(f.title)
         }));
       } else {
         // Fall back to sampled boundaries
-        const sorted = result.boundaries.sort((a, b) => a.pageNumber - b.pageNumber);
-        chapters = sorted.map((b, i) => ({
+        entries = result.boundaries.map((b) => ({
           title: b.title,
           startPage: b.pageNumber - 1,
-          endPage:
-            i < sorted.length - 1 ? sorted[i + 1].pageNumber - 2 : pages.length - 1
+          level: classifyTitle(b.title)
         }));
       }
     } else {
-      const sorted = result.boundaries.sort((a, b) => a.pageNumber - b.pageNumber);
-      chapters = sorted.map((b, i) => ({
+      entries = result.boundaries.map((b) => ({
         title: b.title,
         startPage: b.pageNumber - 1,
-        endPage: i < sorted.length - 1 ? sorted[i + 1].pageNumber - 2 : pages.length - 1
+        level: classifyTitle(b.title)
       }));
     }
 
-    return chapters;
-  } catch {
-    return null;
+    return { value: entries };
+  } catch (error) {
+    return failed(error);
   }
 }
 
 // ---------------------------------------------------------------------------
-// Tier 4 — Fixed chunking (last resort)
+// Tier 5 — Fixed chunking (last resort)
 // ---------------------------------------------------------------------------
 
 function fixedChunks(pages: string[]): ChapterBoundary[] {
@@ -289,48 +869,90 @@ async function extractBookMetadata(
 
 export async function detectBookStructure(
   buffer: Buffer,
-  pages: string[]
+  pages: string[],
+  layouts?: PageLayout[]
 ): Promise<BookStructure> {
   const hasApiKey = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+  const diagnostics: TierDiagnostic[] = [];
+  const asIs = (entries: TocEntry[]) => entries;
+
+  const accept = async (
+    detectionMethod: DetectionMethod,
+    tree: Hierarchy,
+    meta?: { title: string; author?: string }
+  ): Promise<BookStructure> => ({
+    ...(meta ?? (await extractBookMetadata(pages, hasApiKey))),
+    ...tree,
+    detectionMethod,
+    confidence: diagnostics[diagnostics.length - 1].confidence,
+    diagnostics
+  });
+
+  // Tier 0: PDF outline (bookmarks)
+  const outline = await runTier(
+    "pdf-outline",
+    diagnostics,
+    pages.length,
+    () => detectFromPdfOutline(buffer),
+    asIs
+  );
+  if (outline) return accept("pdf-outline", outline.tree);
 
   // Tier 1: PDF link annotations
-  const linkChapters = await detectFromPdfLinks(buffer);
-  if (linkChapters && linkChapters.length >= 3) {
-    const meta = await extractBookMetadata(pages, hasApiKey);
-    return {
-      ...meta,
-      chapters: linkChapters,
-      detectionMethod: "pdf-links"
-    };
-  }
-
-  // Tier 2: Title matching from TOC
-  const titleResult = await detectFromTitleMatching(pages, hasApiKey);
-  if (titleResult && titleResult.chapters.length >= 2) {
-    return {
-      title: titleResult.title,
-      author: titleResult.author,
-      chapters: titleResult.chapters,
-      detectionMethod: "title-match"
-    };
-  }
-
-  // Tier 3: LLM boundary detection from sampled pages
-  const llmChapters = await detectFromLlmSampling(pages, hasApiKey);
-  if (llmChapters && llmChapters.length >= 2) {
-    const meta = await extractBookMetadata(pages, hasApiKey);
-    return {
-      ...meta,
-      chapters: llmChapters,
-      detectionMethod: "llm-detection"
-    };
+  const links = await runTier(
+    "pdf-links",
+    diagnostics,
+    pages.length,
+    () => detectFromPdfLinks(buffer),
+    asIs
+  );
+  if (links) return accept("pdf-links", links.tree);
+
+  // Tier 2: Recurring large-font headings (works without an API key)
+  const fonts = await runTier(
+    "font-headings",
+    diagnostics,
+    pages.length,
+    () => detectFromFontHeadings(buffer, layouts),
+    asIs
+  );
+  if (fonts) return accept("font-headings", fonts.tree);
+
+  // Tier 3: Title matching from TOC
+  const titles = await runTier(
+    "title-match",
+    diagnostics,
+    pages.length,
+    () => detectFromTitleMatching(pages, hasApiKey),
+    (toc) => toc.entries
+  );
+  if (titles) {
+    return accept("title-match", titles.tree, {
+      title: titles.value.title,
+      author: titles.value.author
+    });
   }
 
-  // Tier 4: Fixed chunking
-  const meta = await extractBookMetadata(pages, hasApiKey);
-  return {
-    ...meta,
-    chapters: fixedChunks(pages),
-    detectionMethod: "fixed-chunks"
-  };
+  // Tier 4: LLM boundary detection from sampled pages
+  const sampled = await runTier(
+    "llm-detection",
+    diagnostics,
+    pages.length,
+    () => detectFromLlmSampling(pages, hasApiKey),
+    asIs
+  );
+  if (sampled) return accept("llm-detection", sampled.tree);
+
+  // Tier 5: Fixed chunking
+  const chapters = fixedChunks(pages);
+  diagnostics.push({
+    tier: "fixed-chunks",
+    attempted: true,
+    durationMs: 0,
+    candidates: chapters.length,
+    chapters: chapters.length,
+    accepted: true,
+    confidence: TIER_CONFIDENCE["fixed-chunks"]
+  });
+  return accept("fixed-chunks", { parts: [], chapters });
 }
@@ -1,24 +1,210 @@
 import { getDocumentProxy } from "unpdf";
+import { readPageAssets, type PageAsset } from "./assets";
+import { layoutToText, markHeadingCandidates, readPageLayout, type PageLayout } from "./layout";
+import { needsOcr, ocrPages } from "./ocr";
+
+export type OcrPageInfo = {
+  pageIndex: number; // 0-based
+  confidence: number; // 0-100
+};
 
 export type PdfExtraction = {
   totalPages: number;
   pages: string[];
+  pageLabels: string[]; // printed page label for each page index
+  ocrPages: OcrPageInfo[]; // pages whose text came from OCR instead of the text layer
+  layout?: PageLayout[]; // per-page blocks, only in layout mode
+  assets?: PageAsset[]; // figures, tables and equations, only in assets mode
 };
 
-export async function extractPdfText(buffer: Buffer): Promise<PdfExtraction> {
+export type ExtractOptions = {
+  // Rebuild reading order, paragraphs and heading candidates from text
+  // positions and fonts; pages then keep paragraph breaks
+  layout?: boolean;
+  // Detect figures, tables and equations; figure images are rendered separately
+  assets?: boolean;
+};
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+// ---------------------------------------------------------------------------
+// Page labels — printed page numbers (e.g. "xii", "37") per page index
+// ---------------------------------------------------------------------------
+
+const ARABIC_LABEL = /^\d{1,4}$/;
+const ROMAN_LABEL = /^[ivxlcdm]{1,7}$/i;
+const EDGE_BAND = 0.1; // top/bottom fraction of the page treated as header/footer
+const MIN_LABEL_VOTES = 3;
+
+const ROMAN_VALUES: Array<[string, number]> = [
+  ["m", 1000],
+  ["cm", 900],
+  ["d", 500],
+  ["cd", 400],
+  ["c", 100],
+  ["xc", 90],
+  ["l", 50],
+  ["xl", 40],
+  ["x", 10],
+  ["ix", 9],
+  ["v", 5],
+  ["iv", 4],
+  ["i", 1]
+];
+
+function romanToInt(value: string): number | null {
+  let rest = value.toLowerCase();
+  let total = 0;
+  for (const [symbol, amount] of ROMAN_VALUES) {
+    while (rest.startsWith(symbol)) {
+      total += amount;
+      rest = rest.slice(symbol.length);
+    }
+  }
+  return rest.length === 0 && total > 0 ? total : null;
+}
+
+function intToRoman(value: number): string {
+  let rest = value;
+  let out = "";
+  for (const [symbol, amount] of ROMAN_VALUES) {
+    while (rest >= amount) {
+      out += symbol;
+      rest -= amount;
+    }
+  }
+  return out;
+}
+
+async function readPdfPageLabels(pdf: PdfDocument): Promise<string[] | null> {
+  try {
+    const labels = await pdf.getPageLabels();
+    if (!labels || labels.length !== pdf.numPages) return null;
+    return labels.some((label) => label.trim()) ? labels : null;
+  } catch {
+    return null;
+  }
+}
+
+// Picks the page-number offset most pages agree on, so stray numbers in
+// running heads (years, figure numbers) are outvoted
+function dominantOffset(
+  candidates: string[][],
+  pattern: RegExp,
+  parse: (value: string) => number | null
+): number | null {
+  const votes = new Map<number, number>();
+  candidates.forEach((values, index) => {
+    for (const value of values) {
+      if (!pattern.test(value)) continue;
+      const parsed = parse(value);
+      if (parsed === null) continue;
+      const offset = parsed - index;
+      votes.set(offset, (votes.get(offset) ?? 0) + 1);
+    }
+  });
+
+  let best: number | null = null;
+  let bestVotes = 0;
+  for (const [offset, count] of votes) {
+    if (count > bestVotes) {
+      best = offset;
+      bestVotes = count;
+    }
+  }
+  return bestVotes >= MIN_LABEL_VOTES ? best : null;
+}
+
+function inferPageLabels(candidates: string[][]): string[] {
+  const arabicOffset = dominantOffset(candidates, ARABIC_LABEL, (v) => Number.parseInt(v, 10));
+  const romanOffset = dominantOffset(candidates, ROMAN_LABEL, romanToInt);
+
+  return candidates.map((values, index) => {
+    if (arabicOffset !== null && index + arabicOffset >= 1) {
+      return String(index + arabicOffset);
+    }
+    if (romanOffset !== null && index + romanOffset >= 1) {
+      return intToRoman(index + romanOffset);
+    }
+    const printedRoman = values.find((v) => ROMAN_LABEL.test(v) && romanToInt(v) !== null);
+    if (printedRoman) return printedRoman.toLowerCase();
+    // Pages before the arabic numbering starts are front matter
+    return arabicOffset !== null ? intToRoman(index + 1) : String(index + 1);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+export async function extractPdfText(
+  buffer: Buffer,
+  options: ExtractOptions = {}
+): Promise<PdfExtraction> {
   const pdf = await getDocumentProxy(new Uint8Array(buffer));
   const pages: string[] = [];
+  const labelCandidates: string[][] = [];
+  const layouts: PageLayout[] = [];
+  const assets: PageAsset[] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
+
+    if (options.layout) {
+      layouts.push(await readPageLayout(page, i - 1, textContent));
+    }
+    if (options.assets) {
+      assets.push(...(await readPageAssets(page, i - 1, textContent)));
+    }
+
     const text = textContent.items
       .map((item) => ("str" in item ? (item as { str: string }).str : ""))
       .join(" ")
       .replace(/\s+/g, " ")
       .trim();
     pages.push(text);
+
+    // Printed page numbers sit alone in the header or footer band
+    const { height } = page.getViewport({ scale: 1 });
+    const edgeValues: string[] = [];
+    for (const item of textContent.items) {
+      if (!("str" in item) || !("transform" in item)) continue;
+      const value = item.str.trim();
+      const y = item.transform[5];
+      if (!value || (y > height * EDGE_BAND && y < height * (1 - EDGE_BAND))) continue;
+      if (ARABIC_LABEL.test(value) || ROMAN_LABEL.test(value)) {
+        edgeValues.push(value);
+      }
+    }
+    labelCandidates.push(edgeValues);
+  }
+
+  const pageLabels = (await readPdfPageLabels(pdf)) ?? inferPageLabels(labelCandidates);
+
+  if (options.layout) {
+    markHeadingCandidates(layouts);
+    layouts.forEach((layout, index) => {
+      if (layout.blocks.length) pages[index] = layoutToText(layout);
+    });
+  }
+
+  // Scanned pages have no (or almost no) text layer — read them with OCR
+  const scannedIndices = pages.flatMap((text, index) => (needsOcr(text) ? [index] : []));
+  const ocrResults = await ocrPages(buffer, scannedIndices);
+  const ocrInfo: OcrPageInfo[] = [];
+  for (const result of ocrResults) {
+    if (result.text.length <= pages[result.pageIndex].length) continue;
+    pages[result.pageIndex] = result.text;
+    ocrInfo.push({ pageIndex: result.pageIndex, confidence: result.confidence });
   }
 
-  return { totalPages: pdf.numPages, pages };
+  return {
+    totalPages: pdf.numPages,
+    pages,
+    pageLabels,
+    ocrPages: ocrInfo,
+    ...(options.layout ? { layout: layouts } : {}),
+    ...(options.assets ? { assets } : {})
+  };
 }
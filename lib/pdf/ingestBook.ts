@@ -0,0 +1,330 @@
+import { readFile } from "fs/promises";
+import { extractEpub } from "@/lib/epub/extractEpub";
+import { extractTextDocument } from "@/lib/text/extractTextDocument";
+import { analyzeBook, type BookAnalysis } from "./analyzeBook";
+import { renderFigureImages, type FigureAsset, type PageAsset } from "./assets";
+import { buildConceptIndex } from "./conceptIndex";
+import { extractPdfText } from "./extractText";
+import type { PageLayout } from "./layout";
+import {
+  hashContent,
+  readCachedAnalysis,
+  readCachedExtraction,
+  saveCachedAnalysis,
+  saveCachedExtraction,
+  type CachedExtraction
+} from "@/lib/state/analysisCache";
+import {
+  isIngestionFinished,
+  readBookAnalysis,
+  readCourseMaterials,
+  readDocumentAssets,
+  readExtractedPageLabels,
+  readExtractedText,
+  readIngestionJob,
+  readPageLayouts,
+  saveAssetImage,
+  saveBookAnalysis,
+  saveConceptIndex,
+  saveCourseMaterials,
+  saveDocumentAssets,
+  saveExtractedText,
+  saveIngestionJob,
+  savePageLayouts,
+  type IngestionJob,
+  type IngestionStatus
+} from "@/lib/state/courseFiles";
+
+// Jobs running in this server process. A job whose file says it is still
+// running but is not in this set was interrupted (e.g. by a restart).
+const activeJobs = new Set<string>();
+
+// Starts the job in the background; the caller follows progress via the job file
+export function startIngestionJob(userId: string, jobId: string) {
+  if (activeJobs.has(jobId)) return;
+  activeJobs.add(jobId);
+  runIngestionJob(userId, jobId)
+    .catch(() => {
+      // failures are recorded on the job itself
+    })
+    .finally(() => activeJobs.delete(jobId));
+}
+
+export function isIngestionJobRunning(jobId: string) {
+  return activeJobs.has(jobId);
+}
+
+// Picks up an interrupted job where it left off; finished and running jobs are left alone
+export function resumeIngestionJob(job: IngestionJob) {
+  if (isIngestionFinished(job) || activeJobs.has(job.jobId)) return false;
+  startIngestionJob(job.userId, job.jobId);
+  return true;
+}
+
+// Runs a failed job again from the document that failed, keeping finished chapters
+export async function retryIngestionJob(job: IngestionJob) {
+  if (job.status !== "failed" || activeJobs.has(job.jobId)) return false;
+  const retried: IngestionJob = {
+    ...job,
+    status: "queued",
+    error: undefined,
+    documents: job.documents.map((doc) =>
+      doc.status === "failed" ? { ...doc, status: "queued" } : doc
+    ),
+    updatedAt: new Date().toISOString()
+  };
+  await saveIngestionJob(retried);
+  startIngestionJob(job.userId, job.jobId);
+  return true;
+}
+
+export type BookFormat = "pdf" | "epub" | "markdown" | "html" | "text";
+
+const FORMAT_BY_EXTENSION: Record<string, BookFormat> = {
+  pdf: "pdf",
+  epub: "epub",
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  htm: "html",
+  txt: "text"
+};
+
+export function bookFormat(filename: string): BookFormat | null {
+  const extension = filename.toLowerCase().split(".").pop() ?? "";
+  return FORMAT_BY_EXTENSION[extension] ?? null;
+}
+
+// EPUBs and text sources have no page layout, OCR or detected assets; their
+// structure comes from the navigation document or headings instead of the
+// detection tiers, and their pages are virtual
+async function extractSourceBook(
+  buffer: Buffer,
+  format: Exclude<BookFormat, "pdf">,
+  filename: string
+): Promise<CachedExtraction> {
+  const source =
+    format === "epub"
+      ? await extractEpub(buffer)
+      : await extractTextDocument(buffer, format, filename);
+  return {
+    pages: source.pages,
+    pageLabels: source.pageLabels,
+    ocrPages: [],
+    layout: [],
+    assets: [],
+    totalPages: source.totalPages,
+    structure: source.structure
+  };
+}
+
+// Extraction does not depend on the model, so it is shared whenever the same file is uploaded
+async function extractWithCache(
+  buffer: Buffer,
+  contentHash: string,
+  format: BookFormat,
+  filename: string
+): Promise<CachedExtraction> {
+  const cached = await readCachedExtraction(contentHash);
+  if (cached) return cached;
+
+  let result: CachedExtraction;
+  if (format !== "pdf") {
+    result = await extractSourceBook(buffer, format, filename);
+  } else {
+    const extraction = await extractPdfText(buffer, { layout: true, assets: true });
+    result = {
+      pages: extraction.pages,
+      pageLabels: extraction.pageLabels,
+      ocrPages: extraction.ocrPages,
+      layout: extraction.layout ?? [],
+      assets: extraction.assets ?? [],
+      totalPages: extraction.totalPages
+    };
+  }
+  if (result.pages.some((page) => page.trim())) {
+    await saveCachedExtraction(contentHash, result);
+  }
+  return result;
+}
+
+// Figure images are not part of the shared cache; each document folder gets its own
+async function saveAssets(
+  userId: string,
+  courseId: string,
+  documentId: string,
+  buffer: Buffer,
+  assets: PageAsset[]
+): Promise<PageAsset[]> {
+  const figures = assets.filter((asset): asset is FigureAsset => asset.kind === "figure");
+  const images = await renderFigureImages(buffer, figures);
+  const imagePaths = new Map<string, string>();
+  for (const image of images) {
+    const imagePath = await saveAssetImage(userId, courseId, image.id, image.png, documentId);
+    imagePaths.set(image.id, imagePath);
+  }
+
+  const saved = assets.map((asset) => {
+    const imagePath = imagePaths.get(asset.id);
+    return asset.kind === "figure" && imagePath ? { ...asset, imagePath } : asset;
+  });
+  await saveDocumentAssets(userId, courseId, saved, documentId);
+  return saved;
+}
+
+// ---------------------------------------------------------------------------
+// Job runner — documents are processed one at a time; each stage is skipped
+// when an earlier run already saved its result or the shared cache has it
+// ---------------------------------------------------------------------------
+
+async function runIngestionJob(userId: string, jobId: string) {
+  const job = await readIngestionJob(userId, jobId);
+  if (!job || isIngestionFinished(job)) return;
+
+  // Chapter callbacks fire concurrently; writes are chained so they never interleave
+  let writes = Promise.resolve();
+  const persist = () => {
+    job.updatedAt = new Date().toISOString();
+    writes = writes.then(() => saveIngestionJob(job));
+    return writes;
+  };
+  const setStatus = (status: IngestionStatus) => {
+    job.status = status;
+    job.documents[job.currentDocument].status = status;
+    return persist();
+  };
+
+  try {
+    const documents: BookAnalysis[] = [];
+
+    for (const [index, doc] of job.documents.entries()) {
+      job.currentDocument = index;
+
+      if (doc.status === "done") {
+        const saved = await readBookAnalysis(userId, job.courseId, doc.documentId);
+        if (saved) documents.push(saved);
+        continue;
+      }
+
+      const buffer = await readFile(doc.storagePath);
+      const contentHash = (doc.contentHash ??= hashContent(buffer));
+      const format = bookFormat(doc.originalFilename) ?? "pdf";
+
+      let pages = await readExtractedText(userId, job.courseId, doc.documentId);
+      let pageLabels: string[] | undefined;
+      let layouts: PageLayout[] | undefined;
+      let assets: PageAsset[] = [];
+
+      if (!pages) {
+        await setStatus("extracting");
+        const extraction = await extractWithCache(
+          buffer,
+          contentHash,
+          format,
+          doc.originalFilename
+        );
+        if (!extraction.pages.some((page) => page.trim())) {
+          throw new Error(`No readable content found in "${doc.originalFilename}".`);
+        }
+
+        await saveExtractedText(
+          userId,
+          job.courseId,
+          extraction.pages,
+          { pageLabels: extraction.pageLabels, ocrPages: extraction.ocrPages },
+          doc.documentId
+        );
+        await savePageLayouts(userId, job.courseId, extraction.layout, doc.documentId);
+        assets = await saveAssets(userId, job.courseId, doc.documentId, buffer, extraction.assets);
+
+        pages = extraction.pages;
+        pageLabels = extraction.pageLabels;
+        layouts = extraction.layout;
+        doc.totalPages = extraction.totalPages;
+        doc.ocrPageCount = extraction.ocrPages.length;
+        doc.detected ??= extraction.structure;
+      } else {
+        pageLabels =
+          (await readExtractedPageLabels(userId, job.courseId, doc.documentId)) ?? undefined;
+        layouts = (await readPageLayouts(userId, job.courseId, doc.documentId)) ?? undefined;
+        assets = (await readDocumentAssets(userId, job.courseId, doc.documentId)) ?? [];
+        doc.totalPages ??= pages.length;
+        // Structure detection only works on PDFs; other formats read it from the file again
+        if (format !== "pdf" && !doc.detected) {
+          doc.detected = (
+            await extractWithCache(buffer, contentHash, format, doc.originalFilename)
+          ).structure;
+        }
+      }
+
+      // Placeholder analyses made without a model are not worth sharing
+      const useAnalysisCache = Boolean(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+      let analysis = useAnalysisCache ? await readCachedAnalysis(contentHash) : null;
+      doc.reusedAnalysis = Boolean(analysis);
+
+      if (!analysis) {
+        await setStatus(doc.detected ? "analyzing" : "detecting");
+
+        analysis = await analyzeBook(buffer, pages, pageLabels, layouts, {
+          detected: doc.detected,
+          completedChapters: doc.chapters,
+          assets,
+          onDetected: (detected, chapterCount) => {
+            doc.detected = detected;
+            doc.chapterCount = chapterCount;
+            return setStatus("analyzing");
+          },
+          onChapterAnalyzed: (chapter) => {
+            doc.chapters = [
+              ...doc.chapters.filter((ch) => ch.chapterNumber !== chapter.chapterNumber),
+              chapter
+            ];
+            return persist();
+          }
+        });
+
+        if (useAnalysisCache) await saveCachedAnalysis(contentHash, analysis);
+      }
+
+      const bookAnalysis: BookAnalysis = { documentId: doc.documentId, ...analysis };
+      await saveBookAnalysis(userId, job.courseId, bookAnalysis);
+      await saveConceptIndex(userId, job.courseId, buildConceptIndex(bookAnalysis, pages));
+      documents.push(bookAnalysis);
+
+      doc.status = "done";
+      doc.chapterCount = bookAnalysis.chapters.length;
+      doc.detected = undefined;
+      doc.chapters = [];
+      await persist();
+    }
+
+    // Fill in what was learned about each material now that all are read
+    const materials = await readCourseMaterials(userId, job.courseId);
+    await saveCourseMaterials(
+      userId,
+      job.courseId,
+      materials.map((material) => {
+        const doc = job.documents.find((d) => d.documentId === material.id);
+        const analysis = documents.find((a) => a.documentId === material.id);
+        return {
+          ...material,
+          metadata: {
+            ...material.metadata,
+            ...(analysis ? { title: analysis.title } : {}),
+            ...(doc?.contentHash ? { contentHash: doc.contentHash } : {}),
+            ...(doc?.totalPages !== undefined ? { totalPages: doc.totalPages } : {}),
+            ...(doc?.ocrPageCount !== undefined ? { ocrPageCount: doc.ocrPageCount } : {})
+          }
+        };
+      })
+    );
+
+    job.status = "done";
+    await persist();
+  } catch (error) {
+    job.status = "failed";
+    job.documents[job.currentDocument].status = "failed";
+    job.error = error instanceof Error ? error.message : "Ingestion failed.";
+    await persist();
+  }
+}
@@ -0,0 +1,326 @@
+import type { getDocumentProxy } from "unpdf";
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+export type PdfPage = Awaited<ReturnType<PdfDocument["getPage"]>>;
+export type TextContent = Awaited<ReturnType<PdfPage["getTextContent"]>>;
+
+export type LayoutBlock = {
+  kind: "heading" | "paragraph";
+  text: string; // lines joined in reading order, de-hyphenated
+  lines: string[]; // lines as printed
+  fontSize: number; // dominant font size in points
+  bold: boolean;
+  fontName: string;
+  column: number; // 0 = single/left column, 1 = right column, -1 = spans both
+  left: number; // points from the left edge
+  top: number; // points from the top edge to the first baseline
+};
+
+export type PageLayout = {
+  pageIndex: number; // 0-based
+  width: number;
+  height: number;
+  columns: 1 | 2;
+  blocks: LayoutBlock[];
+};
+
+export type TextRun = {
+  text: string;
+  x: number;
+  y: number; // baseline, PDF user space (origin bottom-left)
+  width: number;
+  fontSize: number;
+  fontName: string;
+  column: number;
+};
+
+type Line = {
+  text: string;
+  x0: number;
+  x1: number;
+  y: number;
+  fontSize: number;
+  fontName: string;
+  column: number;
+};
+
+const BOLD_FONT_NAME = /bold|black|heavy|semibold|demi/i;
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LINES = 3;
+const MAX_HEADING_CHARS = 200;
+
+// ---------------------------------------------------------------------------
+// Fonts — pdf.js only exposes real font names once the page's operator list
+// has been built; this is best-effort and leaves out fonts it cannot resolve
+// ---------------------------------------------------------------------------
+
+export type FontInfo = { name?: string; bold?: boolean };
+
+export async function resolveFonts(
+  page: PdfPage,
+  fontNames: string[]
+): Promise<Map<string, FontInfo>> {
+  const fonts = new Map<string, FontInfo>();
+  try {
+    await page.getOperatorList();
+    for (const fontName of fontNames) {
+      try {
+        const font = page.commonObjs.get(fontName) as FontInfo | null;
+        if (font) fonts.set(fontName, font);
+      } catch {
+        // font not resolved
+      }
+    }
+  } catch {
+    // operator list unavailable
+  }
+  return fonts;
+}
+
+async function resolveBoldFonts(page: PdfPage, fontNames: string[]): Promise<Set<string>> {
+  const bold = new Set<string>();
+  for (const [fontName, font] of await resolveFonts(page, fontNames)) {
+    if (font.bold || (typeof font.name === "string" && BOLD_FONT_NAME.test(font.name))) {
+      bold.add(fontName);
+    }
+  }
+  return bold;
+}
+
+// ---------------------------------------------------------------------------
+// Columns — look for a vertical gutter near the middle that no text crosses
+// ---------------------------------------------------------------------------
+
+function findGutter(runs: TextRun[], pageWidth: number): number | null {
+  const totalChars = runs.reduce((sum, r) => sum + r.text.length, 0);
+  if (totalChars < 200) return null;
+
+  let best: { x: number; crossing: number } | null = null;
+  for (let x = pageWidth * 0.35; x <= pageWidth * 0.65; x += 2) {
+    let crossing = 0;
+    let left = 0;
+    let right = 0;
+    for (const run of runs) {
+      if (run.x + run.width <= x) left += run.text.length;
+      else if (run.x >= x) right += run.text.length;
+      else crossing += run.text.length;
+    }
+    if (left < totalChars * 0.2 || right < totalChars * 0.2) continue;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+
+  return best && best.crossing <= totalChars * 0.05 ? best.x : null;
+}
+
+// ---------------------------------------------------------------------------
+// Lines and blocks
+// ---------------------------------------------------------------------------
+
+export function joinRuns(runs: TextRun[]): string {
+  let text = "";
+  let prev: TextRun | null = null;
+  for (const run of runs) {
+    if (prev) {
+      const gap = run.x - (prev.x + prev.width);
+      if (gap > run.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.text)) {
+        text += " ";
+      }
+    }
+    text += run.text;
+    prev = run;
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function groupLines(runs: TextRun[]): Line[] {
+  // Lines never cross the gutter, so columns are grouped separately
+  const sorted = [...runs].sort((a, b) => a.column - b.column || b.y - a.y || a.x - b.x);
+  const groups: TextRun[][] = [];
+
+  for (const run of sorted) {
+    const current = groups[groups.length - 1];
+    const anchor = current?.[0];
+    const sameLine =
+      anchor &&
+      anchor.column === run.column &&
+      Math.abs(anchor.y - run.y) <= Math.max(anchor.fontSize, run.fontSize) * 0.5;
+    if (sameLine) {
+      current.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+
+  return groups
+    .map((group) => {
+      const ordered = group.sort((a, b) => a.x - b.x);
+      // The run carrying the most text decides the line's font
+      const dominant = ordered.reduce((a, b) => (b.text.length > a.text.length ? b : a));
+      return {
+        text: joinRuns(ordered),
+        x0: ordered[0].x,
+        x1: Math.max(...ordered.map((r) => r.x + r.width)),
+        y: dominant.y,
+        fontSize: dominant.fontSize,
+        fontName: dominant.fontName,
+        column: dominant.column
+      };
+    })
+    .filter((line) => line.text.length > 0);
+}
+
+function joinLines(lines: string[]): string {
+  return lines.reduce((text, line) => {
+    if (!text) return line;
+    // "para-" + "graph" -> "paragraph"; keep real hyphens before capitals/digits
+    if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(line)) return text.slice(0, -1) + line;
+    return `${text} ${line}`;
+  }, "");
+}
+
+function startsNewBlock(prev: Line, line: Line, blockX0: number, boldFonts: Set<string>) {
+  if (line.column !== prev.column) return true;
+  if (Math.abs(line.fontSize - prev.fontSize) > 0.5) return true;
+  if (boldFonts.has(line.fontName) !== boldFonts.has(prev.fontName)) return true;
+
+  // Normal leading is ~1.2x the font size; a clearly larger gap is a paragraph break
+  const gap = prev.y - line.y;
+  if (gap > line.fontSize * 1.2 * 1.4 || gap < 0) return true;
+
+  // A first-line indent after a sentence end starts a new paragraph
+  const indented = line.x0 - blockX0 > line.fontSize;
+  return indented && /[.!?:]["')\]]?$/.test(prev.text);
+}
+
+function orderLines(lines: Line[]): Line[] {
+  const spanning = lines.filter((l) => l.column === -1);
+  const columnLines = lines.filter((l) => l.column !== -1);
+  const columnTop = Math.max(...columnLines.map((l) => l.y), -Infinity);
+
+  // Full-width lines above the columns (titles, headings) come first, the
+  // columns are read left then right, and full-width lines below them last
+  return [
+    ...spanning.filter((l) => l.y >= columnTop),
+    ...columnLines.filter((l) => l.column === 0),
+    ...columnLines.filter((l) => l.column === 1),
+    ...spanning.filter((l) => l.y < columnTop)
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Page layout
+// ---------------------------------------------------------------------------
+
+// Non-empty text items with their position and size; columns are assigned later
+export function readTextRuns(textContent: TextContent): TextRun[] {
+  const runs: TextRun[] = [];
+  for (const item of textContent.items) {
+    if (!("str" in item) || !item.str || !item.str.trim()) continue;
+    const [, , c, d, x, y] = item.transform as number[];
+    runs.push({
+      text: item.str,
+      x,
+      y,
+      width: item.width,
+      fontSize: Math.round(Math.hypot(c, d) * 10) / 10,
+      fontName: item.fontName,
+      column: 0
+    });
+  }
+  return runs;
+}
+
+export async function readPageLayout(
+  page: PdfPage,
+  pageIndex: number,
+  textContent: TextContent
+): Promise<PageLayout> {
+  const { width, height } = page.getViewport({ scale: 1 });
+
+  const runs = readTextRuns(textContent);
+  const gutter = findGutter(runs, width);
+  if (gutter !== null) {
+    for (const run of runs) {
+      run.column = run.x + run.width <= gutter ? 0 : run.x >= gutter ? 1 : -1;
+    }
+  }
+
+  const boldFonts = await resolveBoldFonts(page, Array.from(new Set(runs.map((r) => r.fontName))));
+  const lines = orderLines(groupLines(runs));
+
+  const blocks: LayoutBlock[] = [];
+  let current: Line[] = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    const first = current[0];
+    const lineTexts = current.map((l) => l.text);
+    blocks.push({
+      kind: "paragraph",
+      text: joinLines(lineTexts),
+      lines: lineTexts,
+      fontSize: first.fontSize,
+      bold: boldFonts.has(first.fontName),
+      fontName: first.fontName,
+      column: first.column,
+      left: Math.round(Math.min(...current.map((l) => l.x0))),
+      top: Math.round(height - first.y)
+    });
+    current = [];
+  };
+
+  for (const line of lines) {
+    const prev = current[current.length - 1];
+    if (prev && startsNewBlock(prev, line, current[0].x0, boldFonts)) flush();
+    current.push(line);
+  }
+  flush();
+
+  return { pageIndex, width, height, columns: gutter !== null ? 2 : 1, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// Heading candidates — needs the whole book to know the body text size
+// ---------------------------------------------------------------------------
+
+export function bodyFontSize(layouts: PageLayout[]): number {
+  const charsBySize = new Map<number, number>();
+  for (const layout of layouts) {
+    for (const block of layout.blocks) {
+      const size = Math.round(block.fontSize * 2) / 2;
+      charsBySize.set(size, (charsBySize.get(size) ?? 0) + block.text.length);
+    }
+  }
+
+  let body = 0;
+  let bodyChars = -1;
+  for (const [size, chars] of charsBySize) {
+    if (chars > bodyChars) {
+      body = size;
+      bodyChars = chars;
+    }
+  }
+  return body;
+}
+
+export function markHeadingCandidates(layouts: PageLayout[]) {
+  const bodySize = bodyFontSize(layouts);
+  if (!bodySize) return;
+
+  for (const layout of layouts) {
+    for (const block of layout.blocks) {
+      const short =
+        block.lines.length <= MAX_HEADING_LINES && block.text.length <= MAX_HEADING_CHARS;
+      const larger = block.fontSize >= bodySize * HEADING_SIZE_RATIO;
+      const boldLabel =
+        block.bold && !/[.,;]$/.test(block.text) && block.text.split(" ").length <= 15;
+      const pageNumber = /^[\divxlcdm]+$/i.test(block.text);
+
+      block.kind = short && !pageNumber && (larger || boldLabel) ? "heading" : "paragraph";
+    }
+  }
+}
+
+export function layoutToText(layout: PageLayout): string {
+  return layout.blocks.map((block) => block.text).join("\n\n");
+}
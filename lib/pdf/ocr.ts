@@ -0,0 +1,73 @@
+import type { Worker } from "tesseract.js";
+import { createIsomorphicCanvasFactory, getDocumentProxy, renderPageAsImage } from "unpdf";
+
+export type OcrPageResult = {
+  pageIndex: number; // 0-based
+  text: string;
+  confidence: number; // 0-100, as reported by tesseract
+};
+
+// Pages whose text layer has fewer characters than this are treated as scans
+export const MIN_TEXT_LAYER_CHARS = 25;
+
+// Render at 2x so body text is ~150 DPI, which tesseract needs for small fonts
+const RENDER_SCALE = 2;
+
+export function needsOcr(pageText: string) {
+  return pageText.replace(/\s+/g, "").length < MIN_TEXT_LAYER_CHARS;
+}
+
+// ---------------------------------------------------------------------------
+// Run OCR on the given pages with a local WASM tesseract build. Language data
+// ships in @tesseract.js-data/eng, so nothing is fetched over the network.
+// Returns an empty list when the OCR engine or canvas is unavailable.
+// ---------------------------------------------------------------------------
+
+export async function ocrPages(buffer: Buffer, pageIndices: number[]): Promise<OcrPageResult[]> {
+  if (!pageIndices.length) return [];
+
+  let worker: Worker | null = null;
+
+  try {
+    const [{ createWorker, OEM }, { default: engData }] = await Promise.all([
+      import("tesseract.js"),
+      import("@tesseract.js-data/eng")
+    ]);
+
+    // Rendering image XObjects needs a document opened with a canvas factory
+    const canvasImport = () => import("@napi-rs/canvas");
+    const CanvasFactory = await createIsomorphicCanvasFactory(canvasImport);
+    const pdf = await getDocumentProxy(new Uint8Array(buffer), { CanvasFactory });
+
+    worker = await createWorker("eng", OEM.LSTM_ONLY, {
+      langPath: engData.langPath,
+      gzip: engData.gzip,
+      cacheMethod: "none"
+    });
+
+    const results: OcrPageResult[] = [];
+
+    for (const pageIndex of pageIndices) {
+      try {
+        const image = await renderPageAsImage(pdf, pageIndex + 1, {
+          canvasImport,
+          scale: RENDER_SCALE
+        });
+        const { data } = await worker.recognize(Buffer.from(image));
+        results.push({
+          pageIndex,
+          text: data.text.replace(/\s+/g, " ").trim(),
+          confidence: Math.round(data.confidence)
+        });
+      } catch {
+        // Skip pages that fail to render; the rest of the book is still usable
+      }
+    }
+
+    return results;
+  } catch {
+    return [];
+  } finally {
+    await worker?.terminate().catch(() => {});
+  }
+}
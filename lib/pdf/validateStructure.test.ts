@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { ChapterBoundary } from "./detectStructure";
+import { validateStructure } from "./validateStructure";
+
+const body = (n: number) => `Body text of page ${n}, part of a chapter.`;
+
+function book(count: number, overrides: Record<number, string> = {}) {
+  return Array.from({ length: count }, (_, i) => overrides[i] ?? body(i));
+}
+
+function chapter(title: string, startPage: number, endPage: number): ChapterBoundary {
+  return { title, startPage, endPage };
+}
+
+describe("validateStructure", () => {
+  it("keeps a clean structure as it is", () => {
+    const chapters = [chapter("One", 0, 4), chapter("Two", 5, 9)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, book(10));
+
+    expect(structure.chapters).toEqual(chapters);
+    expect(coverage).toEqual({ issues: [], uncovered: [] });
+  });
+
+  it("drops chapters that start past the last page and clamps those that end past it", () => {
+    const chapters = [chapter("One", 0, 4), chapter("Two", 5, 40), chapter("Ghost", 30, 35)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, book(10));
+
+    expect(structure.chapters.map((ch) => ch.title)).toEqual(["One", "Two"]);
+    expect(structure.chapters[1].endPage).toBe(9);
+    expect(coverage.issues.map((issue) => issue.kind)).toEqual(["out-of-range", "out-of-range"]);
+  });
+
+  it("sorts chapters and trims one that runs into the next", () => {
+    const chapters = [chapter("Two", 5, 9), chapter("One", 0, 7)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, book(10));
+
+    expect(structure.chapters).toEqual([chapter("One", 0, 4), chapter("Two", 5, 9)]);
+    expect(coverage.issues).toEqual([
+      expect.objectContaining({ kind: "overlap", chapterIndex: 0 })
+    ]);
+  });
+
+  it("extends a reversed chapter up to the next one", () => {
+    const chapters = [chapter("One", 0, 4), chapter("Two", 5, 2), chapter("Three", 8, 9)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, book(10));
+
+    expect(structure.chapters[1]).toEqual(chapter("Two", 5, 7));
+    expect(coverage.issues.map((issue) => issue.kind)).toEqual(["reversed"]);
+  });
+
+  it("folds short unmarked gaps into the chapter before them", () => {
+    const chapters = [chapter("One", 0, 3), chapter("Two", 6, 9)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, book(10));
+
+    expect(structure.chapters[0].endPage).toBe(5);
+    expect(coverage.issues).toEqual([
+      expect.objectContaining({ kind: "gap", chapterIndex: 0, repaired: true })
+    ]);
+    expect(coverage.uncovered).toEqual([]);
+  });
+
+  it("reports gaps that are too long or hold other matter", () => {
+    const pages = book(20, { 5: "Appendix A\nTables of constants" });
+    const chapters = [chapter("One", 0, 4), chapter("Two", 7, 9), chapter("Three", 16, 19)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, pages);
+
+    expect(structure.chapters.map((ch) => ch.endPage)).toEqual([4, 9, 19]);
+    expect(coverage.uncovered).toEqual([
+      { kind: "appendix", title: "Appendix A", startPage: 5, endPage: 6 },
+      expect.objectContaining({ kind: "body", startPage: 10, endPage: 15 })
+    ]);
+  });
+
+  it("leaves every gap uncovered when the ranges were chosen by hand", () => {
+    const chapters = [chapter("One", 0, 3), chapter("Two", 6, 8)];
+    const { structure, coverage } = validateStructure({ parts: [], chapters }, book(10), {
+      absorbGaps: false
+    });
+
+    expect(structure.chapters.map((ch) => ch.endPage)).toEqual([3, 8]);
+    expect(coverage.uncovered.map((span) => [span.kind, span.startPage, span.endPage])).toEqual([
+      ["body", 4, 5],
+      ["back-matter", 9, 9]
+    ]);
+  });
+
+  it("classifies front and back matter outside the chapters", () => {
+    const pages = book(12, {
+      0: "Copyright 2024 by the authors",
+      1: "Contents\nOne 3\nTwo 6",
+      10: "Index\nalgebra, 3, 5",
+      11: "Index continued"
+    });
+    const chapters = [chapter("One", 2, 5), chapter("Two", 6, 9)];
+    const { coverage } = validateStructure({ parts: [], chapters }, pages);
+
+    expect(coverage.uncovered.map((span) => [span.kind, span.startPage, span.endPage])).toEqual([
+      ["front-matter", 0, 0],
+      ["table-of-contents", 1, 1],
+      ["index", 10, 11]
+    ]);
+  });
+
+  it("keeps sections inside their chapter and before the next section", () => {
+    const chapters = [
+      {
+        ...chapter("One", 0, 9),
+        sections: [
+          { title: "1.2", startPage: 4, endPage: 12 },
+          { title: "1.1", startPage: 0, endPage: 6 },
+          { title: "Stray", startPage: 15, endPage: 16 }
+        ]
+      }
+    ];
+    const { structure } = validateStructure({ parts: [], chapters }, book(10));
+
+    expect(structure.chapters[0].sections).toEqual([
+      { title: "1.1", startPage: 0, endPage: 3 },
+      { title: "1.2", startPage: 4, endPage: 9 }
+    ]);
+  });
+});
@@ -0,0 +1,260 @@
+import type { BookStructure, ChapterBoundary, SectionBoundary } from "./detectStructure";
+
+export type CoverageIssueKind = "out-of-range" | "reversed" | "overlap" | "gap";
+
+export type CoverageIssue = {
+  kind: CoverageIssueKind;
+  chapterIndex: number; // into the repaired chapters; into the detected ones for dropped chapters
+  detail: string;
+  repaired: boolean;
+};
+
+export type UncoveredSpanKind =
+  | "front-matter"
+  | "table-of-contents"
+  | "preface"
+  | "appendix"
+  | "bibliography"
+  | "glossary"
+  | "index"
+  | "back-matter"
+  | "body";
+
+// Pages that belong to no chapter after repairs
+export type UncoveredSpan = {
+  kind: UncoveredSpanKind;
+  title?: string; // first line of the span, when it has one
+  startPage: number; // 0-based
+  endPage: number; // 0-based, inclusive
+  startPageLabel?: string;
+  endPageLabel?: string;
+};
+
+export type CoverageReport = {
+  issues: CoverageIssue[];
+  uncovered: UncoveredSpan[];
+};
+
+// Unclassified gaps up to this many pages are folded into the chapter before them
+const MAX_ABSORBED_GAP = 3;
+
+// ---------------------------------------------------------------------------
+// Span classification — what kind of matter sits on pages no chapter covers
+// ---------------------------------------------------------------------------
+
+const PAGE_MARKERS: Array<[UncoveredSpanKind, RegExp]> = [
+  ["table-of-contents", /^(table of )?contents\b/i],
+  ["preface", /^(preface|foreword|prologue|introduction|acknowledge?ments|dedication)\b/i],
+  ["appendix", /^(appendix|appendices)\b/i],
+  ["bibliography", /^(bibliography|references|works cited|further reading|sources)\b/i],
+  ["glossary", /^glossary\b/i],
+  ["index", /^(subject |author )?index\b/i],
+  ["front-matter", /^(copyright|all rights reserved|isbn|about the authors?|also by)\b/i]
+];
+
+function pageHeadLines(text: string) {
+  return text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, 3)
+    .map((line) => line.replace(/^[\divxlcdm]+\s+/i, "")); // leading page number or running folio
+}
+
+function classifyPage(text: string): UncoveredSpanKind | null {
+  for (const line of pageHeadLines(text)) {
+    for (const [kind, marker] of PAGE_MARKERS) {
+      if (marker.test(line)) return kind;
+    }
+  }
+
+  // Index pages are dense with "term, 12, 45" entries; reference lists with years
+  if ((text.match(/[a-z]+,\s*\d+(\s*[,-]\s*\d+)*/gi) ?? []).length >= 12) return "index";
+  if ((text.match(/\((19|20)\d{2}[a-z]?\)|\b(19|20)\d{2}\.\s/g) ?? []).length >= 6) {
+    return "bibliography";
+  }
+  return null;
+}
+
+// Splits an uncovered page range into spans of one kind each; unmarked pages
+// continue the span before them, or take the position's default kind
+function classifyRange(
+  pages: string[],
+  startPage: number,
+  endPage: number,
+  fallback: UncoveredSpanKind
+): UncoveredSpan[] {
+  const spans: UncoveredSpan[] = [];
+
+  for (let p = startPage; p <= endPage; p++) {
+    const marked = classifyPage(pages[p] ?? "");
+    const current = spans[spans.length - 1];
+
+    if (current && (!marked || marked === current.kind)) {
+      current.endPage = p;
+      continue;
+    }
+
+    const title = pageHeadLines(pages[p] ?? "")[0];
+    spans.push({
+      kind: marked ?? fallback,
+      ...(title ? { title: title.slice(0, 80) } : {}),
+      startPage: p,
+      endPage: p
+    });
+  }
+
+  return spans;
+}
+
+// ---------------------------------------------------------------------------
+// Repairs
+// ---------------------------------------------------------------------------
+
+function clampSections(chapter: ChapterBoundary): SectionBoundary[] | undefined {
+  if (!chapter.sections) return undefined;
+  const sections = chapter.sections
+    .filter((s) => s.startPage >= chapter.startPage && s.startPage <= chapter.endPage)
+    .sort((a, b) => a.startPage - b.startPage);
+
+  return sections.map((section, i) => {
+    const next = sections[i + 1];
+    const limit = next ? Math.max(section.startPage, next.startPage - 1) : chapter.endPage;
+    return { ...section, endPage: Math.min(Math.max(section.endPage, section.startPage), limit) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point — validate and repair chapter ranges, report what is left
+// ---------------------------------------------------------------------------
+
+// Extra fields on chapters (e.g. manual edit bookkeeping) are carried through.
+// Set absorbGaps to false when the ranges were chosen by hand.
+export function validateStructure<S extends Pick<BookStructure, "parts" | "chapters">>(
+  structure: S,
+  pages: string[],
+  options: { absorbGaps?: boolean } = {}
+): { structure: S; coverage: CoverageReport } {
+  const absorbGaps = options.absorbGaps ?? true;
+  const lastPage = pages.length - 1;
+  const issues: CoverageIssue[] = [];
+
+  // Out-of-range starts cannot be repaired — the heading is not in this text
+  const inRange = structure.chapters.filter((chapter, i) => {
+    if (chapter.startPage >= 0 && chapter.startPage <= lastPage) return true;
+    issues.push({
+      kind: "out-of-range",
+      chapterIndex: i,
+      detail: `"${chapter.title}" starts on page ${chapter.startPage + 1} of ${pages.length}; dropped`,
+      repaired: true
+    });
+    return false;
+  });
+
+  const chapters = inRange
+    .map((chapter) => ({ ...chapter }))
+    .sort((a, b) => a.startPage - b.startPage);
+
+  chapters.forEach((chapter, i) => {
+    if (chapter.endPage > lastPage) {
+      issues.push({
+        kind: "out-of-range",
+        chapterIndex: i,
+        detail: `"${chapter.title}" ended past the last page; clamped`,
+        repaired: true
+      });
+      chapter.endPage = lastPage;
+    }
+
+    const next = chapters[i + 1];
+    if (chapter.endPage < chapter.startPage) {
+      issues.push({
+        kind: "reversed",
+        chapterIndex: i,
+        detail: `"${chapter.title}" ended before it started; extended to the next chapter`,
+        repaired: true
+      });
+      // The last chapter keeps its start page only; the tail check below decides the rest
+      chapter.endPage = next ? Math.max(chapter.startPage, next.startPage - 1) : chapter.startPage;
+    }
+
+    // Chapters may share their boundary page, but not run into the next one
+    if (next && chapter.endPage >= next.startPage && next.startPage > chapter.startPage) {
+      issues.push({
+        kind: "overlap",
+        chapterIndex: i,
+        detail: `"${chapter.title}" overlapped "${next.title}"; trimmed`,
+        repaired: true
+      });
+      chapter.endPage = next.startPage - 1;
+    }
+  });
+
+  // Gaps between chapters: short unclassified ones are the previous chapter's
+  // trailing pages; anything else is reported
+  const uncovered: UncoveredSpan[] = [];
+  chapters.forEach((chapter, i) => {
+    const next = chapters[i + 1];
+    if (!next || next.startPage <= chapter.endPage + 1) return;
+
+    const gapStart = chapter.endPage + 1;
+    const gapEnd = next.startPage - 1;
+    const spans = classifyRange(pages, gapStart, gapEnd, "body");
+    const absorbable =
+      absorbGaps &&
+      spans.every((span) => span.kind === "body") &&
+      gapEnd - gapStart + 1 <= MAX_ABSORBED_GAP;
+
+    issues.push({
+      kind: "gap",
+      chapterIndex: i,
+      detail: `Pages ${gapStart + 1}-${gapEnd + 1} between "${chapter.title}" and "${next.title}"`,
+      repaired: absorbable
+    });
+    if (absorbable) {
+      chapter.endPage = gapEnd;
+    } else {
+      uncovered.push(...spans);
+    }
+  });
+
+  // Front and back matter outside the first and last chapter
+  if (chapters.length) {
+    const first = chapters[0];
+    const last = chapters[chapters.length - 1];
+    if (first.startPage > 0) {
+      uncovered.unshift(...classifyRange(pages, 0, first.startPage - 1, "front-matter"));
+    }
+    if (last.endPage < lastPage) {
+      const tail = classifyRange(pages, last.endPage + 1, lastPage, "back-matter");
+      const tailPages = lastPage - last.endPage;
+      const absorbable =
+        absorbGaps &&
+        tail.every((span) => span.kind === "back-matter") &&
+        tailPages <= MAX_ABSORBED_GAP;
+      if (absorbable) {
+        last.endPage = lastPage;
+      } else {
+        uncovered.push(...tail);
+      }
+    }
+  } else if (pages.length) {
+    uncovered.push(...classifyRange(pages, 0, lastPage, "body"));
+  }
+
+  const repairedChapters = chapters.map((chapter) => {
+    const sections = clampSections(chapter);
+    return sections ? { ...chapter, sections } : chapter;
+  });
+
+  const parts = structure.parts.map((part) => ({
+    ...part,
+    startPage: Math.min(Math.max(part.startPage, 0), lastPage),
+    endPage: Math.min(Math.max(part.endPage, part.startPage), lastPage)
+  }));
+
+  return {
+    structure: { ...structure, parts, chapters: repairedChapters } as S,
+    coverage: { issues, uncovered: uncovered.sort((a, b) => a.startPage - b.startPage) }
+  };
+}
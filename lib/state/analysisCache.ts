@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { getModelSpec } from "@/lib/ai/model";
+import { ANALYSIS_PROMPT_VERSION, type BookAnalysis } from "@/lib/pdf/analyzeBook";
+import type { PageAsset } from "@/lib/pdf/assets";
+import type { BookStructure } from "@/lib/pdf/detectStructure";
+import type { OcrPageInfo } from "@/lib/pdf/extractText";
+import type { PageLayout } from "@/lib/pdf/layout";
+
+// Content-addressed cache shared by every user and course: the same PDF is
+// extracted once, and analyzed once per model and prompt version
+
+function getCacheDir() {
+  return path.resolve(process.cwd(), process.env.BOOK_QUEST_CACHE_DIR ?? "state/cache");
+}
+
+function bookCacheDir(contentHash: string) {
+  return path.join(getCacheDir(), "books", contentHash);
+}
+
+export function hashContent(buffer: Buffer) {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+// Analyses depend on the model and the prompts, so both are part of the key
+export function analysisCacheKey() {
+  return `${getModelSpec().replace(/[^a-zA-Z0-9._-]/g, "_")}__v${ANALYSIS_PROMPT_VERSION}`;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+export type CachedExtraction = {
+  pages: string[];
+  pageLabels: string[];
+  ocrPages: OcrPageInfo[];
+  layout: PageLayout[];
+  assets: PageAsset[];
+  totalPages: number;
+  structure?: BookStructure; // formats that carry their own table of contents (EPUB)
+};
+
+export async function saveCachedExtraction(
+  contentHash: string,
+  extraction: CachedExtraction
+): Promise<void> {
+  const dir = bookCacheDir(contentHash);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "extraction.json"), JSON.stringify(extraction), "utf8");
+}
+
+export async function readCachedExtraction(contentHash: string): Promise<CachedExtraction | null> {
+  try {
+    const content = await readFile(path.join(bookCacheDir(contentHash), "extraction.json"), "utf8");
+    const parsed = JSON.parse(content) as CachedExtraction;
+    // Extractions cached before assets were detected are made again
+    return Array.isArray(parsed.pages) && Array.isArray(parsed.assets) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Book analysis — stored without course-specific fields
+// ---------------------------------------------------------------------------
+
+export async function saveCachedAnalysis(
+  contentHash: string,
+  analysis: BookAnalysis
+): Promise<void> {
+  const dir = path.join(bookCacheDir(contentHash), "analysis");
+  await mkdir(dir, { recursive: true });
+  const { documentId: _documentId, ...shared } = analysis;
+  await writeFile(
+    path.join(dir, `${analysisCacheKey()}.json`),
+    JSON.stringify(shared, null, 2),
+    "utf8"
+  );
+}
+
+export async function readCachedAnalysis(contentHash: string): Promise<BookAnalysis | null> {
+  try {
+    const content = await readFile(
+      path.join(bookCacheDir(contentHash), "analysis", `${analysisCacheKey()}.json`),
+      "utf8"
+    );
+    return JSON.parse(content) as BookAnalysis;
+  } catch {
+    return null;
+  }
+}
@@ -1,6 +1,25 @@
-import { mkdir, readFile, writeFile, unlink } from "fs/promises";
+import { mkdir, readFile, readdir, rm, writeFile, unlink } from "fs/promises";
 import path from "path";
-import type { BookAnalysis } from "@/lib/pdf/analyzeBook";
+import type { UnitLesson } from "@/lib/ai/lessonAgent";
+import type { SourceCitation } from "@/lib/course/unitSources";
+import type { BookAnalysis, ChapterAnalysis } from "@/lib/pdf/analyzeBook";
+import type { PageAsset } from "@/lib/pdf/assets";
+import type { ConceptIndex } from "@/lib/pdf/conceptIndex";
+import type { BookStructure } from "@/lib/pdf/detectStructure";
+import type { OcrPageInfo } from "@/lib/pdf/extractText";
+import type { PageLayout } from "@/lib/pdf/layout";
+
+// Ids that become file or folder names: letters, digits, underscores and dashes,
+// so none can reach outside the user's state folder
+const SAFE_ID = /^[\w-]+$/;
+
+export function isCourseId(value: string) {
+  return SAFE_ID.test(value);
+}
+
+export function isDocumentId(value: string) {
+  return SAFE_ID.test(value);
+}
 
 function getRootStateDir() {
   return path.resolve(process.cwd(), process.env.BOOK_QUEST_STATE_DIR ?? "state/users");
@@ -22,6 +41,16 @@ function courseDir(userId: string, courseId: string) {
   return path.join(coursesDir(userId), courseId);
 }
 
+// Each course material keeps its text, layout and analysis in its own folder;
+// courses created before multi-document support keep them in the course folder
+function documentDir(userId: string, courseId: string, documentId?: string) {
+  const dir = courseDir(userId, courseId);
+  if (documentId !== undefined && !isDocumentId(documentId)) {
+    throw new Error("Invalid document id.");
+  }
+  return documentId ? path.join(dir, "documents", documentId) : dir;
+}
+
 // ---------------------------------------------------------------------------
 // Upload directory
 // ---------------------------------------------------------------------------
@@ -60,20 +89,27 @@ export async function savePdfUpload(
 export async function saveExtractedText(
   userId: string,
   courseId: string,
-  pages: string[]
+  pages: string[],
+  extras: { pageLabels?: string[]; ocrPages?: OcrPageInfo[] } = {},
+  documentId?: string
 ): Promise<void> {
-  const dir = courseDir(userId, courseId);
+  const dir = documentDir(userId, courseId, documentId);
   await mkdir(dir, { recursive: true });
-  await writeFile(path.join(dir, "extracted_text.json"), JSON.stringify({ pages }, null, 2), "utf8");
+  await writeFile(
+    path.join(dir, "extracted_text.json"),
+    JSON.stringify({ pages, ...extras }, null, 2),
+    "utf8"
+  );
 }
 
 export async function readExtractedText(
   userId: string,
-  courseId: string
+  courseId: string,
+  documentId?: string
 ): Promise<string[] | null> {
   try {
     const content = await readFile(
-      path.join(courseDir(userId, courseId), "extracted_text.json"),
+      path.join(documentDir(userId, courseId, documentId), "extracted_text.json"),
       "utf8"
     );
     const parsed = JSON.parse(content) as { pages?: string[] };
@@ -83,6 +119,99 @@ export async function readExtractedText(
   }
 }
 
+export async function readExtractedPageLabels(
+  userId: string,
+  courseId: string,
+  documentId?: string
+): Promise<string[] | null> {
+  try {
+    const content = await readFile(
+      path.join(documentDir(userId, courseId, documentId), "extracted_text.json"),
+      "utf8"
+    );
+    const parsed = JSON.parse(content) as { pageLabels?: string[] };
+    return Array.isArray(parsed.pageLabels) ? parsed.pageLabels : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function savePageLayouts(
+  userId: string,
+  courseId: string,
+  layouts: PageLayout[],
+  documentId?: string
+): Promise<void> {
+  const dir = documentDir(userId, courseId, documentId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "page_layout.json"), JSON.stringify(layouts), "utf8");
+}
+
+export async function readPageLayouts(
+  userId: string,
+  courseId: string,
+  documentId?: string
+): Promise<PageLayout[] | null> {
+  try {
+    const content = await readFile(
+      path.join(documentDir(userId, courseId, documentId), "page_layout.json"),
+      "utf8"
+    );
+    const parsed = JSON.parse(content) as PageLayout[];
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Page assets — figures, tables and equations; figure images are PNG files in
+// the document's assets folder
+// ---------------------------------------------------------------------------
+
+export async function saveDocumentAssets(
+  userId: string,
+  courseId: string,
+  assets: PageAsset[],
+  documentId?: string
+): Promise<void> {
+  const dir = documentDir(userId, courseId, documentId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "assets.json"), JSON.stringify(assets, null, 2), "utf8");
+}
+
+export async function readDocumentAssets(
+  userId: string,
+  courseId: string,
+  documentId?: string
+): Promise<PageAsset[] | null> {
+  try {
+    const content = await readFile(
+      path.join(documentDir(userId, courseId, documentId), "assets.json"),
+      "utf8"
+    );
+    const parsed = JSON.parse(content) as PageAsset[];
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Returns the image's path relative to the document folder, as FigureAsset.imagePath
+export async function saveAssetImage(
+  userId: string,
+  courseId: string,
+  assetId: string,
+  png: Buffer,
+  documentId?: string
+): Promise<string> {
+  const dir = path.join(documentDir(userId, courseId, documentId), "assets");
+  await mkdir(dir, { recursive: true });
+  const fileName = `${assetId.replace(/[^a-zA-Z0-9._-]/g, "_")}.png`;
+  await writeFile(path.join(dir, fileName), png);
+  return `assets/${fileName}`;
+}
+
 // ---------------------------------------------------------------------------
 // Book analysis
 // ---------------------------------------------------------------------------
@@ -92,18 +221,19 @@ export async function saveBookAnalysis(
   courseId: string,
   analysis: BookAnalysis
 ): Promise<void> {
-  const dir = courseDir(userId, courseId);
+  const dir = documentDir(userId, courseId, analysis.documentId);
   await mkdir(dir, { recursive: true });
   await writeFile(path.join(dir, "book_analysis.json"), JSON.stringify(analysis, null, 2), "utf8");
 }
 
 export async function readBookAnalysis(
   userId: string,
-  courseId: string
+  courseId: string,
+  documentId?: string
 ): Promise<BookAnalysis | null> {
   try {
     const content = await readFile(
-      path.join(courseDir(userId, courseId), "book_analysis.json"),
+      path.join(documentDir(userId, courseId, documentId), "book_analysis.json"),
       "utf8"
     );
     return JSON.parse(content) as BookAnalysis;
@@ -112,10 +242,231 @@ export async function readBookAnalysis(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Concept index — built from the book analysis and stored beside it
+// ---------------------------------------------------------------------------
+
+export async function saveConceptIndex(
+  userId: string,
+  courseId: string,
+  index: ConceptIndex
+): Promise<void> {
+  const dir = documentDir(userId, courseId, index.documentId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "concept_index.json"), JSON.stringify(index, null, 2), "utf8");
+}
+
+export async function readConceptIndex(
+  userId: string,
+  courseId: string,
+  documentId?: string
+): Promise<ConceptIndex | null> {
+  try {
+    const content = await readFile(
+      path.join(documentDir(userId, courseId, documentId), "concept_index.json"),
+      "utf8"
+    );
+    return JSON.parse(content) as ConceptIndex;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Course materials — one entry per uploaded file, mirroring course_materials
+// ---------------------------------------------------------------------------
+
+export type CourseMaterialType =
+  | "pdf"
+  | "epub"
+  | "markdown"
+  | "html"
+  | "text"
+  | "note"
+  | "external_link";
+
+export type CourseMaterial = {
+  id: string; // also the documentId of the material's book analysis
+  courseId: string;
+  materialType: CourseMaterialType;
+  originalFilename?: string;
+  storagePath?: string;
+  metadata: {
+    title?: string;
+    contentHash?: string; // SHA-256 of the file, keys the shared analysis cache
+    sizeBytes?: number;
+    totalPages?: number;
+    ocrPageCount?: number;
+  };
+  createdAt: string;
+};
+
+// Materials that go through ingestion and have a book analysis
+export function isBookMaterial(type: CourseMaterialType) {
+  return type !== "note" && type !== "external_link";
+}
+
+export async function saveCourseMaterials(
+  userId: string,
+  courseId: string,
+  materials: CourseMaterial[]
+): Promise<void> {
+  const dir = courseDir(userId, courseId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "materials.json"), JSON.stringify(materials, null, 2), "utf8");
+}
+
+export async function readCourseMaterials(
+  userId: string,
+  courseId: string
+): Promise<CourseMaterial[]> {
+  try {
+    const content = await readFile(
+      path.join(courseDir(userId, courseId), "materials.json"),
+      "utf8"
+    );
+    const parsed = JSON.parse(content) as CourseMaterial[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Book analyses of every document in the course, in material order
+export async function readCourseDocuments(
+  userId: string,
+  courseId: string
+): Promise<BookAnalysis[]> {
+  const materials = await readCourseMaterials(userId, courseId);
+  if (!materials.length) {
+    const legacy = await readBookAnalysis(userId, courseId);
+    return legacy ? [legacy] : [];
+  }
+
+  const analyses = await Promise.all(
+    materials
+      .filter((material) => isBookMaterial(material.materialType))
+      .map((material) => readBookAnalysis(userId, courseId, material.id))
+  );
+  return analyses.filter((analysis): analysis is BookAnalysis => analysis !== null);
+}
+
+// ---------------------------------------------------------------------------
+// Ingestion jobs — extraction and analysis of a new course's materials run in
+// the background; the job file records enough to resume after a restart
+// ---------------------------------------------------------------------------
+
+export type IngestionStatus =
+  | "queued"
+  | "extracting"
+  | "detecting"
+  | "analyzing"
+  | "done"
+  | "failed";
+
+export type IngestionDocument = {
+  documentId: string;
+  originalFilename: string;
+  storagePath: string;
+  sizeBytes: number;
+  status: IngestionStatus;
+  contentHash?: string;
+  reusedAnalysis?: boolean; // analysis came from the shared cache
+  totalPages?: number;
+  ocrPageCount?: number;
+  chapterCount?: number; // known once structure detection has run
+  // Resume state, dropped once the document is done
+  detected?: BookStructure;
+  chapters: ChapterAnalysis[]; // analyzed so far, in completion order
+};
+
+export type IngestionJob = {
+  jobId: string;
+  userId: string;
+  courseId: string;
+  status: IngestionStatus;
+  currentDocument: number; // index into documents
+  documents: IngestionDocument[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// What clients see of a job: progress without the resume state
+export type IngestionProgress = Omit<IngestionJob, "documents"> & {
+  documents: Array<
+    Omit<IngestionDocument, "detected" | "chapters" | "storagePath"> & { chaptersDone: number }
+  >;
+};
+
+const INGESTION_JOB_FILE = "ingestion_job.json";
+
+export function isIngestionFinished(job: Pick<IngestionJob, "status">) {
+  return job.status === "done" || job.status === "failed";
+}
+
+export function summarizeIngestionJob(job: IngestionJob): IngestionProgress {
+  return {
+    ...job,
+    documents: job.documents.map(({ detected, chapters, storagePath, ...doc }) => ({
+      ...doc,
+      chaptersDone: doc.status === "done" ? (doc.chapterCount ?? 0) : chapters.length
+    }))
+  };
+}
+
+export async function saveIngestionJob(job: IngestionJob): Promise<void> {
+  const dir = courseDir(job.userId, job.courseId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, INGESTION_JOB_FILE), JSON.stringify(job, null, 2), "utf8");
+}
+
+export async function readCourseIngestionJob(
+  userId: string,
+  courseId: string
+): Promise<IngestionJob | null> {
+  try {
+    const content = await readFile(
+      path.join(courseDir(userId, courseId), INGESTION_JOB_FILE),
+      "utf8"
+    );
+    return JSON.parse(content) as IngestionJob;
+  } catch {
+    return null;
+  }
+}
+
+// Jobs are stored with their course, so finding one by id scans the user's courses
+export async function readIngestionJob(
+  userId: string,
+  jobId: string
+): Promise<IngestionJob | null> {
+  try {
+    const courseIds = await readdir(coursesDir(userId));
+    for (const courseId of courseIds) {
+      const job = await readCourseIngestionJob(userId, courseId);
+      if (job?.jobId === jobId) return job;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Course plan
 // ---------------------------------------------------------------------------
 
+export type SourceChapterRef = {
+  documentId?: string; // course material the chapter is in; unset in single-document plans
+  chapterNumber: number;
+  sectionNumber?: number; // narrows the reference to a single section
+  startPage?: number; // 0-based, resolved from the book analysis
+  endPage?: number; // 0-based, inclusive
+  startPageLabel?: string; // printed page numbers for startPage/endPage
+  endPageLabel?: string;
+};
+
 export type CoursePlan = {
   title: string;
   description: string;
@@ -125,11 +476,28 @@ export type CoursePlan = {
     title: string;
     summary: string;
     objectives: string[];
-    sourceChapters: number[];
+    sourceChapters: SourceChapterRef[];
     estimatedMinutes: number;
+    prerequisiteUnitNumber?: number; // nearest earlier unit it builds on (prerequisite_unit_id)
   }>;
 };
 
+// Plans saved before section references existed store bare chapter numbers
+export function normalizeCoursePlan(plan: CoursePlan): CoursePlan {
+  return {
+    ...plan,
+    units: (plan.units ?? []).map((unit) => ({
+      ...unit,
+      sourceChapters: (Array.isArray(unit.sourceChapters) ? unit.sourceChapters : [])
+        .map((ref: unknown) => (typeof ref === "number" ? { chapterNumber: ref } : ref))
+        .filter(
+          (ref): ref is SourceChapterRef =>
+            Boolean(ref) && typeof (ref as SourceChapterRef).chapterNumber === "number"
+        )
+    }))
+  };
+}
+
 export async function saveCoursePlan(
   userId: string,
   courseId: string,
@@ -155,20 +523,489 @@ export async function readCoursePlan(
       path.join(courseDir(userId, courseId), "course_plan.json"),
       "utf8"
     );
-    return JSON.parse(content) as CoursePlan;
+    return normalizeCoursePlan(JSON.parse(content) as CoursePlan);
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Unit lessons — generated once per plan unit and kept until regenerated
+// ---------------------------------------------------------------------------
+
+function lessonPath(userId: string, courseId: string, unitNumber: number) {
+  return path.join(courseDir(userId, courseId), "lessons", `unit-${unitNumber}.json`);
+}
+
+export async function saveUnitLesson(
+  userId: string,
+  courseId: string,
+  lesson: UnitLesson
+): Promise<void> {
+  const filePath = lessonPath(userId, courseId, lesson.unitNumber);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(lesson, null, 2), "utf8");
+}
+
+export async function readUnitLesson(
+  userId: string,
+  courseId: string,
+  unitNumber: number
+): Promise<UnitLesson | null> {
+  try {
+    const content = await readFile(lessonPath(userId, courseId, unitNumber), "utf8");
+    return JSON.parse(content) as UnitLesson;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Assessments — mirroring assessments and assessment_questions; one file per
+// assessment, with its questions and answer keys
+// ---------------------------------------------------------------------------
+
+export const ASSESSMENT_KINDS = ["homework", "quiz", "midterm", "final"] as const;
+export type AssessmentKind = (typeof ASSESSMENT_KINDS)[number];
+export type QuestionType = "mcq" | "free_form";
+
+export type AnswerKey = {
+  correctChoice?: number; // index into choices, for mcq
+  modelAnswer: string; // the expected answer; for mcq, why the choice is right
+  rubric: string[]; // points a free-form answer must make, for partial credit
+};
+
+export type AssessmentQuestion = {
+  id: string; // e.g. "q3", unique within the assessment
+  questionOrder: number;
+  questionType: QuestionType;
+  prompt: string;
+  choices?: string[]; // mcq only
+  answerKey: AnswerKey;
+  conceptTags: string[];
+  points: number;
+  citations: SourceCitation[];
+};
+
+export type Assessment = {
+  id: string; // e.g. "unit-3-quiz-v2", "midterm-v1"; each generation gets its own
+  courseId: string;
+  unitNumber?: number; // unit the assessment belongs to (unit_id); unset for cumulative ones
+  unitNumbers: number[]; // units whose material it covers
+  kind: AssessmentKind;
+  title: string;
+  totalPoints: number;
+  unlockThreshold: number; // share of totalPoints that passes, 0-1
+  questions: AssessmentQuestion[];
+  version: number; // 1 for the first generation of this kind (and unit)
+  supersededBy?: string; // the version that replaced it; only a pass on it still counts
+  createdAt: string;
+};
+
+// What the learner sees before submitting: no answer keys
+export type PublicAssessment = Omit<Assessment, "questions"> & {
+  questions: Array<Omit<AssessmentQuestion, "answerKey">>;
+};
+
+export function isAssessmentKind(value: unknown): value is AssessmentKind {
+  return ASSESSMENT_KINDS.includes(value as AssessmentKind);
+}
+
+export function publicAssessment(assessment: Assessment): PublicAssessment {
+  return {
+    ...assessment,
+    questions: assessment.questions.map(({ answerKey, ...question }) => question)
+  };
+}
+
+function assessmentsDir(userId: string, courseId: string) {
+  return path.join(courseDir(userId, courseId), "assessments");
+}
+
+export async function saveAssessment(userId: string, assessment: Assessment): Promise<void> {
+  const dir = assessmentsDir(userId, assessment.courseId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(
+    path.join(dir, `${assessment.id}.json`),
+    JSON.stringify(assessment, null, 2),
+    "utf8"
+  );
+}
+
+export async function readAssessment(
+  userId: string,
+  courseId: string,
+  assessmentId: string
+): Promise<Assessment | null> {
+  if (!SAFE_ID.test(assessmentId)) return null;
+  try {
+    const content = await readFile(
+      path.join(assessmentsDir(userId, courseId), `${assessmentId}.json`),
+      "utf8"
+    );
+    const parsed = JSON.parse(content) as Assessment;
+    return { ...parsed, version: parsed.version ?? 1 };
+  } catch {
+    return null;
+  }
+}
+
+// In course order: unit assessments by unit, then the midterm and final. Versions a
+// regeneration replaced are left out unless asked for
+export async function listAssessments(
+  userId: string,
+  courseId: string,
+  options: { includeSuperseded?: boolean } = {}
+): Promise<Assessment[]> {
+  let files: string[];
+  try {
+    files = (await readdir(assessmentsDir(userId, courseId))).filter((f) => f.endsWith(".json"));
+  } catch {
+    return [];
+  }
+  const assessments = await Promise.all(
+    files.map((file) => readAssessment(userId, courseId, file.replace(/\.json$/, "")))
+  );
+  const position = (a: Assessment) =>
+    a.unitNumber ?? Math.max(0, ...a.unitNumbers) + (a.kind === "final" ? 0.6 : 0.5);
+  return assessments
+    .filter((assessment): assessment is Assessment => assessment !== null)
+    .filter((assessment) => options.includeSuperseded || !assessment.supersededBy)
+    .sort(
+      (a, b) =>
+        position(a) - position(b) ||
+        ASSESSMENT_KINDS.indexOf(a.kind) - ASSESSMENT_KINDS.indexOf(b.kind) ||
+        a.version - b.version
+    );
+}
+
+export async function deleteAssessment(
+  userId: string,
+  courseId: string,
+  assessmentId: string
+): Promise<boolean> {
+  if (!SAFE_ID.test(assessmentId)) return false;
+  try {
+    await unlink(path.join(assessmentsDir(userId, courseId), `${assessmentId}.json`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Submissions — mirroring assessment_submissions and submission_answers; one
+// file per graded attempt
+// ---------------------------------------------------------------------------
+
+export const SUBMISSION_STATUSES = ["started", "submitted", "graded"] as const;
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+export type AnswerResponse = {
+  choice?: number; // index into choices, for mcq
+  text?: string; // free-form answer
+};
+
+// answer_key: scored against the key (MCQs, blank answers); model: rubric graded by the
+// model; keywords: rubric matched by keyword, when there is no API key or the model failed
+export type GradingMethod = "answer_key" | "model" | "keywords";
+
+export type SubmissionAnswer = {
+  questionId: string;
+  response: AnswerResponse;
+  gradedBy: GradingMethod;
+  isCorrect: boolean; // full credit
+  pointsAwarded: number; // partial credit for free-form answers
+  feedback: string;
+  citations: SourceCitation[]; // pages the feedback points back to
+};
+
+export type AssessmentSubmission = {
+  id: string;
+  assessmentId: string;
+  courseId: string;
+  status: SubmissionStatus;
+  score: number; // share of totalPoints earned, 0-1, compared with unlockThreshold
+  pointsAwarded: number;
+  totalPoints: number;
+  answers: SubmissionAnswer[];
+  submittedAt: string;
+  gradedAt?: string;
+  createdAt: string;
+};
+
+function submissionsDir(userId: string, courseId: string) {
+  return path.join(courseDir(userId, courseId), "submissions");
+}
+
+export async function saveSubmission(
+  userId: string,
+  submission: AssessmentSubmission
+): Promise<void> {
+  const dir = submissionsDir(userId, submission.courseId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(
+    path.join(dir, `${submission.id}.json`),
+    JSON.stringify(submission, null, 2),
+    "utf8"
+  );
+}
+
+export async function readSubmission(
+  userId: string,
+  courseId: string,
+  submissionId: string
+): Promise<AssessmentSubmission | null> {
+  if (!SAFE_ID.test(submissionId)) return null;
+  try {
+    const content = await readFile(
+      path.join(submissionsDir(userId, courseId), `${submissionId}.json`),
+      "utf8"
+    );
+    return JSON.parse(content) as AssessmentSubmission;
   } catch {
     return null;
   }
 }
 
+// Oldest first; pass assessmentId for one assessment's attempts
+export async function listSubmissions(
+  userId: string,
+  courseId: string,
+  assessmentId?: string
+): Promise<AssessmentSubmission[]> {
+  let files: string[];
+  try {
+    files = (await readdir(submissionsDir(userId, courseId))).filter((f) => f.endsWith(".json"));
+  } catch {
+    return [];
+  }
+  const submissions = await Promise.all(
+    files.map((file) => readSubmission(userId, courseId, file.replace(/\.json$/, "")))
+  );
+  return submissions
+    .filter((submission): submission is AssessmentSubmission => submission !== null)
+    .filter((submission) => !assessmentId || submission.assessmentId === assessmentId)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+// ---------------------------------------------------------------------------
+// Unlocks — mirroring course_unlocks; the units the learner may study, with
+// when and why each was opened
+// ---------------------------------------------------------------------------
+
+export const UNLOCK_REASONS = ["course_start", "completed_prerequisite", "ungated"] as const;
+export type UnlockReason = (typeof UNLOCK_REASONS)[number];
+
+export type UnitUnlock = {
+  unitNumber: number;
+  unlockedAt: string;
+  reason: UnlockReason;
+  detail?: string; // e.g. which scores opened it
+};
+
+const UNLOCKS_FILE = "unlocks.json";
+
+export async function saveUnitUnlocks(
+  userId: string,
+  courseId: string,
+  unlocks: UnitUnlock[]
+): Promise<void> {
+  const dir = courseDir(userId, courseId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, UNLOCKS_FILE), JSON.stringify(unlocks, null, 2), "utf8");
+}
+
+export async function readUnitUnlocks(userId: string, courseId: string): Promise<UnitUnlock[]> {
+  try {
+    const content = await readFile(path.join(courseDir(userId, courseId), UNLOCKS_FILE), "utf8");
+    return JSON.parse(content) as UnitUnlock[];
+  } catch {
+    return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Course library — course.json holds what the courses table keeps beside the
+// plan: status, unlock mode and when the course was last studied
+// ---------------------------------------------------------------------------
+
+export const COURSE_STATUSES = ["draft", "active", "completed", "archived"] as const;
+export type CourseStatus = (typeof COURSE_STATUSES)[number];
+
+// Gated courses unlock units as earlier ones are passed; ungated ones start fully open
+export const UNLOCK_MODES = ["gated", "ungated"] as const;
+export type UnlockMode = (typeof UNLOCK_MODES)[number];
+
+export type CourseRecord = {
+  courseId: string;
+  status: CourseStatus;
+  unlockMode: UnlockMode;
+  completedUnits: number[]; // unitNumbers the learner has finished
+  createdAt: string;
+  updatedAt: string;
+  lastStudiedAt?: string;
+};
+
+export type CourseSummary = CourseRecord & {
+  title: string;
+  description?: string;
+  books: string[]; // titles of the course materials
+  unitCount: number;
+  progress: number; // 0-1, share of plan units completed
+};
+
+const COURSE_RECORD_FILE = "course.json";
+
+export function isCourseStatus(value: unknown): value is CourseStatus {
+  return COURSE_STATUSES.includes(value as CourseStatus);
+}
+
+export function isUnlockMode(value: unknown): value is UnlockMode {
+  return UNLOCK_MODES.includes(value as UnlockMode);
+}
+
+export async function saveCourseRecord(userId: string, record: CourseRecord): Promise<void> {
+  const dir = courseDir(userId, record.courseId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, COURSE_RECORD_FILE), JSON.stringify(record, null, 2), "utf8");
+}
+
+export async function readCourseRecord(
+  userId: string,
+  courseId: string
+): Promise<CourseRecord | null> {
+  try {
+    const content = await readFile(
+      path.join(courseDir(userId, courseId), COURSE_RECORD_FILE),
+      "utf8"
+    );
+    const parsed = JSON.parse(content) as CourseRecord;
+    return {
+      ...parsed,
+      unlockMode: parsed.unlockMode ?? "gated",
+      completedUnits: parsed.completedUnits ?? []
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Courses finalized before course.json existed are active since their plan was saved;
+// folders without a plan are still being built
+async function courseRecordOrDefault(
+  userId: string,
+  courseId: string,
+  plan: (CoursePlan & { savedAt?: string }) | null
+): Promise<CourseRecord> {
+  const record = await readCourseRecord(userId, courseId);
+  if (record) return record;
+  const materials = await readCourseMaterials(userId, courseId);
+  const createdAt = materials[0]?.createdAt ?? plan?.savedAt ?? new Date(0).toISOString();
+  return {
+    courseId,
+    status: plan ? "active" : "draft",
+    unlockMode: "gated",
+    completedUnits: [],
+    createdAt,
+    updatedAt: plan?.savedAt ?? createdAt
+  };
+}
+
+export async function readCourseSummary(
+  userId: string,
+  courseId: string
+): Promise<CourseSummary | null> {
+  const [plan, materials, saved] = await Promise.all([
+    readCoursePlan(userId, courseId),
+    readCourseMaterials(userId, courseId),
+    readCourseRecord(userId, courseId)
+  ]);
+  if (!plan && !materials.length && !saved) return null;
+  const record = saved ?? (await courseRecordOrDefault(userId, courseId, plan));
+
+  const books = materials
+    .filter((material) => isBookMaterial(material.materialType))
+    .map((material) => material.metadata.title ?? material.originalFilename ?? material.id);
+  const unitNumbers = new Set(plan?.units.map((unit) => unit.unitNumber) ?? []);
+  const completed = record.completedUnits.filter((unitNumber) => unitNumbers.has(unitNumber));
+
+  return {
+    ...record,
+    title: plan?.title || books[0] || "Untitled course",
+    ...(plan?.description ? { description: plan.description } : {}),
+    books,
+    unitCount: unitNumbers.size,
+    progress: unitNumbers.size ? completed.length / unitNumbers.size : 0
+  };
+}
+
+// Most recently studied (or changed) first
+export async function listCourses(userId: string): Promise<CourseSummary[]> {
+  let courseIds: string[];
+  try {
+    courseIds = await readdir(coursesDir(userId));
+  } catch {
+    return [];
+  }
+
+  const summaries = await Promise.all(
+    courseIds.map((courseId) => readCourseSummary(userId, courseId))
+  );
+  const recency = (course: CourseSummary) => course.lastStudiedAt ?? course.updatedAt;
+  return summaries
+    .filter((summary): summary is CourseSummary => summary !== null)
+    .sort((a, b) => recency(b).localeCompare(recency(a)));
+}
+
+export async function updateCourseRecord(
+  userId: string,
+  courseId: string,
+  update: Partial<
+    Pick<CourseRecord, "status" | "unlockMode" | "completedUnits" | "lastStudiedAt">
+  >
+): Promise<CourseRecord> {
+  const current = await courseRecordOrDefault(
+    userId,
+    courseId,
+    await readCoursePlan(userId, courseId)
+  );
+  const record: CourseRecord = { ...current, ...update, updatedAt: new Date().toISOString() };
+  await saveCourseRecord(userId, record);
+  return record;
+}
+
+// Removes the course folder and the uploads of its materials
+export async function deleteCourse(userId: string, courseId: string): Promise<boolean> {
+  const root = coursesDir(userId);
+  const dir = courseDir(userId, courseId);
+  if (path.dirname(dir) !== root) return false;
+
+  const materials = await readCourseMaterials(userId, courseId);
+  try {
+    await rm(dir, { recursive: true });
+  } catch {
+    return false;
+  }
+  await Promise.all(
+    materials.map(async (material) => {
+      const storagePath = material.storagePath;
+      if (!storagePath || path.dirname(storagePath) !== uploadsDir(userId)) return;
+      await rm(storagePath, { force: true });
+    })
+  );
+  return true;
+}
+
 // ---------------------------------------------------------------------------
 // Course draft (auto-save in progress)
 // ---------------------------------------------------------------------------
 
 export type CourseDraft = {
   messages: Array<{ role: "assistant" | "user"; content: string }>;
-  bookAnalysis: BookAnalysis | null;
+  documents: BookAnalysis[];
   courseId: string | null;
+  ingestionJobId: string | null; // set while the course's materials are still being read
   coursePlan: CoursePlan | null;
   editablePlan: CoursePlan | null;
   knownGaps: string[];
@@ -196,7 +1033,21 @@ export async function readCourseDraft(
 ): Promise<CourseDraft | null> {
   try {
     const content = await readFile(draftPath(userId), "utf8");
-    return JSON.parse(content) as CourseDraft;
+    // Drafts saved before multi-document courses hold a single bookAnalysis
+    const { bookAnalysis, ...draft } = JSON.parse(content) as CourseDraft & {
+      bookAnalysis?: BookAnalysis | null;
+    };
+    return {
+      ...draft,
+      ingestionJobId: draft.ingestionJobId ?? null,
+      documents: Array.isArray(draft.documents)
+        ? draft.documents
+        : bookAnalysis
+          ? [bookAnalysis]
+          : [],
+      coursePlan: draft.coursePlan ? normalizeCoursePlan(draft.coursePlan) : null,
+      editablePlan: draft.editablePlan ? normalizeCoursePlan(draft.editablePlan) : null
+    };
   } catch {
     return null;
   }
@@ -0,0 +1,230 @@
+import { htmlToText, stripTags, type HtmlHeading } from "@/lib/epub/html";
+import {
+  structureFromOutline,
+  type BookStructure,
+  type ResolvedOutlineNode
+} from "@/lib/pdf/detectStructure";
+import { pageAt, pageTexts, paginate } from "./pages";
+
+export type TextSourceFormat = "markdown" | "html" | "text";
+
+export type TextDocumentExtraction = {
+  totalPages: number;
+  pages: string[]; // virtual pages, see PAGE_CHARS
+  pageLabels: string[];
+  structure: BookStructure; // from the source's headings, no detection needed
+};
+
+type Heading = HtmlHeading; // levels 1-3; deeper headings do not shape the structure
+
+type ParsedSource = {
+  title?: string;
+  text: string;
+  headings: Heading[];
+};
+
+// Sources without headings are split into chapters of this many pages
+const PAGES_PER_CHUNK = 10;
+
+// ---------------------------------------------------------------------------
+// Markdown — ATX (#) and setext (underlined) headings; inline markup is
+// dropped, code blocks are kept as they are
+// ---------------------------------------------------------------------------
+
+function markdownInline(line: string) {
+  return line
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt: string) => (alt ? `[Image: ${alt}]` : ""))
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/(\*\*|__)([^\s*_]|[^\s*_][^*_]*?[^\s*_])\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^\s*_]|[^\s*_][^*_]*?[^\s*_])[*_](?=[^\w*]|$)/g, "$1$2");
+}
+
+function parseMarkdown(source: string): ParsedSource {
+  let body = source;
+  let title: string | undefined;
+
+  // YAML front matter may carry the title
+  const frontMatter = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (frontMatter) {
+    title = frontMatter[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const lines = body.split(/\r?\n/);
+  const headings: Heading[] = [];
+  const out: string[] = [];
+  let length = 0;
+  let fence: string | null = null;
+
+  // Runs of blank lines collapse here, not afterwards, so heading offsets stay valid
+  const emit = (line: string) => {
+    if (!line && (!out.length || out[out.length - 1] === "")) return;
+    out.push(line);
+    length += line.length + 1;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+      continue;
+    }
+    if (fence !== null) {
+      emit(line);
+      continue;
+    }
+
+    const atx = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const underline = lines[i + 1]?.match(/^(=+|-+)\s*$/);
+    const setext = !atx && underline && line.trim() && !/^\s*([-*+]|\d+\.)\s/.test(line);
+    if (atx || setext) {
+      const level = atx ? atx[1].length : underline?.[1][0] === "=" ? 1 : 2;
+      const text = markdownInline(atx ? atx[2] : line.trim()).trim();
+      if (level <= 3 && text) headings.push({ level, title: text, offset: length });
+      emit("");
+      emit(text);
+      emit("");
+      if (setext) i++;
+      continue;
+    }
+
+    emit(markdownInline(line.replace(/^\s{0,3}>\s?/, "")).trimEnd());
+  }
+
+  return { ...(title ? { title } : {}), text: out.join("\n").trimEnd(), headings };
+}
+
+// ---------------------------------------------------------------------------
+// Plain text — headings are short lines standing alone that look like one:
+// "Chapter 3", "Lecture 2: ...", "1.2 Title", ALL CAPS, or underlined
+// ---------------------------------------------------------------------------
+
+const TEXT_CHAPTER = /^(chapter|lecture|part|session|week|module|lesson|unit)\s+[\w.]+/i;
+const TEXT_NUMBERED = /^(\d+(\.\d+)*)\.?\s+\S/;
+const TEXT_CAPS = /^[A-Z][A-Z0-9 ,'&()-]{3,}$/;
+const MAX_TEXT_HEADING_CHARS = 80;
+
+function textHeadingLevel(line: string, next: string | undefined): number {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_TEXT_HEADING_CHARS) return 0;
+  const underline = next?.match(/^\s*(=+|-+)\s*$/);
+  if (underline && underline[1].length >= trimmed.length * 0.5) {
+    return underline[1][0] === "=" ? 1 : 2;
+  }
+  // Speaker labels ("PROFESSOR:") and sentences are not headings
+  if (/[:,;]$/.test(trimmed) || (/[.!?]$/.test(trimmed) && !TEXT_CHAPTER.test(trimmed))) return 0;
+  if (TEXT_CHAPTER.test(trimmed)) return 1;
+  const numbered = trimmed.match(TEXT_NUMBERED);
+  if (numbered) return Math.min(3, numbered[1].split(".").length);
+  return TEXT_CAPS.test(trimmed) ? 1 : 0;
+}
+
+function parsePlainText(source: string): ParsedSource {
+  const lines = source.replace(/^(\s*\n)+/, "").split(/\r?\n/);
+  const headings: Heading[] = [];
+  const out: string[] = [];
+  let length = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    const standsAlone =
+      !lines[i - 1]?.trim() && (!lines[i + 1]?.trim() || /^\s*(=+|-+)\s*$/.test(lines[i + 1]));
+    const level = standsAlone ? textHeadingLevel(line, lines[i + 1]) : 0;
+    if (level) {
+      headings.push({ level, title: line.trim(), offset: length });
+      if (/^\s*(=+|-+)\s*$/.test(lines[i + 1] ?? "")) i++;
+    }
+    out.push(line);
+    length += line.length + 1;
+  }
+
+  return { text: out.join("\n").trimEnd(), headings };
+}
+
+// ---------------------------------------------------------------------------
+// Structure — chapters are the shallowest heading level that repeats; a lone
+// heading above them is the document's title
+// ---------------------------------------------------------------------------
+
+function headingLevels(headings: Heading[]) {
+  const counts = new Map<number, number>();
+  headings.forEach((h) => counts.set(h.level, (counts.get(h.level) ?? 0) + 1));
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+  const chapterLevel = levels.find((level) => (counts.get(level) ?? 0) >= 2) ?? levels[0];
+  return { chapterLevel, sectionLevel: levels.find((level) => level > chapterLevel) };
+}
+
+function headingOutline(headings: Heading[], starts: number[]): ResolvedOutlineNode[] {
+  const { chapterLevel, sectionLevel } = headingLevels(headings);
+  const nodes: ResolvedOutlineNode[] = [];
+
+  for (const heading of headings) {
+    const node = { title: heading.title, startPage: pageAt(starts, heading.offset), children: [] };
+    const chapter = nodes[nodes.length - 1];
+    if (heading.level === chapterLevel || (heading.level === sectionLevel && !chapter)) {
+      nodes.push(node);
+    } else if (heading.level === sectionLevel && chapter) {
+      chapter.children.push(node);
+    }
+  }
+  return nodes;
+}
+
+function chunkOutline(pageCount: number): ResolvedOutlineNode[] {
+  return Array.from({ length: Math.ceil(pageCount / PAGES_PER_CHUNK) }, (_, i) => ({
+    title: `Section ${i + 1}`,
+    startPage: i * PAGES_PER_CHUNK,
+    children: []
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+export async function extractTextDocument(
+  buffer: Buffer,
+  format: TextSourceFormat,
+  filename: string
+): Promise<TextDocumentExtraction> {
+  const source = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const parsed =
+    format === "markdown"
+      ? parseMarkdown(source)
+      : format === "html"
+        ? htmlToText(source)
+        : parsePlainText(source);
+  if (!parsed.text.trim()) throw new Error(`No readable text found in "${filename}".`);
+
+  const headings = parsed.headings.filter((h) => h.level <= 3);
+  const { chapterLevel } = headingLevels(headings);
+  const starts = paginate(
+    parsed.text,
+    headings.filter((h) => h.level === chapterLevel).map((h) => h.offset)
+  );
+  const pages = pageTexts(parsed.text, starts);
+
+  // The lone heading above the chapters, if any, names the document
+  const titleHeading = headings.find((h) => h.level < chapterLevel);
+  const title =
+    parsed.title?.trim() ||
+    titleHeading?.title ||
+    stripTags(filename.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ")) ||
+    "Untitled Document";
+
+  const outline = headings.length ? headingOutline(headings, starts) : [];
+  return {
+    totalPages: pages.length,
+    pages,
+    pageLabels: pages.map((_, i) => String(i + 1)),
+    structure: structureFromOutline(
+      outline.length ? outline : chunkOutline(pages.length),
+      pages.length,
+      { title },
+      outline.length ? "source-headings" : "fixed-chunks"
+    )
+  };
+}
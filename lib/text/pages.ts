@@ -0,0 +1,40 @@
+// Sources without printed pages (EPUB, Markdown, HTML, plain text) are cut
+// into virtual pages of about this many characters at line breaks, close to
+// a printed page, so chunked analysis, reading time and page citations work
+// as they do for PDFs
+export const PAGE_CHARS = 3000;
+
+// Offsets in text where each page starts. A page also starts at the line
+// holding each of the break offsets, so chapters never share a page.
+export function paginate(text: string, breaks: number[] = []): number[] {
+  const starts = [0];
+  let pageStart = 0;
+
+  for (const match of text.matchAll(/[^\n]+(\n\n|\n|$)/g)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const forced = breaks.some((offset) => offset >= start && offset < end);
+    // A page holding little more than a heading stays open; long lines are cut below
+    const full = end - pageStart > PAGE_CHARS && start - pageStart > PAGE_CHARS / 4;
+    if (start > pageStart && (forced || full)) {
+      pageStart = start;
+      starts.push(pageStart);
+    }
+    // A line longer than a page is cut at the last space before the limit
+    while (end - pageStart > PAGE_CHARS * 1.5) {
+      const cut = text.lastIndexOf(" ", pageStart + PAGE_CHARS);
+      pageStart = cut > pageStart ? cut + 1 : pageStart + PAGE_CHARS;
+      starts.push(pageStart);
+    }
+  }
+  return starts;
+}
+
+export function pageTexts(text: string, starts: number[]) {
+  return starts.map((start, i) => text.slice(start, starts[i + 1]).trim());
+}
+
+// Index of the page holding the offset
+export function pageAt(starts: number[], offset: number) {
+  return Math.max(0, starts.filter((start) => start <= offset).length - 1);
+}
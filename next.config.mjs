@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  experimental: {
+    // OCR loads its WASM core, worker script and native canvas from disk at runtime
+    serverComponentsExternalPackages: ["tesseract.js", "@napi-rs/canvas"]
+  }
 };
 
 export default nextConfig;
@@ -0,0 +1,7 @@
+-- Course materials may be EPUBs as well as PDFs
+alter table public.course_materials
+  drop constraint if exists course_materials_material_type_check;
+
+alter table public.course_materials
+  add constraint course_materials_material_type_check
+  check (material_type in ('pdf', 'epub', 'note', 'external_link'));
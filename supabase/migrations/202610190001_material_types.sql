@@ -0,0 +1,7 @@
+-- Course materials may also be Markdown, HTML and plain-text sources
+alter table public.course_materials
+  drop constraint if exists course_materials_material_type_check;
+
+alter table public.course_materials
+  add constraint course_materials_material_type_check
+  check (material_type in ('pdf', 'epub', 'markdown', 'html', 'text', 'note', 'external_link'));
@@ -0,0 +1,3 @@
+-- Questions cite the source pages that answer them
+alter table public.assessment_questions
+  add column if not exists citations jsonb not null default '[]';
@@ -0,0 +1,4 @@
+-- Free-form answers earn partial credit; feedback cites the source pages
+alter table public.submission_answers
+  add column if not exists points_awarded numeric(6,2),
+  add column if not exists citations jsonb not null default '[]';
@@ -0,0 +1,9 @@
+-- Unlock events say what opened the unit, e.g. the score that passed the unit before it
+alter table public.course_unlocks
+  add column if not exists detail text;
+
+alter table public.courses
+  drop constraint if exists courses_unlock_mode_check;
+
+alter table public.courses
+  add constraint courses_unlock_mode_check check (unlock_mode in ('gated', 'ungated'));
@@ -0,0 +1,4 @@
+-- How each answer was graded; keyword grades stand in when the model is unavailable
+alter table public.submission_answers
+  add column if not exists graded_by text not null default 'answer_key'
+  check (graded_by in ('answer_key', 'model', 'keywords'));